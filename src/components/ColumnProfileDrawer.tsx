@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, History, Loader2, X } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { datasetsApi } from '../services/api';
+import {
+    columnIssues, columnTransformations, distributionOverlay, isMissingValue, localColumnStats, missingPattern,
+    type ColumnStats, type DataColumn, type DataRow
+} from '../utils/dataProcessor';
+
+interface ColumnProfileDrawerProps {
+    column: DataColumn | null;
+    rows: DataRow[];
+    headers: string[];
+    datasetId?: string | null;
+    // Version affichée du dataset : le profil serveur est redemandé à chaque version
+    version?: number | null;
+    transformations: string[];
+    target?: string;
+    onClose: () => void;
+}
+
+type ServerProfile = {
+    key: string;
+    stats: ColumnStats | null;
+    distribution: { name: string; value: number }[];
+};
+
+const formatNumber = (n: unknown) => typeof n === 'number' && Number.isFinite(n) ? Number(n.toPrecision(5)).toLocaleString('fr-FR') : String(n ?? '—');
+
+const STAT_LABELS: [keyof ColumnStats, string][] = [
+    ['mean', 'Moyenne'], ['median', 'Médiane'], ['mode', 'Mode'], ['std', 'Écart-type'],
+    ['min', 'Min'], ['q1', 'Q1'], ['q3', 'Q3'], ['max', 'Max'],
+    ['iqr', 'IQR'], ['skewness', 'Skewness'],
+];
+
+/**
+ * Profil complet d'une colonne : statistiques et distribution (serveur, ou
+ * échantillon local à défaut), motif des manquants, exemples de valeurs,
+ * problèmes détectés et transformations du journal qui l'ont touchée.
+ */
+export const ColumnProfileDrawer: React.FC<ColumnProfileDrawerProps> = ({ column, rows, headers, datasetId, version, transformations, target, onClose }) => {
+    const [profile, setProfile] = useState<ServerProfile | null>(null);
+    const name = column?.name;
+    const isNumeric = column?.type === 'numeric';
+    const key = `${datasetId}@${version ?? 0}:${name}`;
+
+    // Requêtes d'une autre colonne ou version annulées : seule la dernière met à jour le profil
+    useEffect(() => {
+        if (!datasetId || !name) return;
+        const controller = new AbortController();
+        const config = { signal: controller.signal };
+        const stats = isNumeric
+            ? datasetsApi.getStats(datasetId, name, config).then(res => res.data as ColumnStats).catch(() => null)
+            : Promise.resolve(null);
+        const distribution = (isNumeric
+            ? datasetsApi.getDistribution(datasetId, name, 20, config).then(res =>
+                (res.data || []).map((b: { range: string; count: number }) => ({ name: String(b.range), value: Number(b.count) })))
+            : datasetsApi.getCategories(datasetId, name, 15, config).then(res =>
+                (res.data || []).map((c: { name: string; size?: number; value?: number }) => ({ name: String(c.name), value: Number(c.size ?? c.value ?? 0) })))
+        ).catch(() => []);
+        Promise.all([stats, distribution]).then(([s, d]) => {
+            if (!controller.signal.aborted) setProfile({ key, stats: s, distribution: d });
+        });
+        return () => controller.abort();
+    }, [datasetId, name, isNumeric, key]);
+
+    const server = profile?.key === key ? profile : null;
+    const loading = !!datasetId && !!name && !server;
+    const local = column ? localColumnStats(rows, column.name) : null;
+    const stats = isNumeric ? server?.stats ?? local : null;
+    const distribution = server?.distribution.length
+        ? server.distribution
+        : column ? distributionOverlay(rows, rows, column.name, isNumeric ? 20 : 15).map(b => ({ name: b.label, value: b.before })) : [];
+    const pattern = column ? missingPattern(rows, headers, column.name) : null;
+    const samples = column ? [...new Set(rows.map(r => r[column.name]).filter(v => !isMissingValue(v)).map(String))].slice(0, 12) : [];
+    const issues = column ? columnIssues(column, rows, target) : [];
+    const history = column ? columnTransformations(transformations, column.name) : [];
+
+    const section = 'text-[10px] font-black text-primary uppercase tracking-widest mb-2 opacity-70';
+
+    return (
+        <AnimatePresence>
+            {column && pattern && (
+                <motion.div
+                    className="fixed inset-0 z-50 flex justify-end"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                >
+                    <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+                    <motion.div
+                        className="relative w-full max-w-lg bg-white shadow-2xl h-full overflow-y-auto"
+                        initial={{ x: '100%' }}
+                        animate={{ x: 0 }}
+                        exit={{ x: '100%' }}
+                        transition={{ type: 'spring', damping: 30 }}
+                    >
+                        <div className="p-6 space-y-6">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <h3 className="text-xl font-bold text-navy truncate">{column.name}</h3>
+                                    <div className="flex items-center gap-2 mt-1">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${isNumeric ? 'bg-blue-100 text-blue-700' : 'bg-primary-50 text-primary-700'}`}>{column.type}</span>
+                                        {column.name === target && <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-navy text-white">cible</span>}
+                                        {loading && <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />}
+                                    </div>
+                                </div>
+                                <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100">
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                {[
+                                    { label: 'Manquants', value: `${column.nullCount.toLocaleString('fr-FR')} (${column.nullPercentage.toFixed(1)} %)` },
+                                    { label: 'Uniques', value: column.uniqueCount.toLocaleString('fr-FR') },
+                                    { label: 'Échantillon', value: `${rows.length.toLocaleString('fr-FR')} lignes` },
+                                ].map(kpi => (
+                                    <div key={kpi.label} className="bg-gray-50 rounded-xl p-3 border border-gray-100">
+                                        <div className="text-sm font-bold text-navy">{kpi.value}</div>
+                                        <div className="text-[11px] text-gray-500">{kpi.label}</div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {stats && (
+                                <div>
+                                    <div className={section}>Statistiques{server?.stats ? '' : ' (échantillon)'}</div>
+                                    <div className="grid grid-cols-2 gap-x-6 gap-y-1.5 text-sm">
+                                        {STAT_LABELS.map(([k, label]) => (
+                                            <div key={k} className="flex justify-between border-b border-gray-50 py-1">
+                                                <span className="text-gray-500">{label}</span>
+                                                <span className="font-semibold text-navy font-mono">{formatNumber(stats[k])}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex gap-2 mt-3">
+                                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${stats.isNormal ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+                                            {stats.isNormal ? 'Distribution normale' : 'Non normale'}
+                                        </span>
+                                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${stats.isSymmetric ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+                                            {stats.isSymmetric ? 'Symétrique' : 'Asymétrique'}
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
+
+                            {distribution.length > 0 && (
+                                <div>
+                                    <div className={section}>{isNumeric ? 'Distribution' : 'Modalités principales'}{server?.distribution.length ? '' : ' (échantillon, %)'}</div>
+                                    <div className={isNumeric ? 'h-44' : 'h-64'}>
+                                        <ResponsiveContainer width="100%" height="100%">
+                                            {isNumeric ? (
+                                                <BarChart data={distribution} barCategoryGap={1}>
+                                                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                                    <XAxis dataKey="name" tick={{ fontSize: 9 }} interval="preserveStartEnd" />
+                                                    <YAxis tick={{ fontSize: 10 }} width={36} />
+                                                    <Tooltip />
+                                                    <Bar dataKey="value" name="Effectif" fill="#3c5fa0" radius={[2, 2, 0, 0]} />
+                                                </BarChart>
+                                            ) : (
+                                                <BarChart data={distribution} layout="vertical" margin={{ left: 8 }}>
+                                                    <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                                                    <XAxis type="number" tick={{ fontSize: 10 }} />
+                                                    <YAxis type="category" dataKey="name" tick={{ fontSize: 10 }} width={110} />
+                                                    <Tooltip />
+                                                    <Bar dataKey="value" name="Effectif" fill="#3c5fa0" radius={[0, 3, 3, 0]} />
+                                                </BarChart>
+                                            )}
+                                        </ResponsiveContainer>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div>
+                                <div className={section}>Motif des manquants</div>
+                                {column.nullCount === 0 ? (
+                                    <p className="text-sm text-gray-400 italic">Aucune valeur manquante.</p>
+                                ) : (
+                                    <>
+                                        <div className="flex flex-wrap gap-px" title={`${pattern.mask.length} premières lignes de l'échantillon`}>
+                                            {pattern.mask.map((missing, i) => (
+                                                <span key={i} className={`w-1.5 h-4 rounded-sm ${missing ? 'bg-red-400' : 'bg-gray-100'}`} />
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            Plus longue série manquante : <strong className="text-navy">{pattern.longestRun}</strong> lignes consécutives.
+                                            {pattern.coMissing.length > 0 && (
+                                                <> Manquante en même temps que {pattern.coMissing.map(c => `« ${c.column} » (${Math.round(c.share * 100)} %)`).join(', ')}.</>
+                                            )}
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+
+                            <div>
+                                <div className={section}>Exemples de valeurs</div>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {samples.length === 0 && <span className="text-sm text-gray-400 italic">Aucune valeur.</span>}
+                                    {samples.map(v => (
+                                        <span key={v} className="px-2 py-1 bg-gray-50 border border-gray-100 rounded-lg text-xs text-navy max-w-[200px] truncate" title={v}>{v}</span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <div className={section}>Problèmes détectés</div>
+                                {issues.length === 0 ? (
+                                    <p className="flex items-center gap-2 text-sm text-green-700"><CheckCircle className="h-4 w-4" /> Rien à signaler sur l'échantillon.</p>
+                                ) : (
+                                    <ul className="space-y-1.5">
+                                        {issues.map(issue => (
+                                            <li key={issue} className="flex items-start gap-2 text-sm text-amber-700">
+                                                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" /> {issue}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            <div>
+                                <div className={section}>Transformations appliquées</div>
+                                {history.length === 0 ? (
+                                    <p className="text-sm text-gray-400 italic">Aucune transformation n'a touché cette colonne.</p>
+                                ) : (
+                                    <ol className="space-y-1.5">
+                                        {history.map((entry, i) => (
+                                            <li key={i} className="flex items-start gap-2 text-sm text-navy">
+                                                <History className="h-4 w-4 shrink-0 mt-0.5 text-primary" /> {entry}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default ColumnProfileDrawer;
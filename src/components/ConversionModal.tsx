@@ -56,6 +56,13 @@ const TRIGGER_MESSAGES: Record<string, { title: string; message: Record<string,
             starter: 'Visualisation avancée activée.'
         }
     },
+    scatter_matrix: {
+        title: 'Visualisation avancée',
+        message: {
+            guest: "La matrice de nuages de points croise jusqu'à 8 variables d'un coup d'œil. Créez un compte pour y accéder.",
+            starter: 'Visualisation avancée activée.'
+        }
+    },
     funnel_chart: {
         title: 'Funnel chart',
         message: {
@@ -63,6 +70,20 @@ const TRIGGER_MESSAGES: Record<string, { title: string; message: Record<string,
             starter: 'Graphique funnel activé.'
         }
     },
+    pipeline_export_pkl: {
+        title: 'Pipeline entraîné',
+        message: {
+            guest: 'Téléchargez le préprocesseur ajusté (.pkl) et son manifeste pour le déployer tel quel en production. Créez un compte gratuit pour y accéder.',
+            starter: 'Export du pipeline entraîné activé.'
+        }
+    },
+    save_pipeline: {
+        title: 'Recettes de pipeline',
+        message: {
+            guest: 'Enregistrez vos traitements et rejouez-les sur chaque nouvel extrait. Créez un compte gratuit pour sauvegarder vos recettes.',
+            starter: 'Recettes de pipeline activées.'
+        }
+    },
     nlp_tfidf: {
         title: 'NLP premium',
         message: {
@@ -70,6 +91,20 @@ const TRIGGER_MESSAGES: Record<string, { title: string; message: Record<string,
             starter: 'Analyse NLP avancée activée.'
         }
     },
+    nlp_word2vec: {
+        title: 'Word2Vec',
+        message: {
+            guest: 'Les plongements de mots (Word2Vec, FastText, GloVe) sont réservés aux membres. Créez un compte gratuit pour les activer.',
+            starter: 'Plongements de mots activés.'
+        }
+    },
+    nlp_bert: {
+        title: 'Embeddings BERT',
+        message: {
+            guest: 'Les embeddings de phrases (BERT, CamemBERT) sont réservés aux membres. Créez un compte gratuit pour les activer.',
+            starter: 'Embeddings de phrases activés.'
+        }
+    },
 };
 
 const DEFAULT_MESSAGE = {
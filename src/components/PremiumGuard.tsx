@@ -7,6 +7,7 @@ interface PremiumGuardProps {
     children: React.ReactNode;
     blur?: boolean;
     fallbackMessage?: string;
+    compact?: boolean;
 }
 
 /**
@@ -16,12 +17,15 @@ interface PremiumGuardProps {
  *   <PremiumGuard feature="correlation_heatmap" blur={true}>
  *       <CorrelationMatrix data={...} />
  *   </PremiumGuard>
+ *
+ * `compact` : pour un bouton ou une entrée de menu — contenu grisé + cadenas, sans carte.
  */
 export const PremiumGuard: React.FC<PremiumGuardProps> = ({
     feature,
     children,
     blur = true,
     fallbackMessage,
+    compact = false,
 }) => {
     const { canAccess, tier, isGuest } = useAuth();
     const [showModal, setShowModal] = React.useState(false);
@@ -32,6 +36,40 @@ export const PremiumGuard: React.FC<PremiumGuardProps> = ({
         return <>{children}</>;
     }
 
+    if (compact) {
+        return (
+            <div style={{ position: 'relative' }} title={fallbackMessage || 'Fonctionnalité réservée aux membres'}>
+                <div style={{ pointerEvents: 'none', userSelect: 'none', opacity: 0.5 }}>
+                    {children}
+                </div>
+                <div
+                    onClick={() => setShowModal(true)}
+                    style={{
+                        position: 'absolute',
+                        inset: 0,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'flex-end',
+                        paddingRight: '12px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="#3c5fa0" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+                        <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                    </svg>
+                </div>
+                {showModal && (
+                    <ConversionModal
+                        trigger={feature}
+                        currentTier={tier}
+                        onClose={() => setShowModal(false)}
+                    />
+                )}
+            </div>
+        );
+    }
+
     return (
         <div style={{ position: 'relative' }}>
             {/* Blurred preview or placeholder */}
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadBlob } from '../../utils/download';
+import { rowsToCsv, serializeChartSvg, svgToPngBlob } from '../../utils/chartExport';
+
+interface ChartExportMenuProps {
+    // Nom des fichiers téléchargés, sans extension
+    fileName: string;
+    // Données affichées par le graphique, exportées telles quelles en CSV
+    data: Record<string, unknown>[] | null | undefined;
+    // Graphique dessiné hors Recharts (jauge) ; par défaut, le SVG de la carte `data-chart-card` parente
+    svg?: () => string | null;
+}
+
+const FORMATS = [
+    { id: 'png', label: 'Image PNG (.png)', icon: 'PNG' },
+    { id: 'svg', label: 'Image vectorielle (.svg)', icon: 'SVG' },
+    { id: 'csv', label: 'Données CSV (.csv)', icon: 'CSV' },
+] as const;
+
+/** Menu de téléchargement d'une carte graphique : image PNG / SVG et données CSV. */
+export const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ fileName, data, svg }) => {
+    const [open, setOpen] = useState(false);
+    const anchorRef = useRef<HTMLDivElement>(null);
+    const empty = !data?.length;
+
+    const handleExport = async (format: typeof FORMATS[number]['id']) => {
+        setOpen(false);
+        if (format === 'csv') {
+            downloadBlob(new Blob([rowsToCsv(data ?? [])], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+            return;
+        }
+        const card = anchorRef.current?.closest<HTMLElement>('[data-chart-card]');
+        const markup = svg ? svg() : card ? serializeChartSvg(card) : null;
+        if (!markup) {
+            toast.error("Le graphique n'est pas encore affiché");
+            return;
+        }
+        if (format === 'svg') {
+            downloadBlob(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+            return;
+        }
+        try {
+            downloadBlob(await svgToPngBlob(markup), `${fileName}.png`);
+        } catch (err) {
+            console.error('PNG export error', err);
+            toast.error("Export PNG impossible, essayez le format SVG");
+        }
+    };
+
+    return (
+        <div ref={anchorRef} className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={empty}
+                className="p-1 rounded-lg text-gray-400 hover:text-primary hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Télécharger le graphique ou ses données"
+            >
+                <Download className="h-4 w-4" />
+            </button>
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-2xl shadow-2xl border border-gray-100 p-2 z-20">
+                        {FORMATS.map((format) => (
+                            <button
+                                key={format.id}
+                                onClick={() => handleExport(format.id)}
+                                className="w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-blue-50 transition-colors text-left group"
+                            >
+                                <div className="w-8 h-8 rounded-lg bg-gray-100 flex items-center justify-center text-[10px] font-bold text-gray-500 group-hover:bg-primary group-hover:text-white transition-colors">
+                                    {format.icon}
+                                </div>
+                                <span className="text-sm font-bold text-navy">{format.label}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ChartExportMenu;
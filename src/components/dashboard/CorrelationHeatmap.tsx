@@ -0,0 +1,112 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { CORRELATION_METHODS, type CorrelationMatrix, type CorrelationMethod, type ScatterPair } from '../../utils/dataProcessor';
+
+interface CorrelationHeatmapProps {
+    // undefined : en cours de chargement ; null : indisponible
+    correlation: CorrelationMatrix | null | undefined;
+    // Sans méthode, le choix Pearson / Spearman / Kendall est masqué
+    method?: CorrelationMethod;
+    onMethodChange?: (method: CorrelationMethod) => void;
+    onCellClick?: (pair: ScatterPair) => void;
+    title?: string;
+    emptyMessage?: string;
+}
+
+// Valeurs affichées dans les cases tant que la matrice reste lisible
+const MAX_LABELLED_COLUMNS = 12;
+
+const cellColor = (value: number) => value >= 0
+    ? `rgba(60, 95, 160, ${Math.abs(value)})`
+    : `rgba(239, 68, 68, ${Math.abs(value)})`;
+
+/**
+ * Matrice de corrélation complète (N×N) : bleu pour les corrélations
+ * positives, rouge pour les négatives, intensité selon |r|. Avec `onCellClick`,
+ * un clic sur une case hors diagonale ouvre le nuage de points du couple.
+ */
+export const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({
+    correlation, method, onMethodChange, onCellClick, title = 'Matrice de corrélation', emptyMessage = 'Pas assez de données numériques pour corréler'
+}) => {
+    const columns = correlation?.columns ?? [];
+    const labelled = columns.length <= MAX_LABELLED_COLUMNS;
+
+    return (
+        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 flex flex-col hover:shadow-md transition-shadow">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <h5 className="font-bold text-navy flex items-center gap-2">
+                    <Grid3x3 className="h-4 w-4 text-primary" /> {title}
+                </h5>
+                {method && (
+                    <div className="flex bg-gray-100 p-1 rounded-xl">
+                        {(Object.keys(CORRELATION_METHODS) as CorrelationMethod[]).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => onMethodChange?.(m)}
+                                disabled={!onMethodChange}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${method === m ? 'bg-white text-navy shadow-sm' : 'text-gray-500 hover:text-navy'}`}
+                            >
+                                {CORRELATION_METHODS[m]}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {correlation === undefined ? (
+                <div className="flex-1 min-h-[300px] flex items-center justify-center">
+                    <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+            ) : columns.length < 2 || !correlation ? (
+                <div className="flex-1 min-h-[200px] flex items-center justify-center text-gray-400 italic">{emptyMessage}</div>
+            ) : (
+                <>
+                    <div className="overflow-x-auto">
+                        <div
+                            className="grid gap-px text-[10px] min-w-fit"
+                            style={{ gridTemplateColumns: `120px repeat(${columns.length}, minmax(${labelled ? 40 : 18}px, 1fr))` }}
+                        >
+                            <div />
+                            {columns.map(c => (
+                                <div key={c} className="h-24 flex items-end justify-center pb-1" title={c}>
+                                    <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-24 font-bold text-navy">{c}</span>
+                                </div>
+                            ))}
+                            {columns.map((row, i) => (
+                                <React.Fragment key={row}>
+                                    <div className="truncate font-bold text-navy pr-2 flex items-center justify-end" title={row}>{row}</div>
+                                    {columns.map((col, j) => {
+                                        const value = correlation.matrix[i]?.[j];
+                                        const valid = typeof value === 'number' && Number.isFinite(value);
+                                        const diagonal = i === j;
+                                        const clickable = !!onCellClick && !diagonal && valid;
+                                        return (
+                                            <button
+                                                key={col}
+                                                disabled={!clickable}
+                                                onClick={() => onCellClick?.({ x: col, y: row })}
+                                                title={valid ? `${row} × ${col} : r = ${value.toFixed(3)}` : `${row} × ${col} : non calculable`}
+                                                className={`aspect-square flex items-center justify-center font-mono rounded-sm transition-transform ${!clickable ? 'cursor-default' : 'hover:scale-110 hover:z-10 hover:ring-2 hover:ring-navy'} ${valid && Math.abs(value) > 0.5 ? 'text-white' : 'text-navy'}`}
+                                                style={{ backgroundColor: valid ? cellColor(value) : '#f1f5f9' }}
+                                            >
+                                                {labelled && (valid ? value.toFixed(2) : '—')}
+                                            </button>
+                                        );
+                                    })}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-3 mt-6 text-[10px] font-bold text-gray-400">
+                        <span>-1</span>
+                        <div className="flex-1 max-w-xs h-2 rounded-full" style={{ background: `linear-gradient(to right, ${cellColor(-1)}, #ffffff, ${cellColor(1)})` }} />
+                        <span>+1</span>
+                        {onCellClick && <span className="ml-auto italic font-normal">Cliquez sur une case pour afficher le nuage de points du couple</span>}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CorrelationHeatmap;
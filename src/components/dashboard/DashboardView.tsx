@@ -1,25 +1,73 @@
 import { useMemo, useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '../../contexts/AuthContext';
-import { Download, BarChart3, TrendingUp, Database, ArrowDown, CheckCircle } from 'lucide-react';
+import { Download, BarChart3, TrendingUp, Database, ArrowDown, CheckCircle, Undo2, Redo2, RotateCcw, BookmarkPlus, GitCompare, Plus, X, CalendarClock, FileText } from 'lucide-react';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
     PieChart, Pie, Cell, Legend,
     AreaChart, Area, ScatterChart, Scatter,
     Treemap, FunnelChart, Funnel, LabelList, ComposedChart
 } from 'recharts';
-import type { DatasetInfo, DataRow } from '../../utils/dataProcessor';
+import {
+    MAX_MATRIX_COLUMNS, SPLIT_LABELS, correlationBetween, strongestPair,
+    type ChartSelection, type ColumnStats, type CorrelationMatrix, type CorrelationMethod, type DatasetInfo, type DataRow, type DiffSource, type ScatterPair, type SplitName
+} from '../../utils/dataProcessor';
 import { datasetsApi } from '../../services/api';
+import { buildReportHtml, gaugeSvg } from '../../services/report';
+import { downloadBlob } from '../../utils/download';
+import { chartFileName } from '../../utils/chartExport';
+import { useKeyedData, type KeyedRequest } from '../../hooks/useKeyedData';
 import { PremiumGuard } from '../PremiumGuard';
+import DataGrid from './DataGrid';
+import ColumnProfileDrawer from '../ColumnProfileDrawer';
+import DiffView, { type DiffBaseline } from './DiffView';
+import CorrelationHeatmap from './CorrelationHeatmap';
+import ScatterMatrix from './ScatterMatrix';
+import PairScatterModal from './PairScatterModal';
+import TimeSeriesPanel from './TimeSeriesPanel';
+import MissingnessPanel from './MissingnessPanel';
+import ChartExportMenu from './ChartExportMenu';
 
 interface DashboardViewProps {
     dataset: DatasetInfo;
     originalData: DataRow[];
     initialColumnInfo: any[];
     transformations: string[];
-    onExport: (format: 'csv' | 'xlsx' | 'json' | 'xml') => void;
+    onExport: (format: 'csv' | 'xlsx' | 'json' | 'xml', split?: SplitName) => void;
+    onExportCode?: (format: 'py' | 'ipynb') => void;
+    onExportPipeline?: () => void;
+    versionControl?: VersionControl;
+    onSaveRecipe?: () => void;
+    canSaveRecipe?: boolean;
+    // Colonnes choisies pour chaque graphique (sauvegardées avec la session)
+    chartSelection?: ChartSelection | null;
+    onChartSelectionChange?: (selection: ChartSelection) => void;
+    // Nom du fichier importé, repris dans le rapport et les exports de graphiques
+    fileName?: string;
+    // Version affichée (undo, redo, retour à une étape) : les données serveur sont rechargées à chaque version
+    dataVersion?: number | null;
+}
+
+// Historique des versions : journal de chaque version + position courante
+interface VersionControl {
+    versions: string[][];
+    // Données de chaque version, pour la comparaison avant / après (null : version ancienne libérée)
+    snapshots?: (DatasetInfo | null)[];
+    index: number;
+    // Versions auxquelles on peut revenir
+    restorable: boolean[];
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onRollback: (index: number) => void;
 }
 
+type DistributionData = { bins: { range: string; count: number }[]; stats: ColumnStats };
+type TreemapNode = { name: string; size: number };
+type FunnelStage = { name: string; value: number };
+type ScatterPoint = { x: number; y: number };
+
 const COLORS = ['#3c5fa0', '#5178c0', '#7fa3e0', '#a6c1f0', '#1e3a8a', '#2563eb', '#3b82f6', '#60a5fa', '#93c5fd', '#bfdbfe'];
 
 const CustomTreemapContent = (props: any) => {
@@ -66,25 +114,31 @@ const CustomTreemapContent = (props: any) => {
     );
 };
 
-const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, initialColumnInfo, transformations, onExport }) => {
-    const { isGuest, isAuthenticated } = useAuth();
-    const [activeTab, setActiveTab] = useState<'journal' | 'preview' | 'viz'>('viz');
-    const [vizFilter, setVizFilter] = useState<'all' | 'health' | 'analytics' | 'composition' | 'impact' | 'distribution'>('all');
+// Sélecteur de colonne affiché dans l'en-tête des cartes
+const ColumnPicker: React.FC<{ value?: string; columns: string[]; onChange: (column: string) => void; title?: string }> = ({ value, columns, onChange, title }) => (
+    <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        title={title}
+        className="max-w-[160px] bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs font-medium text-navy outline-none focus:border-primary cursor-pointer"
+    >
+        {columns.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+);
+
+const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, initialColumnInfo, transformations, onExport, onExportCode, onExportPipeline, versionControl, onSaveRecipe, canSaveRecipe, chartSelection, onChartSelectionChange, fileName, dataVersion }) => {
+    const { isGuest, isAuthenticated, isStaff, tierInfo } = useAuth();
+    const [activeTab, setActiveTab] = useState<'journal' | 'preview' | 'diff' | 'viz'>('viz');
+    const [vizFilter, setVizFilter] = useState<'all' | 'health' | 'analytics' | 'composition' | 'impact' | 'distribution' | 'time'>('all');
     const [showExportMenu, setShowExportMenu] = useState(false);
-    const [correlation, setCorrelation] = useState<{ matrix: number[][]; columns: string[] } | null>(null);
-    const [distributions, setDistributions] = useState<any[]>([]);
-    const [treemapData, setTreemapData] = useState<any>(null);
+    const [profileColumn, setProfileColumn] = useState<string | null>(null);
+    const [focusPair, setFocusPair] = useState<ScatterPair | null>(null);
     const [typeDistribution, setTypeDistribution] = useState<any[]>([]);
-    const [scatterData, setScatterData] = useState<any>(null);
     const [missingComparison, setMissingComparison] = useState<any[]>([]);
-    const [funnelData, setFunnelData] = useState<any[]>([]);
     const [waterfallData, setWaterfallData] = useState<any[]>([]);
     const [gaugeData, setGaugeData] = useState<any>(null);
     const [loadingStates, setLoadingStates] = useState({
         basic: true,
-        numeric: true,
-        categorical: true,
-        scatter: true,
         advanced: true
     });
 
@@ -96,9 +150,12 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
             (c.type === 'numeric' && c.uniqueCount > 1 && c.uniqueCount <= 10)
         );
     }, [dataset]);
+    const hasDatetime = dataset.columnInfo.some(c => c.type === 'datetime');
 
     useEffect(() => {
         if (!dataset.id) return;
+        // Réponses d'une version précédente ignorées
+        let stale = false;
 
         const fetchData = async () => {
             const id = dataset.id!;
@@ -106,12 +163,12 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
             // 1. Parallel basic fetches
             setLoadingStates(prev => ({ ...prev, basic: true }));
             try {
-                const [typesRes, qualityRes, corrRes] = await Promise.all([
+                const [typesRes, qualityRes] = await Promise.all([
                     datasetsApi.getTypes(id).catch(() => ({ data: [] })),
-                    datasetsApi.getQuality(id).catch(() => ({ data: [] })),
-                    datasetsApi.getCorrelation(id).catch(() => ({ data: null }))
+                    datasetsApi.getQuality(id).catch(() => ({ data: [] }))
                 ]);
 
+                if (stale) return;
                 if (typesRes.data) setTypeDistribution(typesRes.data);
 
                 if (qualityRes.data) {
@@ -126,87 +183,29 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                     }).filter((d: any) => d.avant > 0 || d.apres > 0);
                     setMissingComparison(comparison);
                 }
-
-                if (corrRes.data) setCorrelation(corrRes.data);
             } catch (err) {
                 console.error("Error in primary parallel fetch", err);
             } finally {
-                setLoadingStates(prev => ({ ...prev, basic: false }));
+                if (!stale) setLoadingStates(prev => ({ ...prev, basic: false }));
             }
 
-            // 2. Distributions & Stats (Numeric dependencies)
-            if (numericCols.length > 0) {
-                setLoadingStates(prev => ({ ...prev, numeric: true }));
-                try {
-                    const dists = await Promise.all(
-                        numericCols.slice(0, 4).map(async (col) => {
-                            try {
-                                const [dRes, sRes] = await Promise.all([
-                                    datasetsApi.getDistribution(id, col.name),
-                                    datasetsApi.getStats(id, col.name)
-                                ]);
-                                return { name: col.name, bins: dRes.data, stats: sRes.data };
-                            } catch { return null; }
-                        })
-                    );
-                    setDistributions(dists.filter((d): d is any => d !== null && d.bins && d.stats));
-
-                    // Radar Chart fetching removed
-
-                } catch (err) {
-                    console.error("Error fetching numeric analytics", err);
-                } finally {
-                    setLoadingStates(prev => ({ ...prev, numeric: false }));
-                }
-            } else {
-                setLoadingStates(prev => ({ ...prev, numeric: false }));
-            }
-
-            // 3. Categories (Treemap)
-            if (catCols.length > 0) {
-                setLoadingStates(prev => ({ ...prev, categorical: true }));
-                try {
-                    const col = catCols[0];
-                    const res = await datasetsApi.getCategories(id, col.name);
-                    setTreemapData({
-                        name: col.name,
-                        children: res.data
-                    });
-                } catch (err) {
-                    console.error("Error fetching categorical analytics", err);
-                } finally {
-                    setLoadingStates(prev => ({ ...prev, categorical: false }));
-                }
-            } else {
-                setLoadingStates(prev => ({ ...prev, categorical: false }));
-            }
-
-            // 4. Advanced Visuals (Funnel, Boxplot, Waterfall)
+            // 2. Advanced Visuals (Waterfall, Gauge)
             setLoadingStates(prev => ({ ...prev, advanced: true }));
             try {
                 const advancedPromises = [];
 
-                // Funnel (Premier champ catégoriel ou spécifique)
-                if (catCols.length > 0) {
-                    advancedPromises.push(
-                        datasetsApi.getFunnel(id, catCols[0].name)
-                            .then(res => setFunnelData(res.data))
-                            .catch(err => console.error("Funnel error", err))
-                    );
-                }
-
                 // Waterfall
 
                 advancedPromises.push(
                     datasetsApi.getWaterfall(id, originalData.length || dataset.rows, transformations)
-                        .then(res => setWaterfallData(res.data))
+                        .then(res => { if (!stale) setWaterfallData(res.data); })
                         .catch(err => console.error("Waterfall error", err))
                 );
 
                 // Gauge Quality
                 advancedPromises.push(
                     datasetsApi.getGauge(id)
-                        .then(res => setGaugeData(res.data))
+                        .then(res => { if (!stale) setGaugeData(res.data); })
                         .catch(err => console.error("Gauge error", err))
                 );
 
@@ -214,40 +213,94 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
             } catch (err) {
                 console.error("Error fetching advanced visuals", err);
             } finally {
-                setLoadingStates(prev => ({ ...prev, advanced: false }));
+                if (!stale) setLoadingStates(prev => ({ ...prev, advanced: false }));
             }
         };
 
         fetchData();
-    }, [dataset.id, numericCols, catCols, initialColumnInfo]);
+        return () => { stale = true; };
+    }, [dataset.id, dataset.rows, dataVersion, initialColumnInfo, originalData.length, transformations]);
 
-    // Fetch scatter plot data separately when correlation is ready
-    useEffect(() => {
-        if (!dataset.id || !correlation || !correlation.matrix || !correlation.columns || !correlation.columns.length) return;
+    // Matrice de corrélation, recalculée par le serveur pour chaque méthode
+    const datasetId = dataset.id;
+    const cacheKey = `${datasetId}@${dataVersion ?? 0}`;
+    const correlationMethod = chartSelection?.correlation ?? 'pearson';
+    const correlationRequests = useMemo<KeyedRequest<CorrelationMatrix>[]>(() => datasetId
+        ? [{ key: `${cacheKey}:${correlationMethod}`, load: async () => (await datasetsApi.getCorrelation(datasetId, correlationMethod)).data }]
+        : [], [datasetId, cacheKey, correlationMethod]);
+    const correlationData = useKeyedData(correlationRequests).data;
+    const correlationEntry = datasetId ? correlationData[`${cacheKey}:${correlationMethod}`] : null;
+    const correlation = correlationEntry ?? null;
+    const correlationLoading = correlationEntry === undefined;
 
-        const fetchScatter = async () => {
-            setLoadingStates(prev => ({ ...prev, scatter: true }));
-            try {
-                const pairs: { c1: string, c2: string, corr: number }[] = [];
-                for (let i = 0; i < correlation.columns.length; i++) {
-                    for (let j = i + 1; j < correlation.columns.length; j++) {
-                        pairs.push({ c1: correlation.columns[i], c2: correlation.columns[j], corr: Math.abs(correlation.matrix[i][j]) });
-                    }
-                }
-                const best = pairs.sort((a, b) => b.corr - a.corr)[0];
-                if (best) {
-                    const res = await datasetsApi.getScatter(dataset.id!, best.c1, best.c2);
-                    setScatterData({ xName: best.c1, yName: best.c2, data: res.data });
-                }
-            } catch (err) {
-                console.error("Error fetching scatter data", err);
-            } finally {
-                setLoadingStates(prev => ({ ...prev, scatter: false }));
-            }
-        };
+    // Colonnes des cartes : choix de l'utilisateur, sinon choix automatique.
+    // Les colonnes disparues du dataset (suppression, encodage) sont ignorées.
+    const distributionColumns = useMemo(() => {
+        const names = numericCols.map(c => c.name);
+        return (chartSelection?.distributions ?? names.slice(0, 4)).filter(c => names.includes(c));
+    }, [chartSelection, numericCols]);
+    const pickCategory = (column?: string) => catCols.some(c => c.name === column) ? column : catCols[0]?.name;
+    const treemapColumn = pickCategory(chartSelection?.treemap);
+    const funnelColumn = pickCategory(chartSelection?.funnel);
+    const scatterPairs = useMemo(() => {
+        const names = numericCols.map(c => c.name);
+        const best = strongestPair(correlation);
+        return (chartSelection?.scatters ?? (best ? [best] : [])).filter(p => names.includes(p.x) && names.includes(p.y));
+    }, [chartSelection, numericCols, correlation]);
+    const matrixColumns = useMemo(() => {
+        const names = numericCols.map(c => c.name);
+        return (chartSelection?.matrix ?? names.slice(0, 4)).filter(c => names.includes(c)).slice(0, MAX_MATRIX_COLUMNS);
+    }, [chartSelection, numericCols]);
+
+    const distributionRequests = useMemo<KeyedRequest<DistributionData>[]>(() => datasetId
+        ? distributionColumns.map(column => ({
+            key: `${cacheKey}:${column}`,
+            load: async () => {
+                const [dRes, sRes] = await Promise.all([
+                    datasetsApi.getDistribution(datasetId, column),
+                    datasetsApi.getStats(datasetId, column)
+                ]);
+                return { bins: dRes.data || [], stats: sRes.data };
+            },
+        }))
+        : [], [datasetId, cacheKey, distributionColumns]);
+    const treemapRequests = useMemo<KeyedRequest<TreemapNode[]>[]>(() => datasetId && treemapColumn
+        ? [{ key: `${cacheKey}:${treemapColumn}`, load: async () => (await datasetsApi.getCategories(datasetId, treemapColumn)).data || [] }]
+        : [], [datasetId, cacheKey, treemapColumn]);
+    const funnelRequests = useMemo<KeyedRequest<FunnelStage[]>[]>(() => datasetId && funnelColumn
+        ? [{ key: `${cacheKey}:${funnelColumn}`, load: async () => (await datasetsApi.getFunnel(datasetId, funnelColumn)).data || [] }]
+        : [], [datasetId, cacheKey, funnelColumn]);
+    // Le couple ouvert depuis la matrice de corrélation partage le cache des nuages
+    const scatterRequests = useMemo<KeyedRequest<ScatterPoint[]>[]>(() => datasetId
+        ? [...scatterPairs, ...(focusPair ? [focusPair] : [])].map(({ x, y }) => ({
+            key: `${cacheKey}:${x}:${y}`,
+            load: async () => (await datasetsApi.getScatter(datasetId, x, y)).data || [],
+        }))
+        : [], [datasetId, cacheKey, scatterPairs, focusPair]);
+    const { data: distributionData, retry: retryDistribution } = useKeyedData(distributionRequests);
+    const treemapData = useKeyedData(treemapRequests).data;
+    const funnelData = useKeyedData(funnelRequests).data;
+    const scatterData = useKeyedData(scatterRequests).data;
+    const treemap = datasetId && treemapColumn ? treemapData[`${cacheKey}:${treemapColumn}`] : null;
+    const funnel = datasetId && funnelColumn ? funnelData[`${cacheKey}:${funnelColumn}`] : null;
 
-        fetchScatter();
-    }, [dataset.id, correlation]);
+    // Toute modification fige la sélection affichée (y compris les choix automatiques)
+    // Les choix sans sélecteur ici (méthode, matrice, série temporelle) sont conservés tels quels
+    const updateCharts = (patch: ChartSelection) => onChartSelectionChange?.({
+        ...chartSelection,
+        distributions: distributionColumns,
+        treemap: treemapColumn,
+        funnel: funnelColumn,
+        scatters: scatterPairs,
+        ...patch,
+    });
+    // Le changement de méthode ne fige pas les autres choix automatiques
+    const setCorrelationMethod = (correlation: CorrelationMethod) => onChartSelectionChange?.({ ...chartSelection, correlation });
+    const nextNumeric = (shown: string[]) => numericCols.find(c => !shown.includes(c.name))?.name ?? numericCols[0]?.name;
+    const addScatter = () => {
+        const pair = strongestPair(correlation, scatterPairs) ?? (numericCols.length > 1 ? { x: numericCols[0].name, y: numericCols[1].name } : null);
+        if (pair) updateCharts({ scatters: [...scatterPairs, pair] });
+    };
 
     // Correlation heatmap data for top correlated pairs
     const topCorrelations = useMemo(() => {
@@ -255,18 +308,61 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
         const pairs: { pair: string; correlation: number }[] = [];
         for (let i = 0; i < correlation.columns.length; i++) {
             for (let j = i + 1; j < correlation.columns.length; j++) {
+                const value = correlation.matrix[i]?.[j];
+                if (typeof value !== 'number' || !Number.isFinite(value)) continue;
                 pairs.push({
                     pair: `${correlation.columns[i].substring(0, 6)}-${correlation.columns[j].substring(0, 6)}`,
-                    correlation: correlation.matrix[i][j],
+                    correlation: value,
                 });
             }
         }
         return pairs.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation)).slice(0, 10);
     }, [correlation]);
 
+    const baseName = (fileName || 'dataset').replace(/\.[^/.]+$/, '');
+    const exportName = (...parts: string[]) => chartFileName(baseName, ...parts);
+
+    // Rapport HTML autonome reprenant les graphiques déjà chargés ; l'offre limite la part lisible
+    const handleGenerateReport = () => {
+        const html = buildReportHtml({
+            fileName: fileName || 'dataset',
+            generatedAt: new Date(),
+            rowsBefore: originalData.length || dataset.rows,
+            rowsAfter: dataset.rows,
+            columnInfo: dataset.columnInfo,
+            initialColumnInfo,
+            quality: typeof gaugeData?.value === 'number' ? gaugeData.value : null,
+            journal: transformations,
+            missing: missingComparison,
+            distributions: distributionColumns.flatMap(name => {
+                const dist = distributionData[`${cacheKey}:${name}`];
+                return dist ? [{ name, bins: dist.bins, stats: dist.stats }] : [];
+            }),
+            correlation,
+            correlationMethod,
+            waterfall: waterfallData,
+            visiblePercent: isStaff ? 100 : tierInfo?.limits.report_visible_percent ?? 100,
+        });
+        downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${baseName}_rapport.html`);
+    };
+
+    // Versions comparables à la version courante : données importées puis chaque transformation
+    // (hors versions anciennes dont les données ont été libérées)
+    const snapshots = versionControl?.snapshots;
+    const versionIndex = versionControl?.index ?? 0;
+    const diffSources = useMemo<(DiffSource | null)[]>(() => snapshots?.length
+        ? snapshots.slice(0, versionIndex).map(s => s && { columnInfo: s.columnInfo, data: s.data || [] })
+        : originalData.length ? [{ columnInfo: initialColumnInfo, data: originalData }] : [],
+    [snapshots, versionIndex, originalData, initialColumnInfo]);
+    const diffBaselines: DiffBaseline[] = diffSources.flatMap((source, i) => source ? [{
+        label: i === 0 ? 'Données importées' : `Version ${i} — ${versionControl?.versions[i]?.at(-1) ?? ''}`,
+        source,
+    }] : []);
+
     const allTabs = [
         { id: 'journal', label: 'Journal des transformations', icon: TrendingUp },
         { id: 'preview', label: 'Aperçu des données finales', icon: Database },
+        { id: 'diff', label: 'Avant / après', icon: GitCompare },
         { id: 'viz', label: 'Visualisation', icon: BarChart3 },
     ] as const;
 
@@ -284,7 +380,25 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                         <h3 className="text-2xl font-bold text-navy">Dashboard de Visualisation</h3>
                         <p className="text-gray-500 mt-1">Résumé des transformations et analyses statistiques</p>
                     </div>
-                    <div className="relative">
+                    <div className="relative flex items-center gap-3">
+                        {onSaveRecipe && (
+                            <button
+                                onClick={onSaveRecipe}
+                                disabled={!canSaveRecipe}
+                                title={canSaveRecipe ? 'Rejouer ces traitements sur un prochain fichier' : 'Aucune opération rejouable dans cette session'}
+                                className="flex items-center gap-2 rounded-xl px-5 py-3 border-2 border-gray-200 text-navy font-semibold text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <BookmarkPlus className="h-5 w-5" /> Enregistrer la recette
+                            </button>
+                        )}
+                        <button
+                            onClick={handleGenerateReport}
+                            disabled={loadingStates.basic || loadingStates.advanced}
+                            title="Rapport HTML autonome, imprimable en PDF"
+                            className="flex items-center gap-2 rounded-xl px-5 py-3 border-2 border-gray-200 text-navy font-semibold text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <FileText className="h-5 w-5" /> Générer le rapport
+                        </button>
                         <button
                             onClick={() => setShowExportMenu(!showExportMenu)}
                             className="btn-primary rounded-xl gap-2 px-6 py-3 shadow-lg shadow-blue-200/50"
@@ -295,7 +409,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                         {showExportMenu && (
                             <>
                                 <div className="fixed inset-0 z-10" onClick={() => setShowExportMenu(false)} />
-                                <div className="absolute right-0 mt-3 w-48 bg-white rounded-2xl shadow-2xl border border-gray-100 p-2 z-20">
+                                <div className="absolute right-0 top-full mt-3 w-56 bg-white rounded-2xl shadow-2xl border border-gray-100 p-2 z-20">
                                     {[
                                         { id: 'csv', label: 'Format CSV (.csv)', icon: 'CSV' },
                                         { id: 'xlsx', label: 'Format Excel (.xlsx)', icon: 'XLS' },
@@ -316,6 +430,73 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                             <span className="text-sm font-bold text-navy">{format.label}</span>
                                         </button>
                                     ))}
+                                    {dataset.split && (
+                                        <>
+                                            <div className="px-4 pt-3 pb-1 text-[10px] font-black text-gray-400 uppercase tracking-widest border-t border-gray-100 mt-2">
+                                                Ensembles du split
+                                            </div>
+                                            {dataset.split.parts.map((part) => (
+                                                <div key={part.name} className="flex items-center gap-2 px-4 py-2">
+                                                    <span className="flex-1 text-sm font-bold text-navy">
+                                                        {SPLIT_LABELS[part.name]} <span className="text-[11px] font-medium text-gray-400">{part.rows.toLocaleString('fr-FR')} l.</span>
+                                                    </span>
+                                                    {(['csv', 'xlsx'] as const).map((format) => (
+                                                        <button
+                                                            key={format}
+                                                            onClick={() => {
+                                                                onExport(format, part.name);
+                                                                setShowExportMenu(false);
+                                                            }}
+                                                            className="px-2 py-1 rounded-lg bg-gray-100 text-[10px] font-bold text-gray-500 uppercase hover:bg-primary hover:text-white transition-colors"
+                                                        >
+                                                            {format}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            ))}
+                                        </>
+                                    )}
+                                    {onExportCode && (
+                                        <>
+                                            <div className="px-4 pt-3 pb-1 text-[10px] font-black text-gray-400 uppercase tracking-widest border-t border-gray-100 mt-2">
+                                                Code du pipeline
+                                            </div>
+                                            {[
+                                                { id: 'py', label: 'Script Python (.py)', icon: 'PY' },
+                                                { id: 'ipynb', label: 'Notebook (.ipynb)', icon: 'NB' },
+                                            ].map((format) => (
+                                                <button
+                                                    key={format.id}
+                                                    onClick={() => {
+                                                        onExportCode(format.id as 'py' | 'ipynb');
+                                                        setShowExportMenu(false);
+                                                    }}
+                                                    className="w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-blue-50 transition-colors text-left group"
+                                                >
+                                                    <div className="w-8 h-8 rounded-lg bg-gray-100 flex items-center justify-center text-[10px] font-bold text-gray-500 group-hover:bg-primary group-hover:text-white transition-colors">
+                                                        {format.icon}
+                                                    </div>
+                                                    <span className="text-sm font-bold text-navy">{format.label}</span>
+                                                </button>
+                                            ))}
+                                        </>
+                                    )}
+                                    {onExportPipeline && (
+                                        <PremiumGuard feature="pipeline_export_pkl" compact fallbackMessage="Pipeline entraîné réservé aux membres">
+                                            <button
+                                                onClick={() => {
+                                                    onExportPipeline();
+                                                    setShowExportMenu(false);
+                                                }}
+                                                className="w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-blue-50 transition-colors text-left group"
+                                            >
+                                                <div className="w-8 h-8 rounded-lg bg-gray-100 flex items-center justify-center text-[10px] font-bold text-gray-500 group-hover:bg-primary group-hover:text-white transition-colors">
+                                                    PKL
+                                                </div>
+                                                <span className="text-sm font-bold text-navy">Pipeline entraîné (.pkl)</span>
+                                            </button>
+                                        </PremiumGuard>
+                                    )}
                                 </div>
                             </>
                         )}
@@ -337,6 +518,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                 <kpi.icon className="h-6 w-6" />
                             </div>
                             {kpi.delta && <span className="text-xs font-bold text-primary bg-primary-50 px-2 py-1 rounded-full">{kpi.delta}</span>}
+                            {kpi.progress !== undefined && (
+                                <ChartExportMenu
+                                    fileName={exportName('qualite')}
+                                    data={gaugeData ? [gaugeData] : null}
+                                    svg={() => typeof gaugeData?.value === 'number' ? gaugeSvg(gaugeData.value) : null}
+                                />
+                            )}
                         </div>
                         <div className="text-2xl font-black text-navy">{loadingStates.advanced && kpi.label.includes('Qualité') ? '...' : kpi.value}</div>
                         <div className="text-sm text-gray-500 font-bold uppercase tracking-tight opacity-70">{kpi.label}</div>
@@ -378,11 +566,66 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
             <div className="min-h-[400px]">
                 {activeTab === 'journal' && (
                     <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100/50">
-                        <h4 className="font-bold text-navy mb-4 flex items-center gap-2">
-                            <TrendingUp className="h-5 w-5 text-primary" />
-                            Journal des transformations
-                        </h4>
-                        {transformations.length === 0 ? (
+                        <div className="flex items-center justify-between mb-4">
+                            <h4 className="font-bold text-navy flex items-center gap-2">
+                                <TrendingUp className="h-5 w-5 text-primary" />
+                                Journal des transformations
+                            </h4>
+                            {versionControl && (
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={versionControl.onUndo}
+                                        disabled={!versionControl.canUndo}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border border-gray-200 text-navy hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                                    >
+                                        <Undo2 className="h-3.5 w-3.5" /> Annuler
+                                    </button>
+                                    <button
+                                        onClick={versionControl.onRedo}
+                                        disabled={!versionControl.canRedo}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border border-gray-200 text-navy hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                                    >
+                                        <Redo2 className="h-3.5 w-3.5" /> Rétablir
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        {versionControl && versionControl.versions.length > 1 ? (
+                            <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
+                                {versionControl.versions.map((journal, v) => {
+                                    const isCurrent = v === versionControl.index;
+                                    const isUndone = v > versionControl.index;
+                                    return (
+                                        <div key={v} className={`rounded-xl border p-4 transition-all ${isCurrent ? 'border-primary/40 bg-primary-50/30' : 'border-gray-100'} ${isUndone ? 'opacity-50' : ''}`}>
+                                            <div className="flex items-center justify-between mb-2">
+                                                <span className="text-[10px] font-black text-navy uppercase tracking-widest">
+                                                    {v === 0 ? 'Données initiales' : `Étape ${v}`}
+                                                    {isCurrent && <span className="ml-2 text-primary">• version active</span>}
+                                                    {isUndone && <span className="ml-2 text-gray-400">• annulée</span>}
+                                                </span>
+                                                {!isCurrent && versionControl.restorable[v] && (
+                                                    <button
+                                                        onClick={() => versionControl.onRollback(v)}
+                                                        className="flex items-center gap-1 text-[11px] font-bold text-primary hover:underline"
+                                                    >
+                                                        <RotateCcw className="h-3 w-3" /> Revenir à cette étape
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {journal.length === 0 ? (
+                                                <p className="text-xs text-gray-400 italic">Aucune transformation</p>
+                                            ) : (
+                                                <ul className="space-y-1.5">
+                                                    {journal.map((t, i) => (
+                                                        <li key={i} className={`text-sm font-semibold text-navy ${isUndone ? 'line-through' : ''}`}>› {t}</li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ) : transformations.length === 0 ? (
                             <div className="py-12 text-center text-gray-400">Aucune transformation enregistrée</div>
                         ) : (
                             <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
@@ -403,28 +646,33 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                             <Database className="h-5 w-5 text-primary" />
                             Aperçu des données finales
                         </h4>
-                        <div className="overflow-x-auto rounded-xl border border-gray-100 max-h-[500px]">
-                            <table className="w-full text-xs text-left">
-                                <thead className="bg-navy text-white sticky top-0">
-                                    <tr>
-                                        {dataset.headers.map((h) => (
-                                            <th key={h} className="p-3 font-bold whitespace-nowrap">{h}</th>
-                                        ))}
-                                    </tr>
-                                </thead>
-                                <tbody className="divide-y divide-gray-100">
-                                    {(dataset.data || []).slice(0, 100).map((row, i) => (
-                                        <tr key={i} className="hover:bg-blue-50/50 transition-colors">
-                                            {dataset.headers.map((h) => (
-                                                <td key={h} className="p-3 whitespace-nowrap text-navy border-r border-gray-50">{String(row[h] ?? '-')}</td>
-                                            ))}
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        </div>
+                        <DataGrid dataset={dataset} onColumnClick={setProfileColumn} />
                     </div>
                 )}
+
+                {activeTab === 'diff' && <DiffView baselines={diffBaselines} current={dataset} />}
+                <ColumnProfileDrawer
+                    column={dataset.columnInfo.find(c => c.name === profileColumn) ?? null}
+                    rows={dataset.data || []}
+                    headers={dataset.headers}
+                    datasetId={dataset.id}
+                    version={dataVersion}
+                    transformations={transformations}
+                    onClose={() => setProfileColumn(null)}
+                />
+                {focusPair && (
+                    <PairScatterModal
+                        pair={focusPair}
+                        points={datasetId ? scatterData[`${cacheKey}:${focusPair.x}:${focusPair.y}`] : null}
+                        coefficient={correlationBetween(correlation, focusPair)}
+                        method={correlationMethod}
+                        onClose={() => setFocusPair(null)}
+                        onPin={onChartSelectionChange && !scatterPairs.some(p => p.x === focusPair.x && p.y === focusPair.y) ? () => {
+                            updateCharts({ scatters: [...scatterPairs, focusPair] });
+                            setFocusPair(null);
+                        } : undefined}
+                    />
+                )}
                 {/* Sub-navigation for Visualization Sections */}
                 {activeTab === 'viz' && (
                     <div className="flex flex-wrap items-center gap-2 p-1 bg-gray-100/50 rounded-2xl w-fit mb-6">
@@ -435,6 +683,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                             { id: 'composition', label: 'Structure', icon: BarChart3 },
                             { id: 'impact', label: 'Impact', icon: ArrowDown },
                             { id: 'distribution', label: 'Distributions', icon: TrendingUp },
+                            ...(hasDatetime ? [{ id: 'time', label: 'Temporel', icon: CalendarClock }] : []),
                         ].map((filter) => (
                             <button
                                 key={filter.id}
@@ -461,10 +710,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                 </h4>
                                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                                     {/* Pie Chart */}
-                                    <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[400px] flex flex-col hover:shadow-md transition-shadow">
+                                    <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[400px] flex flex-col hover:shadow-md transition-shadow">
                                         <h5 className="font-bold text-navy mb-6 flex justify-between items-center">
                                             Répartition des types
-                                            <span className="text-[10px] bg-gray-100 px-2 py-1 rounded text-gray-400 font-normal italic">Volume par type</span>
+                                            <span className="flex items-center gap-2">
+                                                <span className="text-[10px] bg-gray-100 px-2 py-1 rounded text-gray-400 font-normal italic">Volume par type</span>
+                                                <ChartExportMenu fileName={exportName('types')} data={typeDistribution} />
+                                            </span>
                                         </h5>
                                         {loadingStates.basic ? (
                                             <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
@@ -497,10 +749,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                     </div>
 
                                     {/* Missing Values Bar Chart */}
-                                    <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[400px] flex flex-col hover:shadow-md transition-shadow">
+                                    <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[400px] flex flex-col hover:shadow-md transition-shadow">
                                         <h5 className="font-bold text-navy mb-6 flex justify-between items-center">
                                             Qualité des Données (Valeurs Manquantes)
-                                            <span className="text-[10px] bg-blue-50 px-2 py-1 rounded text-primary font-bold">Health Check</span>
+                                            <span className="flex items-center gap-2">
+                                                <span className="text-[10px] bg-blue-50 px-2 py-1 rounded text-primary font-bold">Health Check</span>
+                                                <ChartExportMenu fileName={exportName('valeurs_manquantes')} data={missingComparison} />
+                                            </span>
                                         </h5>
                                         {loadingStates.basic ? (
                                             <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
@@ -530,6 +785,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                         )}
                                     </div>
                                 </div>
+                                <MissingnessPanel dataset={dataset} version={dataVersion} />
                             </section>
                         )}
 
@@ -546,9 +802,12 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                     </h4>
                                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                                         {/* Correlation Bar Chart */}
-                                        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
-                                            <h5 className="font-bold text-navy mb-6">Top Corrélations Statistiques</h5>
-                                            {loadingStates.basic ? (
+                                        <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                            <h5 className="font-bold text-navy mb-6 flex justify-between items-center">
+                                                Top Corrélations Statistiques
+                                                <ChartExportMenu fileName={exportName('correlations', correlationMethod)} data={topCorrelations} />
+                                            </h5>
+                                            {correlationLoading ? (
                                                 <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
                                                     <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                                                 </div>
@@ -572,41 +831,106 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                             )}
                                         </div>
 
-                                        {/* Scatter Chart */}
-                                        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
-                                            <h5 className="font-bold text-navy mb-2">Nuage de Points (Relationship)</h5>
-                                            <p className="text-[11px] text-gray-400 mb-6 italic">Analyse automatique du couple de variables le plus influent</p>
-                                            {loadingStates.scatter ? (
-                                                <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
-                                                    <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                                                </div>
-                                            ) : scatterData ? (
-                                                <div className="flex-1 min-h-[300px]">
+                                        {/* Scatter Charts */}
+                                        {scatterPairs.length === 0 && (
+                                            <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                                <h5 className="font-bold text-navy mb-2">Nuage de Points (Relationship)</h5>
+                                                <p className="text-[11px] text-gray-400 mb-6 italic">Analyse automatique du couple de variables le plus influent</p>
+                                                {correlationLoading ? (
+                                                    <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
+                                                        <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                                                    </div>
+                                                ) : (
+                                                    <div className="flex-1 flex items-center justify-center text-gray-400 italic">Données de relation non disponibles</div>
+                                                )}
+                                            </div>
+                                        )}
+                                        {scatterPairs.map((pair, index) => {
+                                            const points = scatterData[`${cacheKey}:${pair.x}:${pair.y}`];
+                                            const setPair = (patch: Partial<typeof pair>) =>
+                                                updateCharts({ scatters: scatterPairs.map((p, i) => i === index ? { ...p, ...patch } : p) });
+                                            return (
+                                                <div key={index} data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                                    <h5 className="font-bold text-navy mb-2 flex justify-between items-center">
+                                                        Nuage de Points (Relationship)
+                                                        <span className="flex items-center gap-1">
+                                                            <ChartExportMenu
+                                                                fileName={exportName('nuage', pair.x, pair.y)}
+                                                                data={points?.map(p => ({ [pair.x]: p.x, [pair.y]: p.y }))}
+                                                            />
+                                                            {onChartSelectionChange && scatterPairs.length > 1 && (
+                                                                <button onClick={() => updateCharts({ scatters: scatterPairs.filter((_, i) => i !== index) })} className="p-1 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50" title="Retirer ce graphique">
+                                                                    <X className="h-4 w-4" />
+                                                                </button>
+                                                            )}
+                                                        </span>
+                                                    </h5>
+                                                    <p className="text-[11px] text-gray-400 mb-6 italic">
+                                                        {chartSelection?.scatters ? 'Couple de variables choisi' : 'Analyse automatique du couple de variables le plus influent'}
+                                                    </p>
                                                     <div className="flex items-center gap-2 mb-4 bg-gray-50 p-2 rounded-xl border border-gray-100">
                                                         <span className="px-2 py-0.5 bg-navy text-white text-[10px] font-bold rounded uppercase">X</span>
-                                                        <span className="text-xs font-bold text-navy">{scatterData.xName}</span>
+                                                        {onChartSelectionChange
+                                                            ? <ColumnPicker value={pair.x} columns={numericCols.map(c => c.name)} onChange={(x) => setPair({ x })} title="Variable en abscisse" />
+                                                            : <span className="text-xs font-bold text-navy">{pair.x}</span>}
                                                         <span className="text-gray-300">|</span>
                                                         <span className="px-2 py-0.5 bg-primary text-white text-[10px] font-bold rounded uppercase">Y</span>
-                                                        <span className="text-xs font-bold text-navy">{scatterData.yName}</span>
+                                                        {onChartSelectionChange
+                                                            ? <ColumnPicker value={pair.y} columns={numericCols.map(c => c.name)} onChange={(y) => setPair({ y })} title="Variable en ordonnée" />
+                                                            : <span className="text-xs font-bold text-navy">{pair.y}</span>}
                                                     </div>
-                                                    <ResponsiveContainer width="100%" height={280}>
-                                                        <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
-                                                            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
-                                                            <XAxis type="number" dataKey="x" name="X" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
-                                                            <YAxis type="number" dataKey="y" name="Y" stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
-                                                            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-                                                            <Scatter data={scatterData.data} fill="#3b82f6" fillOpacity={0.6} />
-                                                        </ScatterChart>
-                                                    </ResponsiveContainer>
+                                                    {points === undefined ? (
+                                                        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
+                                                            <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                                                        </div>
+                                                    ) : points && points.length > 0 ? (
+                                                        <div className="flex-1 min-h-[280px]">
+                                                            <ResponsiveContainer width="100%" height={280}>
+                                                                <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
+                                                                    <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+                                                                    <XAxis type="number" dataKey="x" name={pair.x} stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                                                                    <YAxis type="number" dataKey="y" name={pair.y} stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                                                                    <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                                                                    <Scatter data={points} fill="#3b82f6" fillOpacity={0.6} />
+                                                                </ScatterChart>
+                                                            </ResponsiveContainer>
+                                                        </div>
+                                                    ) : (
+                                                        <div className="flex-1 flex items-center justify-center text-gray-400 italic">Données de relation non disponibles</div>
+                                                    )}
                                                 </div>
-                                            ) : (
-                                                <div className="flex-1 flex items-center justify-center text-gray-400 italic">Données de relation non disponibles</div>
-                                            )}
-                                        </div>
+                                            );
+                                        })}
                                     </div>
+                                    {onChartSelectionChange && numericCols.length > 1 && (
+                                        <button onClick={addScatter} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-dashed border-gray-300 text-xs font-bold text-gray-500 hover:border-primary hover:text-primary transition-colors">
+                                            <Plus className="h-4 w-4" /> Ajouter un nuage de points
+                                        </button>
+                                    )}
+                                    <CorrelationHeatmap
+                                        correlation={correlationEntry}
+                                        method={correlationMethod}
+                                        onMethodChange={onChartSelectionChange ? setCorrelationMethod : undefined}
+                                        onCellClick={setFocusPair}
+                                    />
                                 </section>
                             </PremiumGuard>
                         )}
+                        {(vizFilter === 'all' || vizFilter === 'analytics') && (
+                            <PremiumGuard
+                                feature="scatter_matrix"
+                                blur={true}
+                                fallbackMessage={isAuthenticated ? "La matrice de nuages de points est réservée au mode Pro." : "Créez un compte pour accéder à la matrice de nuages de points."}
+                            >
+                                <ScatterMatrix
+                                    datasetId={datasetId}
+                                    version={dataVersion}
+                                    columns={numericCols.map(c => c.name)}
+                                    selected={matrixColumns}
+                                    onSelectedChange={onChartSelectionChange ? (matrix) => updateCharts({ matrix }) : undefined}
+                                />
+                            </PremiumGuard>
+                        )}
 
                         {/* Section 3: Structure & Comportement */}
                         {(vizFilter === 'all' || vizFilter === 'composition') && (
@@ -621,23 +945,31 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                     </h4>
                                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                                         {/* Funnel */}
-                                        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
-                                            <h5 className="font-bold text-navy mb-6">Entonnoir Categoriel (Funnel)</h5>
-                                            {loadingStates.advanced ? (
+                                        <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                            <h5 className="font-bold text-navy mb-6 flex justify-between items-center gap-3">
+                                                Entonnoir Categoriel (Funnel)
+                                                <span className="flex items-center gap-2">
+                                                    {onChartSelectionChange && funnelColumn && (
+                                                        <ColumnPicker value={funnelColumn} columns={catCols.map(c => c.name)} onChange={(funnel) => updateCharts({ funnel })} />
+                                                    )}
+                                                    <ChartExportMenu fileName={exportName('funnel', funnelColumn ?? '')} data={funnel} />
+                                                </span>
+                                            </h5>
+                                            {funnel === undefined ? (
                                                 <div className="flex-1 flex items-center justify-center text-gray-400">
                                                     <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                                                 </div>
-                                            ) : funnelData.length > 0 ? (
+                                            ) : funnel && funnel.length > 0 ? (
                                                 <div className="flex-1 min-h-[350px]">
                                                     <ResponsiveContainer width="100%" height={350}>
                                                         <FunnelChart>
                                                             <Tooltip />
                                                             <Funnel
                                                                 dataKey="value"
-                                                                data={funnelData}
+                                                                data={funnel}
                                                                 isAnimationActive
                                                             >
-                                                                {funnelData.map((_, index) => (
+                                                                {funnel.map((_, index) => (
                                                                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} fillOpacity={0.8} />
                                                                 ))}
                                                                 <LabelList position="right" fill="#1e3a8a" stroke="none" dataKey="name" style={{ fontSize: '10px', fontWeight: 'bold' }} />
@@ -651,18 +983,26 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                         </div>
 
                                         {/* Treemap */}
-                                        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
-                                            <h5 className="font-bold text-navy mb-2">Répartition Hiérarchique (Treemap)</h5>
-                                            <p className="text-[11px] text-gray-400 mb-6 italic">{treemapData?.name ? `Colonnes: ${treemapData.name}` : 'Aperçu des densités par catégorie'}</p>
-                                            {loadingStates.categorical ? (
+                                        <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                            <h5 className="font-bold text-navy mb-2 flex justify-between items-center gap-3">
+                                                Répartition Hiérarchique (Treemap)
+                                                <span className="flex items-center gap-2">
+                                                    {onChartSelectionChange && treemapColumn && (
+                                                        <ColumnPicker value={treemapColumn} columns={catCols.map(c => c.name)} onChange={(treemap) => updateCharts({ treemap })} />
+                                                    )}
+                                                    <ChartExportMenu fileName={exportName('treemap', treemapColumn ?? '')} data={treemap} />
+                                                </span>
+                                            </h5>
+                                            <p className="text-[11px] text-gray-400 mb-6 italic">{treemapColumn ? `Colonnes: ${treemapColumn}` : 'Aperçu des densités par catégorie'}</p>
+                                            {treemap === undefined ? (
                                                 <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
                                                     <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                                                 </div>
-                                            ) : treemapData && treemapData.children?.length > 0 ? (
+                                            ) : treemap && treemap.length > 0 ? (
                                                 <div className="flex-1 min-h-[350px]">
                                                     <ResponsiveContainer width="100%" height={350}>
                                                         <Treemap
-                                                            data={treemapData.children}
+                                                            data={treemap}
                                                             dataKey="size"
                                                             stroke="#fff"
                                                             fill="#3c5fa0"
@@ -692,8 +1032,11 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                     <h4 className="flex items-center gap-2 text-lg font-bold text-navy px-2">
                                         <ArrowDown className="h-5 w-5 text-primary" /> Impact du Nettoyage (Variance)
                                     </h4>
-                                    <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
-                                        <h5 className="font-bold text-navy mb-8">Analyse en Cascade (Waterfall)</h5>
+                                    <div data-chart-card className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 min-h-[450px] flex flex-col hover:shadow-md transition-shadow">
+                                        <h5 className="font-bold text-navy mb-8 flex justify-between items-center">
+                                            Analyse en Cascade (Waterfall)
+                                            <ChartExportMenu fileName={exportName('waterfall')} data={waterfallData} />
+                                        </h5>
                                         {loadingStates.advanced ? (
                                             <div className="flex-1 flex items-center justify-center text-gray-400">
                                                 <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
@@ -735,41 +1078,97 @@ const DashboardView: React.FC<DashboardViewProps> = ({ dataset, originalData, in
                                         <BarChart3 className="h-5 w-5 text-primary" /> Distributions & Densités Numériques
                                     </h4>
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                                        {loadingStates.numeric ? (
-                                            <div className="bg-white rounded-3xl shadow-sm p-12 border border-gray-100/50 flex flex-col items-center justify-center gap-4 text-gray-400 col-span-full">
-                                                <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-                                                <span className="font-bold text-sm">Calcul des densités statistiques...</span>
-                                            </div>
-                                        ) : distributions.length > 0 ? (
-                                            distributions.map((dist: any) => dist && (
-                                                <div key={dist.name} className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100/50 min-h-[300px] flex flex-col hover:border-primary transition-colors group">
-                                                    <h5 className="font-bold text-navy text-sm mb-4 border-b pb-2 group-hover:text-primary transition-colors">{dist.name}</h5>
-                                                    <div className="flex-1 min-h-[150px]">
-                                                        <ResponsiveContainer width="100%" height={150}>
-                                                            <AreaChart data={dist.bins}>
-                                                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f8fafc" />
-                                                                <XAxis dataKey="range" fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                                                                <YAxis hide />
-                                                                <Tooltip cursor={{ stroke: '#3b82f6', strokeWidth: 2 }} />
-                                                                <Area type="monotone" dataKey="count" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.1} strokeWidth={2} />
-                                                            </AreaChart>
-                                                        </ResponsiveContainer>
-                                                    </div>
-                                                    <div className="mt-4 pt-4 border-t border-gray-50 grid grid-cols-2 gap-2">
-                                                        <div className="text-[10px] text-gray-400">Moyenne: <span className="text-navy font-bold">{dist.stats?.mean?.toFixed(2)}</span></div>
-                                                        <div className="text-[10px] text-gray-400">Médiane: <span className="text-navy font-bold">{dist.stats?.median?.toFixed(2)}</span></div>
+                                        {distributionColumns.length > 0 ? (
+                                            distributionColumns.map((column, index) => {
+                                                const dist = distributionData[`${cacheKey}:${column}`];
+                                                return (
+                                                    <div key={index} data-chart-card className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100/50 min-h-[300px] flex flex-col hover:border-primary transition-colors group">
+                                                        <div className="flex items-center justify-between gap-2 mb-4 border-b pb-2">
+                                                            {onChartSelectionChange ? (
+                                                                <ColumnPicker
+                                                                    value={column}
+                                                                    columns={numericCols.map(c => c.name)}
+                                                                    onChange={(next) => updateCharts({ distributions: distributionColumns.map((c, i) => i === index ? next : c) })}
+                                                                />
+                                                            ) : (
+                                                                <h5 className="font-bold text-navy text-sm group-hover:text-primary transition-colors">{column}</h5>
+                                                            )}
+                                                            <span className="flex items-center gap-1">
+                                                                <ChartExportMenu fileName={exportName('distribution', column)} data={dist?.bins} />
+                                                                {onChartSelectionChange && (
+                                                                    <button onClick={() => updateCharts({ distributions: distributionColumns.filter((_, i) => i !== index) })} className="p-1 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50" title="Retirer ce graphique">
+                                                                        <X className="h-3.5 w-3.5" />
+                                                                    </button>
+                                                                )}
+                                                            </span>
+                                                        </div>
+                                                        {dist === undefined ? (
+                                                            <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-400">
+                                                                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                                                                <span className="font-bold text-xs">Calcul de la densité...</span>
+                                                            </div>
+                                                        ) : dist ? (
+                                                            <>
+                                                                <div className="flex-1 min-h-[150px]">
+                                                                    <ResponsiveContainer width="100%" height={150}>
+                                                                        <AreaChart data={dist.bins}>
+                                                                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f8fafc" />
+                                                                            <XAxis dataKey="range" fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                                                                            <YAxis hide />
+                                                                            <Tooltip cursor={{ stroke: '#3b82f6', strokeWidth: 2 }} />
+                                                                            <Area type="monotone" dataKey="count" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.1} strokeWidth={2} />
+                                                                        </AreaChart>
+                                                                    </ResponsiveContainer>
+                                                                </div>
+                                                                <div className="mt-4 pt-4 border-t border-gray-50 grid grid-cols-2 gap-2">
+                                                                    <div className="text-[10px] text-gray-400">Moyenne: <span className="text-navy font-bold">{dist.stats?.mean?.toFixed(2)}</span></div>
+                                                                    <div className="text-[10px] text-gray-400">Médiane: <span className="text-navy font-bold">{dist.stats?.median?.toFixed(2)}</span></div>
+                                                                </div>
+                                                            </>
+                                                        ) : (
+                                                            <div className="flex-1 flex flex-col items-center justify-center gap-1 text-xs text-gray-400 italic">
+                                                                Distribution indisponible
+                                                                <button onClick={() => retryDistribution(`${cacheKey}:${column}`)} className="not-italic font-bold text-primary hover:underline">Réessayer</button>
+                                                            </div>
+                                                        )}
                                                     </div>
-                                                </div>
-                                            ))
+                                                );
+                                            })
                                         ) : (
                                             <div className="lg:col-span-4 bg-gray-50 border border-dashed border-gray-200 rounded-3xl p-12 text-center text-gray-400 italic">
-                                                Aucune variable numérique détectée pour l'analyse de distribution
+                                                {numericCols.length > 0 ? 'Aucune distribution sélectionnée' : "Aucune variable numérique détectée pour l'analyse de distribution"}
                                             </div>
                                         )}
                                     </div>
+                                    {onChartSelectionChange && numericCols.length > 0 && (
+                                        <button
+                                            onClick={() => {
+                                                const column = nextNumeric(distributionColumns);
+                                                if (column) updateCharts({ distributions: [...distributionColumns, column] });
+                                            }}
+                                            className="flex items-center gap-2 px-4 py-2 rounded-xl border border-dashed border-gray-300 text-xs font-bold text-gray-500 hover:border-primary hover:text-primary transition-colors"
+                                        >
+                                            <Plus className="h-4 w-4" /> Ajouter une distribution
+                                        </button>
+                                    )}
                                 </section>
                             </PremiumGuard>
                         )}
+
+                        {/* Section 6: Séries temporelles */}
+                        {hasDatetime && (vizFilter === 'all' || vizFilter === 'time') && (
+                            <section className="space-y-4">
+                                <h4 className="flex items-center gap-2 text-lg font-bold text-navy px-2">
+                                    <CalendarClock className="h-5 w-5 text-primary" /> Évolution dans le temps
+                                </h4>
+                                <TimeSeriesPanel
+                                    dataset={dataset}
+                                    version={dataVersion}
+                                    selection={chartSelection?.time}
+                                    onSelectionChange={onChartSelectionChange ? (time) => onChartSelectionChange({ ...chartSelection, time }) : undefined}
+                                />
+                            </section>
+                        )}
                     </div>
                 )}
             </div>
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Database, Loader2, Server } from 'lucide-react';
+import { datasetsApi } from '../../services/api';
+import { usePagedRows, type RowFetcher } from '../../hooks/usePagedRows';
+import { isMissingValue, queryRows, type DatasetInfo, type RowQuery, type SortOrder } from '../../utils/dataProcessor';
+
+interface DataGridProps {
+    dataset: DatasetInfo;
+    // Clic sur le nom d'une colonne : ouverture de son profil
+    onColumnClick?: (column: string) => void;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 68;
+const VIEWPORT_HEIGHT = 500;
+const INDEX_WIDTH = 72;
+const DEFAULT_WIDTH = 160;
+const MIN_WIDTH = 60;
+const OVERSCAN = 6;
+// Hauteur de défilement plafonnée (limite des navigateurs ~16M px) : au-delà, la position est mise à l'échelle
+const MAX_SCROLL_HEIGHT = 8_000_000;
+const FILTER_DEBOUNCE_MS = 300;
+
+/**
+ * Grille virtualisée de l'aperçu : seules les lignes visibles sont rendues et
+ * chargées par pages depuis le serveur (tri et filtres inclus). Sans identifiant
+ * serveur, la même requête est évaluée sur les lignes locales.
+ */
+export const DataGrid: React.FC<DataGridProps> = ({ dataset, onColumnClick }) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const drag = useRef<{ column: string; startX: number; startWidth: number } | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [widths, setWidths] = useState<Record<string, number>>({});
+    const [sort, setSort] = useState<{ column: string; order: SortOrder } | null>(null);
+    const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+    const [filters, setFilters] = useState<Record<string, string>>({});
+
+    // Nouvelle source à chaque version du dataset : le cache de pages repart de zéro
+    const fetcher = useMemo<RowFetcher>(() => {
+        const id = dataset.id;
+        if (id) return async (offset, limit, query, signal) => (await datasetsApi.getRows(id, offset, limit, query, { signal })).data;
+        const rows = dataset.data || [];
+        return async (offset, limit, query) => queryRows(rows, offset, limit, query);
+    }, [dataset]);
+    const query = useMemo<RowQuery>(() => ({ sort: sort?.column, order: sort?.order, filters }), [sort, filters]);
+    const { total, error, getRow, ensureRange, retry } = usePagedRows(fetcher, query);
+
+    const resetScroll = () => {
+        scrollRef.current?.scrollTo({ top: 0 });
+        setScrollTop(0);
+    };
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setFilters(prev => JSON.stringify(prev) === JSON.stringify(filterInputs) ? prev : filterInputs);
+        }, FILTER_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [filterInputs]);
+
+    // Position virtuelle : ligne fractionnaire en haut de la zone visible
+    const rowCount = total ?? 0;
+    const bodyHeight = Math.min(rowCount * ROW_HEIGHT, MAX_SCROLL_HEIGHT);
+    const visibleRows = (VIEWPORT_HEIGHT - HEADER_HEIGHT) / ROW_HEIGHT;
+    const maxScroll = Math.max(0, bodyHeight - (VIEWPORT_HEIGHT - HEADER_HEIGHT));
+    const clampedTop = Math.min(scrollTop, maxScroll);
+    const start = maxScroll > 0 ? (clampedTop / maxScroll) * Math.max(0, rowCount - visibleRows) : 0;
+    const first = Math.max(0, Math.floor(start) - OVERSCAN);
+    const last = Math.min(rowCount - 1, Math.floor(start + visibleRows) + OVERSCAN);
+    const blockTop = clampedTop - (start - first) * ROW_HEIGHT;
+
+    useEffect(() => {
+        // Première page demandée avant de connaître le total
+        ensureRange(first, total === null ? 0 : last);
+    }, [first, last, total, ensureRange]);
+
+    const columnWidth = (column: string) => widths[column] ?? DEFAULT_WIDTH;
+    const totalWidth = INDEX_WIDTH + dataset.headers.reduce((acc, h) => acc + columnWidth(h), 0);
+    const isFiltered = Object.values(filters).some(f => f.trim());
+
+    const toggleSort = (column: string) => {
+        setSort(prev => prev?.column !== column ? { column, order: 'asc' } : prev.order === 'asc' ? { column, order: 'desc' } : null);
+        resetScroll();
+    };
+
+    const startResize = (e: React.PointerEvent<HTMLDivElement>, column: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drag.current = { column, startX: e.clientX, startWidth: columnWidth(column) };
+    };
+
+    const resize = (e: React.PointerEvent<HTMLDivElement>) => {
+        const d = drag.current;
+        if (!d) return;
+        setWidths(prev => ({ ...prev, [d.column]: Math.max(MIN_WIDTH, d.startWidth + e.clientX - d.startX) }));
+    };
+
+    const nullShare = (column: string) => dataset.columnInfo.find(c => c.name === column)?.nullPercentage ?? 0;
+
+    const rows: React.ReactNode[] = [];
+    for (let index = first; index <= last; index++) {
+        const row = getRow(index);
+        rows.push(
+            <div key={index} className="flex border-b border-gray-50 hover:bg-blue-50/50 transition-colors" style={{ height: ROW_HEIGHT }}>
+                <div className="sticky left-0 bg-gray-50 text-gray-400 font-mono text-[10px] flex items-center justify-end pr-3 shrink-0 border-r border-gray-100" style={{ width: INDEX_WIDTH }}>
+                    {(index + 1).toLocaleString('fr-FR')}
+                </div>
+                {dataset.headers.map(h => {
+                    const value = row?.[h];
+                    const missing = row && isMissingValue(value);
+                    return (
+                        <div
+                            key={h}
+                            className={`px-3 flex items-center shrink-0 border-r border-gray-50 truncate ${missing ? 'bg-red-50 text-red-400 italic' : 'text-navy'}`}
+                            style={{ width: columnWidth(h) }}
+                            title={row && !missing ? String(value) : undefined}
+                        >
+                            {!row
+                                ? <span className="h-2.5 w-2/3 bg-gray-100 rounded animate-pulse" />
+                                : missing ? 'null' : <span className="truncate">{String(value)}</span>}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div
+                ref={scrollRef}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                className="overflow-auto rounded-xl border border-gray-100 text-xs"
+                style={{ height: VIEWPORT_HEIGHT }}
+            >
+                <div className="relative" style={{ width: totalWidth, height: HEADER_HEIGHT + bodyHeight }}>
+                    <div className="sticky top-0 z-20 bg-navy text-white" style={{ height: HEADER_HEIGHT }}>
+                        <div className="flex">
+                            <div className="sticky left-0 z-10 bg-navy shrink-0" style={{ width: INDEX_WIDTH }} />
+                            {dataset.headers.map(h => (
+                                <div key={h} className="relative shrink-0 px-3 pt-2" style={{ width: columnWidth(h) }}>
+                                    <div className="flex items-center gap-1.5">
+                                        <button
+                                            onClick={() => onColumnClick?.(h)}
+                                            className={`truncate font-bold text-left ${onColumnClick ? 'hover:underline' : 'cursor-default'}`}
+                                            title={onColumnClick ? 'Voir le profil de la colonne' : h}
+                                        >
+                                            {h}
+                                        </button>
+                                        <button onClick={() => toggleSort(h)} className="shrink-0" title="Trier">
+                                            {sort?.column === h
+                                                ? sort.order === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                                                : <ArrowUpDown className="h-3 w-3 opacity-40" />}
+                                        </button>
+                                    </div>
+                                    <div className={`text-[9px] font-semibold ${nullShare(h) > 0 ? 'text-red-200' : 'text-white/40'}`}>
+                                        {nullShare(h) > 0 ? `${nullShare(h).toFixed(1)} % nuls` : 'aucun nul'}
+                                    </div>
+                                    <div
+                                        onPointerDown={(e) => startResize(e, h)}
+                                        onPointerMove={resize}
+                                        onPointerUp={() => { drag.current = null; }}
+                                        className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-white/30"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex pt-1">
+                            <div className="sticky left-0 z-10 bg-navy shrink-0" style={{ width: INDEX_WIDTH }} />
+                            {dataset.headers.map(h => (
+                                <div key={h} className="shrink-0 px-2" style={{ width: columnWidth(h) }}>
+                                    <input
+                                        value={filterInputs[h] ?? ''}
+                                        onChange={(e) => { setFilterInputs(prev => ({ ...prev, [h]: e.target.value })); resetScroll(); }}
+                                        placeholder="Filtrer…"
+                                        title="Texte contenu, ou >10, <=3, =valeur, !=valeur, null, !null"
+                                        className="w-full bg-white/10 border border-white/20 rounded-md px-2 py-0.5 text-[11px] text-white placeholder-white/40 outline-none focus:bg-white/20"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="absolute left-0" style={{ top: HEADER_HEIGHT + blockTop, width: totalWidth }}>
+                        {rows}
+                    </div>
+                    {total === 0 && (
+                        <p className="absolute left-0 right-0 text-center text-sm text-gray-400 italic" style={{ top: HEADER_HEIGHT + 24 }}>
+                            {isFiltered ? 'Aucune ligne ne correspond aux filtres.' : 'Dataset vide.'}
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-[11px] text-gray-500">
+                <span className="flex items-center gap-1.5">
+                    {dataset.id ? <Server className="h-3.5 w-3.5" /> : <Database className="h-3.5 w-3.5" />}
+                    {total === null
+                        ? <><Loader2 className="h-3.5 w-3.5 animate-spin" /> Chargement…</>
+                        : <>
+                            <strong className="text-navy">{total.toLocaleString('fr-FR')}</strong> lignes
+                            {isFiltered && <> (filtrées sur {dataset.rows.toLocaleString('fr-FR')})</>}
+                            {total > 0 && <> · affichage {(Math.floor(start) + 1).toLocaleString('fr-FR')}–{Math.min(total, Math.ceil(start + visibleRows)).toLocaleString('fr-FR')}</>}
+                        </>}
+                </span>
+                {error && (
+                    <span className="text-red-500 font-semibold">
+                        Chargement des lignes impossible. <button onClick={retry} className="underline">Réessayer</button>
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DataGrid;
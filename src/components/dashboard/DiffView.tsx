@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+    CELL_CHANGE_LABELS, diffColumns, diffRows, distributionOverlay,
+    type CellChangeReason, type ColumnDiff, type DatasetInfo, type DiffSource
+} from '../../utils/dataProcessor';
+
+export type DiffBaseline = { label: string; source: DiffSource };
+
+interface DiffViewProps {
+    // Versions antérieures comparables, de la plus ancienne à la plus récente
+    baselines: DiffBaseline[];
+    current: DatasetInfo;
+}
+
+const STATUS_STYLES: Record<ColumnDiff['status'], { label: string; className: string }> = {
+    added: { label: 'Ajoutée', className: 'bg-green-50 text-green-700' },
+    removed: { label: 'Supprimée', className: 'bg-red-50 text-red-600' },
+    changed: { label: 'Modifiée', className: 'bg-amber-50 text-amber-700' },
+    unchanged: { label: 'Inchangée', className: 'bg-gray-50 text-gray-400' },
+};
+
+const REASON_STYLES: Record<CellChangeReason, string> = {
+    imputed: 'bg-green-50 text-green-700 border-green-100',
+    nulled: 'bg-red-50 text-red-600 border-red-100',
+    cast: 'bg-gray-50 text-gray-600 border-gray-200',
+    capped: 'bg-amber-50 text-amber-700 border-amber-100',
+    rescaled: 'bg-blue-50 text-blue-700 border-blue-100',
+    encoded: 'bg-purple-50 text-purple-700 border-purple-100',
+    cleaned: 'bg-cyan-50 text-cyan-700 border-cyan-100',
+    modified: 'bg-orange-50 text-orange-700 border-orange-100',
+};
+
+const formatStat = (n: number | null | undefined) => n === null || n === undefined ? '—' : Number(n.toPrecision(4)).toLocaleString('fr-FR');
+
+const formatCell = (v: unknown) => v === null || v === undefined || v === '' ? 'null' : String(v);
+
+// Valeur avant → après, mise en évidence si elle a changé
+const Delta: React.FC<{ before?: string; after?: string }> = ({ before, after }) => {
+    if (before === undefined) return <span className="text-green-700 font-semibold">{after}</span>;
+    if (after === undefined) return <span className="text-red-500 line-through">{before}</span>;
+    if (before === after) return <span className="text-gray-500">{after}</span>;
+    return (
+        <span className="inline-flex items-center gap-1 font-semibold">
+            <span className="text-gray-400">{before}</span>
+            <ArrowRight className="h-3 w-3 text-gray-300" />
+            <span className="text-navy">{after}</span>
+        </span>
+    );
+};
+
+export const DiffView: React.FC<DiffViewProps> = ({ baselines, current }) => {
+    const [baselineIndex, setBaselineIndex] = useState(baselines.length - 1);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [onlyChanged, setOnlyChanged] = useState(true);
+    const baseline = baselines[Math.min(baselineIndex, baselines.length - 1)];
+
+    const after = useMemo<DiffSource>(() => ({ columnInfo: current.columnInfo, data: current.data || [] }), [current]);
+    // Les sources sont stables d'un rendu à l'autre : seuls les libellés sont recalculés
+    const before = baseline?.source;
+    const columns = useMemo(() => before ? diffColumns(before, after) : [], [before, after]);
+    const rowDiff = useMemo(() => before ? diffRows(before, after) : null, [before, after]);
+
+    if (!before || !rowDiff) {
+        return <p className="text-sm text-gray-400 italic">Aucune version antérieure à comparer.</p>;
+    }
+
+    const counts = {
+        added: columns.filter(c => c.status === 'added').length,
+        removed: columns.filter(c => c.status === 'removed').length,
+        changed: columns.filter(c => c.status === 'changed').length,
+    };
+    const visible = onlyChanged ? columns.filter(c => c.status !== 'unchanged') : columns;
+    const changedColumns = [...new Set(rowDiff.rows.flatMap(r => Object.keys(r.changes)))];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100/50">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                            <GitCompare className="h-5 w-5" />
+                        </div>
+                        <div>
+                            <h4 className="text-xl font-bold text-navy">Avant / après</h4>
+                            <p className="text-xs text-gray-500">
+                                {before.data.length.toLocaleString('fr-FR')} → {(current.data || []).length.toLocaleString('fr-FR')} lignes échantillonnées ·{' '}
+                                <span className="text-green-700 font-semibold">+{counts.added}</span> /{' '}
+                                <span className="text-red-500 font-semibold">−{counts.removed}</span> colonnes ·{' '}
+                                <span className="text-amber-700 font-semibold">{counts.changed}</span> modifiées
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 cursor-pointer">
+                            <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} className="accent-primary" />
+                            Colonnes modifiées uniquement
+                        </label>
+                        <select
+                            value={Math.min(baselineIndex, baselines.length - 1)}
+                            onChange={(e) => { setBaselineIndex(Number(e.target.value)); setExpanded(null); }}
+                            className="bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer max-w-xs"
+                        >
+                            {baselines.map((b, i) => <option key={i} value={i}>Comparer à : {b.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto rounded-xl border border-gray-100">
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-gray-50 text-gray-500 uppercase tracking-wider text-[10px]">
+                            <tr>
+                                <th className="p-3">Colonne</th>
+                                <th className="p-3">Statut</th>
+                                <th className="p-3">Type</th>
+                                <th className="p-3">Nuls</th>
+                                <th className="p-3">Uniques</th>
+                                <th className="p-3">Moyenne</th>
+                                <th className="p-3">Écart-type</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {visible.length === 0 && (
+                                <tr><td colSpan={7} className="p-4 text-center text-gray-400 italic">Aucune colonne modifiée.</td></tr>
+                            )}
+                            {visible.map(diff => {
+                                const isOpen = expanded === diff.column;
+                                const canExpand = diff.status !== 'removed' && diff.status !== 'added';
+                                return (
+                                    <React.Fragment key={diff.column}>
+                                        <tr
+                                            onClick={() => canExpand && setExpanded(isOpen ? null : diff.column)}
+                                            className={`${canExpand ? 'cursor-pointer hover:bg-blue-50/50' : ''} ${diff.status === 'added' ? 'bg-green-50/40' : diff.status === 'removed' ? 'bg-red-50/40' : ''}`}
+                                        >
+                                            <td className="p-3 font-bold text-navy">
+                                                <span className="inline-flex items-center gap-1">
+                                                    {canExpand && (isOpen ? <ChevronDown className="h-3.5 w-3.5 text-gray-400" /> : <ChevronRight className="h-3.5 w-3.5 text-gray-400" />)}
+                                                    <span className={diff.status === 'removed' ? 'line-through text-red-500' : ''}>{diff.column}</span>
+                                                </span>
+                                            </td>
+                                            <td className="p-3">
+                                                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_STYLES[diff.status].className}`}>{STATUS_STYLES[diff.status].label}</span>
+                                            </td>
+                                            <td className="p-3"><Delta before={diff.before?.type} after={diff.after?.type} /></td>
+                                            <td className="p-3"><Delta before={diff.before && String(diff.before.nullCount)} after={diff.after && String(diff.after.nullCount)} /></td>
+                                            <td className="p-3"><Delta before={diff.before && String(diff.before.uniqueCount)} after={diff.after && String(diff.after.uniqueCount)} /></td>
+                                            <td className="p-3"><Delta before={diff.before && formatStat(diff.before.mean)} after={diff.after && formatStat(diff.after.mean)} /></td>
+                                            <td className="p-3"><Delta before={diff.before && formatStat(diff.before.std)} after={diff.after && formatStat(diff.after.std)} /></td>
+                                        </tr>
+                                        {isOpen && (
+                                            <tr>
+                                                <td colSpan={7} className="p-4 bg-gray-50/50">
+                                                    <div className="h-48">
+                                                        <ResponsiveContainer width="100%" height="100%">
+                                                            <BarChart data={distributionOverlay(before.data, after.data, diff.column)} barGap={0}>
+                                                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                                                <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                                                                <YAxis tick={{ fontSize: 10 }} unit=" %" />
+                                                                <Tooltip formatter={(v) => `${v} %`} />
+                                                                <Legend wrapperStyle={{ fontSize: 11 }} />
+                                                                <Bar dataKey="before" name="Avant" fill="#cbd5e1" radius={[3, 3, 0, 0]} />
+                                                                <Bar dataKey="after" name="Après" fill="#3c5fa0" radius={[3, 3, 0, 0]} />
+                                                            </BarChart>
+                                                        </ResponsiveContainer>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm p-6 border border-gray-100/50">
+                <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                    <div>
+                        <h4 className="font-bold text-navy">Lignes modifiées (échantillon)</h4>
+                        <p className="text-xs text-gray-500">
+                            {rowDiff.key
+                                ? `Lignes appariées par « ${rowDiff.key} ».`
+                                : rowDiff.approximate
+                                    ? 'Lignes ajoutées ou supprimées sans identifiant commun : appariement par position, approximatif.'
+                                    : 'Lignes appariées par position.'}
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {(Object.entries(rowDiff.reasons) as [CellChangeReason, number][]).map(([reason, count]) => (
+                            <span key={reason} className={`px-2 py-0.5 rounded-full border text-[10px] font-bold ${REASON_STYLES[reason]}`}>
+                                {CELL_CHANGE_LABELS[reason]} · {count}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                {rowDiff.rows.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">Aucune cellule modifiée sur l'échantillon.</p>
+                ) : (
+                    <div className="overflow-auto rounded-xl border border-gray-100 max-h-[420px]">
+                        <table className="w-full text-xs text-left">
+                            <thead className="bg-navy text-white sticky top-0">
+                                <tr>
+                                    <th className="p-3 font-bold whitespace-nowrap">Ligne</th>
+                                    {changedColumns.map(col => <th key={col} className="p-3 font-bold whitespace-nowrap">{col}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {rowDiff.rows.map(row => (
+                                    <tr key={row.label} className={row.status === 'removed' ? 'bg-red-50/60' : ''}>
+                                        <td className="p-3 font-mono text-gray-500 whitespace-nowrap">{row.label}</td>
+                                        {row.status === 'removed' ? (
+                                            <td colSpan={Math.max(1, changedColumns.length)} className="p-3 text-red-500 font-semibold italic">Ligne supprimée</td>
+                                        ) : changedColumns.map(col => {
+                                            const reason = row.changes[col];
+                                            return (
+                                                <td key={col} className={`p-3 whitespace-nowrap border-r border-gray-50 ${reason ? REASON_STYLES[reason] : ''}`} title={reason ? CELL_CHANGE_LABELS[reason] : undefined}>
+                                                    {reason
+                                                        ? <Delta before={formatCell(row.before[col])} after={formatCell(row.after?.[col])} />
+                                                        : <span className="text-gray-400">{formatCell(row.after?.[col])}</span>}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DiffView;
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { Rows3, ShieldQuestion } from 'lucide-react';
+import { datasetsApi } from '../../services/api';
+import { useKeyedData, type KeyedRequest } from '../../hooks/useKeyedData';
+import {
+    missingnessMatrix, normalizeMissingAnalysis, nullityCorrelation,
+    type DatasetInfo, type MissingColumnAnalysis, type MissingMechanism
+} from '../../utils/dataProcessor';
+import CorrelationHeatmap from './CorrelationHeatmap';
+
+interface MissingnessPanelProps {
+    dataset: DatasetInfo;
+    // Version affichée du dataset : l'analyse serveur est refaite à chaque version
+    version?: number | null;
+}
+
+// Lignes de l'échantillon représentées dans la matrice
+const MATRIX_ROWS = 200;
+
+const MECHANISM_HINTS: Record<MissingMechanism, string> = {
+    MCAR: "Manquant complètement au hasard : une imputation simple (moyenne, médiane, mode) n'introduit pas de biais.",
+    MAR: "Dépend d'autres colonnes observées : préférez une imputation KNN ou itérative, qui s'appuie sur ces colonnes.",
+    MNAR: "Dépend de la valeur manquante elle-même : imputez et ajoutez un indicateur de manquant pour garder l'information.",
+};
+
+/**
+ * Motifs des valeurs manquantes : matrice lignes × colonnes sur l'échantillon,
+ * corrélation de nullité entre colonnes et mécanisme (MCAR / MAR / MNAR)
+ * estimé par le serveur, pour choisir les stratégies d'imputation.
+ */
+export const MissingnessPanel: React.FC<MissingnessPanelProps> = ({ dataset, version }) => {
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const columns = useMemo(() => dataset.columnInfo.filter(c => c.nullCount > 0).map(c => c.name), [dataset]);
+    const matrix = useMemo(() => missingnessMatrix(rows, columns, MATRIX_ROWS), [rows, columns]);
+    const nullity = useMemo(() => nullityCorrelation(rows, columns), [rows, columns]);
+
+    const datasetId = dataset.id;
+    const key = `${datasetId}@${version ?? 0}:missing`;
+    const requests = useMemo<KeyedRequest<MissingColumnAnalysis[]>[]>(() => datasetId
+        ? [{ key, load: async () => normalizeMissingAnalysis((await datasetsApi.analyzeMissing(datasetId)).data) }]
+        : [], [datasetId, key]);
+    const { data, retry } = useKeyedData(requests);
+    const analysis = data[key];
+
+    if (columns.length === 0) return null;
+
+    const sampleShare = (column: number) => matrix.rows.length
+        ? matrix.mask.reduce((acc, row) => acc + (row[column] ? 1 : 0), 0) / matrix.rows.length * 100
+        : 0;
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Matrice des manquants */}
+                <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 flex flex-col hover:shadow-md transition-shadow">
+                    <h5 className="font-bold text-navy mb-2 flex justify-between items-center">
+                        <span className="flex items-center gap-2"><Rows3 className="h-4 w-4 text-primary" /> Matrice des manquants</span>
+                        <span className="text-[10px] bg-gray-100 px-2 py-1 rounded text-gray-400 font-normal italic">
+                            {matrix.rows.length} lignes sur {rows.length.toLocaleString('fr-FR')} (échantillon)
+                        </span>
+                    </h5>
+                    <p className="text-[11px] text-gray-400 mb-4 italic">Chaque trait foncé est une valeur manquante ; des bandes alignées signalent des colonnes qui manquent ensemble.</p>
+                    <div className="grid gap-px mb-1" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}>
+                        {columns.map((c, j) => (
+                            <div key={c} className="h-20 flex flex-col items-center justify-end gap-1" title={`${c} : ${sampleShare(j).toFixed(1)} % manquants sur l'échantillon`}>
+                                <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-16 text-[10px] font-bold text-navy">{c}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <svg
+                        viewBox={`0 0 ${columns.length} ${Math.max(matrix.rows.length, 1)}`}
+                        preserveAspectRatio="none"
+                        className="w-full h-72 rounded-lg"
+                    >
+                        <rect x={0} y={0} width={columns.length} height={Math.max(matrix.rows.length, 1)} fill="#f1f5f9" />
+                        {matrix.mask.map((row, i) => row.map((missing, j) => missing && (
+                            <rect key={`${i}-${j}`} x={j} y={i} width={1} height={1} fill="#1e3a8a" />
+                        )))}
+                        {columns.slice(1).map((c, j) => (
+                            <line key={c} x1={j + 1} x2={j + 1} y1={0} y2={matrix.rows.length} stroke="#ffffff" strokeWidth={0.04} />
+                        ))}
+                    </svg>
+                    <div className="grid gap-px mt-1" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}>
+                        {columns.map((c, j) => (
+                            <span key={c} className="text-center text-[9px] font-mono text-gray-400 truncate">{sampleShare(j).toFixed(0)} %</span>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Corrélation de nullité */}
+                <CorrelationHeatmap
+                    correlation={nullity}
+                    title="Corrélation de nullité"
+                    emptyMessage="Il faut au moins deux colonnes partiellement manquantes dans l'échantillon"
+                />
+            </div>
+
+            {/* Mécanismes estimés par le serveur */}
+            <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 hover:shadow-md transition-shadow">
+                <h5 className="font-bold text-navy mb-6 flex items-center gap-2">
+                    <ShieldQuestion className="h-4 w-4 text-primary" /> Mécanismes de manquants (MCAR / MAR / MNAR)
+                </h5>
+                {analysis === undefined && datasetId ? (
+                    <div className="min-h-[120px] flex items-center justify-center">
+                        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : !analysis?.length ? (
+                    <p className="text-sm text-gray-400 italic">
+                        Analyse des mécanismes indisponible pour ce dataset.
+                        {analysis === null && <button onClick={() => retry(key)} className="ml-2 not-italic font-bold text-primary hover:underline">Réessayer</button>}
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {analysis.filter(a => a.nullCount > 0 || a.mechanism).map(a => (
+                            <div key={a.name} className="flex flex-wrap items-start gap-3 border border-gray-100 rounded-xl px-4 py-3">
+                                <span className="w-40 truncate font-bold text-sm text-navy" title={a.name}>{a.name}</span>
+                                <span className="w-20 text-xs font-mono text-gray-500">{a.nullPercentage.toFixed(1)} %</span>
+                                {a.mechanism ? (
+                                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${a.mechanism === 'MNAR' ? 'bg-navy text-white' : 'bg-blue-50 text-blue-600'}`}>
+                                        {a.mechanism}
+                                    </span>
+                                ) : (
+                                    <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-gray-100 text-gray-400">?</span>
+                                )}
+                                <div className="flex-1 min-w-[240px] text-xs text-gray-600">
+                                    {a.mechanism ? MECHANISM_HINTS[a.mechanism] : 'Mécanisme non déterminé.'}
+                                    {a.recommendation && <span className="block mt-0.5 font-semibold text-primary">Recommandation : {a.recommendation}</span>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MissingnessPanel;
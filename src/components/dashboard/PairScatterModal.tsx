@@ -0,0 +1,75 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Pin, ScatterChart as ScatterIcon, X } from 'lucide-react';
+import { CartesianGrid, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+import { CORRELATION_METHODS, type CorrelationMethod, type ScatterPair } from '../../utils/dataProcessor';
+
+interface PairScatterModalProps {
+    pair: ScatterPair;
+    // undefined : en cours de chargement ; null : indisponible
+    points: { x: number; y: number }[] | null | undefined;
+    coefficient: number | null;
+    method: CorrelationMethod;
+    onClose: () => void;
+    // Ajoute le couple aux nuages de points du tableau de bord
+    onPin?: () => void;
+}
+
+export const PairScatterModal: React.FC<PairScatterModalProps> = ({ pair, points, coefficient, method, onClose, onPin }) => (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-navy/60 backdrop-blur-sm"
+        />
+        <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            className="bg-white rounded-[2rem] shadow-2xl w-full max-w-2xl overflow-hidden relative z-10 border border-gray-100"
+        >
+            <div className="bg-blue-50/50 p-6 flex items-center gap-4">
+                <div className="w-12 h-12 bg-white rounded-2xl flex items-center justify-center text-primary shadow-lg border border-blue-100">
+                    <ScatterIcon size={24} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <h2 className="text-lg font-black text-navy leading-tight truncate">{pair.x} × {pair.y}</h2>
+                    <p className="text-xs text-gray-500">
+                        {CORRELATION_METHODS[method]} : {coefficient === null ? 'non calculable' : `r = ${coefficient.toFixed(3)}`}
+                    </p>
+                </div>
+                <button onClick={onClose} className="p-2 rounded-lg hover:bg-white text-gray-400 hover:text-navy">
+                    <X className="h-5 w-5" />
+                </button>
+            </div>
+            <div className="p-6">
+                {points === undefined ? (
+                    <div className="h-[320px] flex items-center justify-center">
+                        <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : points && points.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={320}>
+                        <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+                            <XAxis type="number" dataKey="x" name={pair.x} stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis type="number" dataKey="y" name={pair.y} stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} />
+                            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                            <Scatter data={points} fill="#3b82f6" fillOpacity={0.6} />
+                        </ScatterChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="h-[320px] flex items-center justify-center text-gray-400 italic">Données de relation non disponibles</div>
+                )}
+                {onPin && (
+                    <div className="flex justify-end pt-4">
+                        <button onClick={onPin} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary text-white text-xs font-bold hover:bg-navy transition-colors">
+                            <Pin className="h-4 w-4" /> Ajouter au tableau de bord
+                        </button>
+                    </div>
+                )}
+            </div>
+        </motion.div>
+    </div>
+);
+
+export default PairScatterModal;
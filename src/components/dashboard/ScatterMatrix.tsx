@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+import { LayoutGrid } from 'lucide-react';
+import { datasetsApi } from '../../services/api';
+import { useKeyedData, type KeyedRequest } from '../../hooks/useKeyedData';
+import { MAX_MATRIX_COLUMNS, extent } from '../../utils/dataProcessor';
+
+interface ScatterMatrixProps {
+    datasetId?: string;
+    // Version affichée du dataset : les nuages en cache lui sont propres
+    version?: number | null;
+    // Colonnes numériques proposées
+    columns: string[];
+    selected: string[];
+    onSelectedChange?: (columns: string[]) => void;
+}
+
+type Point = { x: number; y: number };
+type Bin = { range: string; count: number };
+
+// Points par couple : la matrice compte jusqu'à 28 nuages
+const SAMPLE_SIZE = 300;
+const HISTOGRAM_BINS = 12;
+
+// Bornes d'axe, élargies quand toutes les valeurs sont égales
+const axisRange = (values: number[]): [number, number] => {
+    const [min, max] = extent(values);
+    return min === max ? [min - 1, max + 1] : [min, max];
+};
+
+const Pending = () => (
+    <div className="w-full h-full flex items-center justify-center">
+        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+    </div>
+);
+
+const Unavailable = () => <div className="w-full h-full flex items-center justify-center text-gray-300 text-xs">—</div>;
+
+// Nuage miniature en SVG : bien plus léger que 56 graphiques recharts
+const MiniScatter: React.FC<{ points: Point[]; swap: boolean }> = ({ points, swap }) => {
+    const xs = points.map(p => swap ? p.y : p.x);
+    const ys = points.map(p => swap ? p.x : p.y);
+    const [x0, x1] = axisRange(xs);
+    const [y0, y1] = axisRange(ys);
+    return (
+        <svg viewBox="0 0 100 100" className="w-full h-full">
+            {xs.map((x, i) => (
+                <circle key={i} cx={4 + ((x - x0) / (x1 - x0)) * 92} cy={96 - ((ys[i] - y0) / (y1 - y0)) * 92} r={1.6} fill="#3b82f6" fillOpacity={0.5} />
+            ))}
+        </svg>
+    );
+};
+
+const MiniHistogram: React.FC<{ bins: Bin[] }> = ({ bins }) => {
+    const max = Math.max(...bins.map(b => b.count), 1);
+    const width = 92 / (bins.length || 1);
+    return (
+        <svg viewBox="0 0 100 100" className="w-full h-full">
+            {bins.map((b, i) => {
+                const height = (b.count / max) * 92;
+                return <rect key={i} x={4 + i * width} y={96 - height} width={Math.max(width - 1, 0.5)} height={height} fill="#3c5fa0" fillOpacity={0.8} />;
+            })}
+        </svg>
+    );
+};
+
+/**
+ * Matrice de nuages de points des colonnes choisies (jusqu'à 8) : un nuage par
+ * couple hors diagonale, l'histogramme de la colonne sur la diagonale.
+ * Chaque couple n'est demandé qu'une fois, le triangle opposé inverse les axes.
+ */
+export const ScatterMatrix: React.FC<ScatterMatrixProps> = ({ datasetId, version, columns, selected, onSelectedChange }) => {
+    const cacheKey = `${datasetId}@${version ?? 0}`;
+    const pairRequests = useMemo<KeyedRequest<Point[]>[]>(() => {
+        if (!datasetId) return [];
+        const requests: KeyedRequest<Point[]>[] = [];
+        selected.forEach((x, i) => selected.slice(i + 1).forEach(y => requests.push({
+            key: `${cacheKey}:${x}:${y}`,
+            load: async () => (await datasetsApi.getScatter(datasetId, x, y, SAMPLE_SIZE)).data || [],
+        })));
+        return requests;
+    }, [datasetId, cacheKey, selected]);
+    const histogramRequests = useMemo<KeyedRequest<Bin[]>[]>(() => datasetId
+        ? selected.map(column => ({
+            key: `${cacheKey}:${column}`,
+            load: async () => (await datasetsApi.getDistribution(datasetId, column, HISTOGRAM_BINS)).data || [],
+        }))
+        : [], [datasetId, cacheKey, selected]);
+    const pairs = useKeyedData(pairRequests).data;
+    const histograms = useKeyedData(histogramRequests).data;
+
+    const toggle = (column: string) => {
+        if (!onSelectedChange) return;
+        if (selected.includes(column)) onSelectedChange(selected.filter(c => c !== column));
+        // Ordre des colonnes proposées conservé dans la matrice
+        else if (selected.length < MAX_MATRIX_COLUMNS) onSelectedChange(columns.filter(c => c === column || selected.includes(c)));
+    };
+
+    const renderCell = (row: number, col: number) => {
+        if (row === col) {
+            const bins = histograms[`${cacheKey}:${selected[row]}`];
+            return bins === undefined ? <Pending /> : bins ? <MiniHistogram bins={bins} /> : <Unavailable />;
+        }
+        const [i, j] = row < col ? [row, col] : [col, row];
+        const points = pairs[`${cacheKey}:${selected[i]}:${selected[j]}`];
+        // Case (row, col) : abscisse = colonne col, ordonnée = colonne row
+        return points === undefined ? <Pending /> : points?.length ? <MiniScatter points={points} swap={col > row} /> : <Unavailable />;
+    };
+
+    return (
+        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 flex flex-col hover:shadow-md transition-shadow">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h5 className="font-bold text-navy flex items-center gap-2">
+                    <LayoutGrid className="h-4 w-4 text-primary" /> Matrice de nuages de points
+                </h5>
+                <span className="text-[10px] bg-gray-100 px-2 py-1 rounded text-gray-400 font-normal italic">
+                    {selected.length} / {MAX_MATRIX_COLUMNS} colonnes · {SAMPLE_SIZE} points par couple
+                </span>
+            </div>
+
+            {onSelectedChange && (
+                <div className="flex flex-wrap gap-1.5 mb-6">
+                    {columns.map(c => {
+                        const active = selected.includes(c);
+                        return (
+                            <button
+                                key={c}
+                                onClick={() => toggle(c)}
+                                disabled={!active && selected.length >= MAX_MATRIX_COLUMNS}
+                                className={`px-2.5 py-1 rounded-lg text-xs font-bold border transition-colors disabled:opacity-40 ${active ? 'bg-primary text-white border-primary' : 'bg-white text-gray-500 border-gray-200 hover:border-primary hover:text-primary'}`}
+                            >
+                                {c}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {selected.length < 2 ? (
+                <div className="flex-1 min-h-[200px] flex items-center justify-center text-gray-400 italic">Sélectionnez au moins deux colonnes numériques</div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <div className="grid gap-1 min-w-fit" style={{ gridTemplateColumns: `100px repeat(${selected.length}, minmax(72px, 1fr))` }}>
+                        {selected.map((row, r) => (
+                            <React.Fragment key={row}>
+                                <div className="truncate text-[10px] font-bold text-navy pr-2 flex items-center justify-end" title={row}>{row}</div>
+                                {selected.map((col, c) => (
+                                    <div
+                                        key={col}
+                                        className={`aspect-square rounded-lg border ${r === c ? 'bg-primary-50/50 border-primary/10' : 'bg-gray-50 border-gray-100'}`}
+                                        title={r === c ? `Distribution de ${row}` : `${col} (x) × ${row} (y)`}
+                                    >
+                                        {renderCell(r, c)}
+                                    </div>
+                                ))}
+                            </React.Fragment>
+                        ))}
+                        <div />
+                        {selected.map(col => (
+                            <div key={col} className="truncate text-[10px] font-bold text-navy text-center pt-1" title={col}>{col}</div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScatterMatrix;
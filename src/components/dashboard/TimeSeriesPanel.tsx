@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+    Area, CartesianGrid, ComposedChart, Legend, Line, LineChart, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { datasetsApi } from '../../services/api';
+import { useKeyedData, type KeyedRequest } from '../../hooks/useKeyedData';
+import {
+    MAX_TIME_PERIODS, SEASONAL_PERIODS, countPeriods, decomposeSeries, fillPeriods, findTimeGaps, resampleTimeSeries,
+    type DatasetInfo, type TimeAggregation, type TimeFrequency, type TimePoint, type TimeSeriesSelection
+} from '../../utils/dataProcessor';
+
+interface TimeSeriesPanelProps {
+    dataset: DatasetInfo;
+    // Version affichée du dataset : chaque version a ses propres séries en cache
+    version?: number | null;
+    selection?: TimeSeriesSelection;
+    onSelectionChange?: (selection: TimeSeriesSelection) => void;
+}
+
+type SeriesResult = { points: TimePoint[]; sampled: boolean };
+
+const FREQUENCIES: { id: TimeFrequency; label: string }[] = [
+    { id: 'day', label: 'Jour' },
+    { id: 'week', label: 'Semaine' },
+    { id: 'month', label: 'Mois' },
+];
+
+const AGGREGATIONS: Record<TimeAggregation, string> = { mean: 'Moyenne', sum: 'Somme', min: 'Min', max: 'Max' };
+
+const SEASON_LABELS: Record<TimeFrequency, string> = { day: 'hebdomadaire', week: 'annuel', month: 'annuel' };
+
+// Fréquence par défaut : la plus fine qui garde un graphique lisible
+const READABLE_PERIODS = 180;
+
+const readableFrequency = (periods: (frequency: TimeFrequency) => number): TimeFrequency =>
+    FREQUENCIES.find(f => periods(f.id) <= READABLE_PERIODS)?.id ?? 'month';
+
+// Plages manquantes surlignées sur le graphique
+const SHADED_GAPS = 10;
+
+/**
+ * Séries temporelles d'une colonne date : effectif par période, métrique
+ * numérique agrégée, périodes sans enregistrement et décomposition saisonnière.
+ * Le serveur rééchantillonne le dataset complet ; à défaut, l'échantillon chargé.
+ */
+export const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ dataset, version, selection, onSelectionChange }) => {
+    const [showDecomposition, setShowDecomposition] = useState(false);
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const dateCols = useMemo(() => dataset.columnInfo.filter(c => c.type === 'datetime').map(c => c.name), [dataset]);
+    const numericCols = useMemo(() => dataset.columnInfo.filter(c => c.type === 'numeric').map(c => c.name), [dataset]);
+
+    const column = selection && dateCols.includes(selection.column) ? selection.column : dateCols[0];
+    const periods = useMemo(() => Object.fromEntries(
+        FREQUENCIES.map(f => [f.id, column ? countPeriods(rows, column, f.id) : 0])
+    ) as Record<TimeFrequency, number>, [rows, column]);
+    const frequency = selection?.column === column
+        ? selection.frequency
+        : readableFrequency(f => periods[f]);
+    const metric = selection?.metric && numericCols.includes(selection.metric) ? selection.metric : undefined;
+    const aggregation = selection?.aggregation ?? 'mean';
+
+    const datasetId = dataset.id;
+    const key = `${datasetId ?? 'local'}@${version ?? 0}:${column}:${frequency}:${metric ?? ''}:${aggregation}`;
+    const requests = useMemo<KeyedRequest<SeriesResult>[]>(() => column ? [{
+        key,
+        load: async () => {
+            const local = () => ({ points: resampleTimeSeries(rows, column, frequency, metric, aggregation), sampled: true });
+            if (!datasetId) return local();
+            try {
+                const res = await datasetsApi.getTimeSeries(datasetId, column, frequency, metric, aggregation);
+                return { points: fillPeriods(res.data || [], frequency), sampled: false };
+            } catch (err) {
+                console.warn("Série temporelle serveur indisponible, calcul sur l'échantillon", err);
+                return local();
+            }
+        },
+    }] : [], [key, column, datasetId, rows, frequency, metric, aggregation]);
+    const result = useKeyedData(requests).data[key];
+
+    const update = (patch: Partial<TimeSeriesSelection>) => {
+        if (column) onSelectionChange?.({ column, frequency, metric, aggregation, ...patch });
+    };
+
+    const points = result?.points ?? [];
+    const gaps = findTimeGaps(points);
+    const missingPeriods = gaps.reduce((acc, g) => acc + g.periods, 0);
+    const seasonalPeriod = SEASONAL_PERIODS[frequency];
+    const decomposition = showDecomposition
+        ? decomposeSeries(points.map(p => ({ period: p.period, value: metric ? p.value : p.count })), seasonalPeriod)
+        : null;
+
+    const select = 'bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer';
+    const label = 'block text-[10px] font-black text-primary uppercase tracking-widest mb-1 ml-1 opacity-70';
+
+    if (!column) return null;
+
+    return (
+        <div className="bg-white rounded-3xl shadow-sm p-8 border border-gray-100/50 flex flex-col gap-6 hover:shadow-md transition-shadow">
+            <div className="flex flex-wrap items-end gap-4">
+                <div>
+                    <span className={label}>Colonne date</span>
+                    <select value={column} onChange={(e) => update({ column: e.target.value, frequency: readableFrequency(f => countPeriods(rows, e.target.value, f)) })} className={select}>
+                        {dateCols.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <span className={label}>Rééchantillonnage</span>
+                    <div className="flex bg-gray-100 p-1 rounded-xl">
+                        {FREQUENCIES.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => update({ frequency: f.id })}
+                                disabled={periods[f.id] > MAX_TIME_PERIODS}
+                                title={periods[f.id] > MAX_TIME_PERIODS ? `${periods[f.id].toLocaleString('fr-FR')} périodes : choisissez une fréquence plus large` : undefined}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all disabled:opacity-40 ${frequency === f.id ? 'bg-white text-navy shadow-sm' : 'text-gray-500 hover:text-navy'}`}
+                            >
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <span className={label}>Métrique</span>
+                    <select value={metric ?? ''} onChange={(e) => update({ metric: e.target.value || undefined })} className={select}>
+                        <option value="">Aucune</option>
+                        {numericCols.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                {metric && (
+                    <div>
+                        <span className={label}>Agrégation</span>
+                        <select value={aggregation} onChange={(e) => update({ aggregation: e.target.value as TimeAggregation })} className={select}>
+                            {(Object.keys(AGGREGATIONS) as TimeAggregation[]).map(a => <option key={a} value={a}>{AGGREGATIONS[a]}</option>)}
+                        </select>
+                    </div>
+                )}
+                {result?.sampled && (
+                    <span className="ml-auto text-[10px] bg-amber-50 px-2 py-1 rounded text-amber-700 font-bold">
+                        Calculé sur l'échantillon ({rows.length.toLocaleString('fr-FR')} lignes)
+                    </span>
+                )}
+            </div>
+
+            {result === undefined ? (
+                <div className="min-h-[320px] flex items-center justify-center">
+                    <div className="w-10 h-10 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+            ) : points.length === 0 ? (
+                <div className="min-h-[200px] flex items-center justify-center text-gray-400 italic">Aucune date exploitable dans cette colonne</div>
+            ) : (
+                <>
+                    <ResponsiveContainer width="100%" height={320}>
+                        <ComposedChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                            <XAxis dataKey="period" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} minTickGap={24} />
+                            <YAxis yAxisId="count" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                            {metric && <YAxis yAxisId="metric" orientation="right" tick={{ fontSize: 10, fill: '#64748b' }} axisLine={false} tickLine={false} />}
+                            <Tooltip />
+                            <Legend verticalAlign="top" align="right" height={36} />
+                            {gaps.slice(0, SHADED_GAPS).map(g => (
+                                <ReferenceArea key={g.from} yAxisId="count" x1={g.from} x2={g.to} fill="#ef4444" fillOpacity={0.08} strokeOpacity={0} />
+                            ))}
+                            <Area yAxisId="count" type="monotone" dataKey="count" name="Enregistrements" stroke="#3c5fa0" fill="#3c5fa0" fillOpacity={0.15} strokeWidth={2} />
+                            {metric && (
+                                <Line yAxisId="metric" type="monotone" dataKey="value" name={`${metric} (${AGGREGATIONS[aggregation].toLowerCase()})`} stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls />
+                            )}
+                        </ComposedChart>
+                    </ResponsiveContainer>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <span className={label}>Périodes manquantes</span>
+                            {gaps.length === 0 ? (
+                                <p className="flex items-center gap-2 text-sm text-green-700"><CheckCircle className="h-4 w-4" /> Aucune période sans enregistrement.</p>
+                            ) : (
+                                <>
+                                    <p className="flex items-center gap-2 text-sm text-amber-700 mb-2">
+                                        <AlertTriangle className="h-4 w-4" />
+                                        {missingPeriods} période(s) vide(s) sur {points.length}, en {gaps.length} plage(s).
+                                    </p>
+                                    <ul className="space-y-1 text-xs">
+                                        {gaps.slice(0, 5).map(g => (
+                                            <li key={g.from} className="flex justify-between bg-red-50/50 rounded-lg px-3 py-1.5">
+                                                <span className="font-mono text-navy">{g.from === g.to ? g.from : `${g.from} → ${g.to}`}</span>
+                                                <span className="font-bold text-red-500">{g.periods} période(s)</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+                        </div>
+                        <div>
+                            <span className={label}>Décomposition saisonnière</span>
+                            <p className="text-xs text-gray-500 mb-2">
+                                Tendance, cycle {SEASON_LABELS[frequency]} ({seasonalPeriod} périodes) et résidu de {metric ? `« ${metric} »` : "l'effectif"}, modèle additif.
+                            </p>
+                            <button
+                                onClick={() => setShowDecomposition(v => !v)}
+                                className="text-xs font-bold text-primary hover:underline"
+                            >
+                                {showDecomposition ? 'Masquer la décomposition' : 'Afficher la décomposition'}
+                            </button>
+                        </div>
+                    </div>
+
+                    {showDecomposition && (decomposition ? (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                            {([
+                                { dataKey: 'trend', label: 'Tendance', color: '#3c5fa0' },
+                                { dataKey: 'seasonal', label: 'Saisonnalité', color: '#10b981' },
+                                { dataKey: 'residual', label: 'Résidu', color: '#94a3b8' },
+                            ] as const).map(part => (
+                                <div key={part.dataKey} className="border border-gray-100 rounded-2xl p-4">
+                                    <h6 className="text-xs font-bold text-navy mb-2">{part.label}</h6>
+                                    <ResponsiveContainer width="100%" height={140}>
+                                        <LineChart data={decomposition}>
+                                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f8fafc" />
+                                            <XAxis dataKey="period" hide />
+                                            <YAxis tick={{ fontSize: 9, fill: '#94a3b8' }} axisLine={false} tickLine={false} width={40} />
+                                            <Tooltip />
+                                            {part.dataKey !== 'trend' && <ReferenceLine y={0} stroke="#cbd5e1" />}
+                                            <Line type="monotone" dataKey={part.dataKey} name={part.label} stroke={part.color} strokeWidth={1.5} dot={false} />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-400 italic">
+                            Au moins deux cycles complets ({2 * seasonalPeriod} périodes) sont nécessaires : la série n'en compte que {points.length}.
+                        </p>
+                    ))}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TimeSeriesPanel;
@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, ChevronRight, Circle, Copy, Search, Trash2, Wand2 } from 'lucide-react';
+import {
+    findDuplicates, findIrrelevantColumns, suggestTypeFixes,
+    type ColumnType, type DatasetInfo, type DuplicateKeep, type IrrelevantReason
+} from '../../utils/dataProcessor';
+
+interface AuditStepProps {
+    dataset: DatasetInfo;
+    target?: string;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onNext: () => void;
+}
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+    numeric: 'Numérique',
+    categorical: 'Catégorielle',
+    datetime: 'Date',
+    boolean: 'Booléen',
+    unknown: 'Inconnu',
+};
+
+const CASTABLE: ColumnType[] = ['numeric', 'categorical', 'datetime', 'boolean'];
+
+const KEEP_OPTIONS: { id: DuplicateKeep; label: string }[] = [
+    { id: 'first', label: 'Garder la première occurrence' },
+    { id: 'last', label: 'Garder la dernière occurrence' },
+    { id: 'none', label: 'Supprimer toutes les occurrences' },
+];
+
+const REASONS: Record<IrrelevantReason, { label: string; className: string }> = {
+    constant: { label: 'Constante', className: 'bg-primary-50 text-primary' },
+    near_constant: { label: 'Quasi-constante', className: 'bg-amber-50 text-amber-700' },
+    identifier: { label: 'Identifiant', className: 'bg-navy-100 text-navy' },
+    free_text: { label: 'Texte libre', className: 'bg-gray-100 text-gray-600' },
+};
+
+export const AuditStep: React.FC<AuditStepProps> = ({ dataset, target, onApply, onNext }) => {
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const columns = useMemo(() => dataset.columnInfo || [], [dataset]);
+    const typeFixes = useMemo(() => suggestTypeFixes(columns, rows), [columns, rows]);
+    const irrelevant = useMemo(() => findIrrelevantColumns(columns, rows, target), [columns, rows, target]);
+
+    const [castChoices, setCastChoices] = useState<Record<string, ColumnType>>({});
+    const [subset, setSubset] = useState<string[]>([]);
+    const [keep, setKeep] = useState<DuplicateKeep>('first');
+    // Texte libre : suppression non cochée par défaut (candidat NLP)
+    const [dropChoices, setDropChoices] = useState<Record<string, boolean>>({});
+    const [isApplying, setIsApplying] = useState(false);
+
+    const activeSubset = subset.filter(c => columns.some(col => col.name === c));
+    const duplicates = findDuplicates(rows, activeSubset);
+    const removedRows = keep === 'none' ? duplicates.involved : duplicates.extra;
+    const isDropped = (column: string, reason: IrrelevantReason) => dropChoices[column] ?? reason !== 'free_text';
+    const toDrop = irrelevant.filter(c => isDropped(c.column, c.reason));
+
+    const run = async (type: string, params: Record<string, unknown>, journal: string[]) => {
+        setIsApplying(true);
+        const ok = await onApply(type, params, journal);
+        setIsApplying(false);
+        return ok;
+    };
+
+    const castColumns = (names: string[]) => {
+        const casts = Object.fromEntries(names.map(name => {
+            const fix = typeFixes.find(f => f.column === name);
+            return [name, castChoices[name] ?? fix?.to];
+        }));
+        const journal = names.map(name => {
+            const fix = typeFixes.find(f => f.column === name);
+            return `Type de « ${name} » corrigé : ${TYPE_LABELS[fix?.from || 'unknown']} → ${TYPE_LABELS[casts[name] as ColumnType]}`;
+        });
+        return run('cast_types', { columns: casts }, journal);
+    };
+
+    const dropDuplicates = () => run(
+        'drop_duplicates',
+        { subset: activeSubset.length ? activeSubset : null, keep: keep === 'none' ? false : keep },
+        [`${removedRows} doublon(s) ${activeSubset.length ? `partiel(s) sur ${activeSubset.map(c => `« ${c} »`).join(', ')}` : 'exact(s)'} supprimé(s) — ${KEEP_OPTIONS.find(k => k.id === keep)?.label.toLowerCase()} (sur l'échantillon)`]
+    );
+
+    const dropColumns = async () => {
+        const kept = irrelevant.filter(c => !isDropped(c.column, c.reason));
+        const ok = await run(
+            'drop_columns',
+            { columns: toDrop.map(c => c.column) },
+            [
+                ...toDrop.map(c => `Colonne « ${c.column} » supprimée : ${REASONS[c.reason].label.toLowerCase()} (${c.detail})`),
+                ...kept.map(c => `Colonne « ${c.column} » conservée malgré le signalement : ${REASONS[c.reason].label.toLowerCase()}`),
+            ]
+        );
+        if (ok) setDropChoices({});
+    };
+
+    const checklist = [
+        { id: '0.1', label: 'Types vérifiés', done: typeFixes.length === 0 },
+        { id: '0.2', label: 'Doublons traités', done: duplicates.extra === 0 },
+        { id: '0.4', label: 'Colonnes non pertinentes', done: irrelevant.length === 0 },
+    ];
+
+    const section = 'bg-white rounded-2xl shadow-sm p-6';
+    const title = 'text-lg font-bold text-navy flex items-center gap-2';
+    const actionButton = 'rounded-xl px-5 py-2.5 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2';
+
+    return (
+        <div className="space-y-6">
+            <div className={section}>
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <Search className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Audit initial</h3>
+                        <p className="text-xs text-gray-500">Section 0 — chaque décision est consignée dans le journal du pipeline.</p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {checklist.map(item => (
+                        <div key={item.id} className={`flex items-center gap-3 rounded-xl border px-4 py-3 ${item.done ? 'border-blue-100 bg-blue-50 text-blue-700' : 'border-gray-100 bg-gray-50 text-navy'}`}>
+                            {item.done ? <CheckCircle className="h-5 w-5 shrink-0" /> : <Circle className="h-5 w-5 shrink-0 text-gray-300" />}
+                            <span className="text-sm font-bold">{item.id} · {item.label}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* 0.1 Types */}
+            <div className={section}>
+                <div className="flex items-center justify-between mb-4">
+                    <h4 className={title}><Wand2 className="h-5 w-5 text-primary" /> 0.1 Vérification des types</h4>
+                    {typeFixes.length > 1 && (
+                        <button onClick={() => castColumns(typeFixes.map(f => f.column))} disabled={isApplying} className={actionButton}>
+                            Tout convertir ({typeFixes.length})
+                        </button>
+                    )}
+                </div>
+                {typeFixes.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">Tous les types détectés sont cohérents avec les valeurs.</p>
+                ) : (
+                    <div className="divide-y divide-gray-100">
+                        {typeFixes.map(fix => (
+                            <div key={fix.column} className="flex flex-col md:flex-row md:items-center gap-3 py-3">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-bold text-navy truncate">{fix.column}</div>
+                                    <div className="text-xs text-gray-500">
+                                        {fix.reason} · ex. {columns.find(c => c.name === fix.column)?.sampleValues.slice(0, 3).map(String).join(', ')}
+                                    </div>
+                                </div>
+                                <span className="text-xs font-semibold text-gray-500">{TYPE_LABELS[fix.from]} →</span>
+                                <select
+                                    value={castChoices[fix.column] ?? fix.to}
+                                    onChange={(e) => setCastChoices(prev => ({ ...prev, [fix.column]: e.target.value as ColumnType }))}
+                                    className="bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer"
+                                >
+                                    {CASTABLE.filter(t => t !== fix.from).map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+                                </select>
+                                <button onClick={() => castColumns([fix.column])} disabled={isApplying} className={actionButton}>
+                                    Convertir
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* 0.2 Doublons */}
+            <div className={section}>
+                <h4 className={`${title} mb-4`}><Copy className="h-5 w-5 text-primary" /> 0.2 Doublons</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                        <div className="text-2xl font-black text-navy">{duplicates.extra}</div>
+                        <div className="text-xs text-gray-500">doublon(s) sur {rows.length} lignes de l'échantillon</div>
+                    </div>
+                    <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                        <div className="text-2xl font-black text-navy">{duplicates.groups.length}</div>
+                        <div className="text-xs text-gray-500">groupe(s) de lignes identiques</div>
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">Occurrence conservée</label>
+                        <select value={keep} onChange={(e) => setKeep(e.target.value as DuplicateKeep)} className="w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer">
+                            {KEEP_OPTIONS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">
+                    Colonnes clés (doublons partiels — vide = toutes les colonnes)
+                </label>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {columns.map(c => (
+                        <button
+                            key={c.name}
+                            onClick={() => setSubset(activeSubset.includes(c.name) ? activeSubset.filter(n => n !== c.name) : [...activeSubset, c.name])}
+                            className={`px-3 py-1.5 rounded-lg border text-xs font-semibold transition-all ${activeSubset.includes(c.name) ? 'border-primary bg-primary text-white' : 'border-gray-200 bg-white text-navy hover:border-primary/40'}`}
+                        >
+                            {c.name}
+                        </button>
+                    ))}
+                </div>
+                {duplicates.groups.length > 0 && (
+                    <p className="text-xs text-gray-500 mb-4">
+                        Lignes concernées (keep=False) : {duplicates.groups.slice(0, 5).map(g => g.map(i => `#${i + 1}`).join(' = ')).join(' · ')}{duplicates.groups.length > 5 ? ' …' : ''}
+                    </p>
+                )}
+                <div className="flex justify-end">
+                    <button onClick={dropDuplicates} disabled={isApplying || duplicates.extra === 0} className={actionButton}>
+                        <Trash2 className="h-4 w-4" /> Supprimer {removedRows} ligne(s)
+                    </button>
+                </div>
+            </div>
+
+            {/* 0.4 Colonnes non pertinentes */}
+            <div className={section}>
+                <h4 className={`${title} mb-4`}><Trash2 className="h-5 w-5 text-primary" /> 0.4 Colonnes non pertinentes</h4>
+                {irrelevant.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">Aucune colonne constante, quasi constante ou identifiante détectée.</p>
+                ) : (
+                    <>
+                        <div className="divide-y divide-gray-100 mb-4">
+                            {irrelevant.map(c => (
+                                <label key={c.column} className="flex items-center gap-3 py-3 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={isDropped(c.column, c.reason)}
+                                        onChange={(e) => setDropChoices(prev => ({ ...prev, [c.column]: e.target.checked }))}
+                                        className="w-4 h-4 accent-primary"
+                                    />
+                                    <span className="flex-1 font-bold text-navy truncate">{c.column}</span>
+                                    <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${REASONS[c.reason].className}`}>{REASONS[c.reason].label}</span>
+                                    <span className="text-xs text-gray-500 w-56 text-right">{c.detail}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex justify-end">
+                            <button onClick={dropColumns} disabled={isApplying || toDrop.length === 0} className={actionButton}>
+                                <Trash2 className="h-4 w-4" /> Supprimer {toDrop.length} colonne(s)
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="flex justify-end">
+                <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+                    Continuer <ChevronRight className="h-5 w-5" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AuditStep;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, Database, Clock } from 'lucide-react';
+import {
+    AUTOPILOT_STAGES,
+    type AutopilotProgress as AutopilotProgressState,
+    type AutopilotSourceMode,
+    type AutopilotStage
+} from '../../services/autopilotJobs';
+
+interface AutoPilotProgressProps {
+    progress: AutopilotProgressState;
+    mode: AutopilotSourceMode | null;
+    labels: Record<AutopilotStage, string>;
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export const AutoPilotProgress: React.FC<AutoPilotProgressProps> = ({ progress, mode, labels }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const isRunning = AUTOPILOT_STAGES.some(s => progress[s].status === 'running');
+
+    // Chronomètre de l'étape en cours
+    useEffect(() => {
+        if (!isRunning) return;
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [isRunning]);
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm p-8 min-h-[400px]">
+            <div className="flex items-center gap-4 mb-8">
+                <div className="relative">
+                    <div className="w-14 h-14 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
+                    <div className="absolute inset-0 flex items-center justify-center">
+                        <Database className="h-5 w-5 text-primary animate-pulse" />
+                    </div>
+                </div>
+                <div>
+                    <h3 className="text-2xl font-bold text-navy">Auto-Pilot en cours...</h3>
+                    <p className="text-gray-500 text-sm">
+                        {mode === 'legacy'
+                            ? "Le serveur ne publie pas de progression détaillée : le résultat s'affichera à la fin du traitement."
+                            : 'Chaque étape est marquée terminée dès que le serveur la confirme.'}
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                {AUTOPILOT_STAGES.map((stage, index) => {
+                    const state = progress[stage];
+                    const elapsed = state.status === 'running' && state.startedAt ? now - state.startedAt : state.durationMs;
+                    return (
+                        <div
+                            key={stage}
+                            className={`rounded-xl border p-4 transition-all ${state.status === 'running' ? 'border-primary/40 bg-primary-50/40 shadow-sm' : state.status === 'done' ? 'border-blue-100 bg-white' : 'border-gray-100 bg-gray-50/50 opacity-60'}`}
+                        >
+                            <div className="flex items-center justify-between gap-3">
+                                <div className="flex items-center gap-3">
+                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${state.status === 'done' ? 'bg-blue-600 text-white' : state.status === 'running' ? 'bg-primary text-white' : 'bg-gray-200 text-gray-500'}`}>
+                                        {state.status === 'done' ? <CheckCircle className="h-4 w-4" /> : index + 1}
+                                    </div>
+                                    <span className="font-bold text-navy text-sm">{labels[stage]}</span>
+                                    {state.status === 'running' && (
+                                        <div className="flex gap-1">
+                                            {[0, 1, 2].map(i => (
+                                                <motion.div
+                                                    key={i}
+                                                    className="w-1.5 h-1.5 bg-primary rounded-full"
+                                                    animate={{ y: [0, -4, 0] }}
+                                                    transition={{ repeat: Infinity, duration: 0.6, delay: i * 0.1 }}
+                                                />
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                {elapsed !== undefined && (
+                                    <span className="flex items-center gap-1 text-[11px] font-bold text-gray-500">
+                                        <Clock className="h-3 w-3" /> {formatDuration(elapsed)}
+                                    </span>
+                                )}
+                            </div>
+                            {state.logs.length > 0 && (
+                                <ul className="mt-3 ml-11 space-y-1 text-[11px] text-gray-500 font-mono">
+                                    {state.logs.map((log, i) => <li key={i}>› {log}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default AutoPilotProgress;
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import {
+    algorithmFamily, encodingWarnings, numericValues, suggestEncoding, suggestScaling,
+    type ColumnEncoding, type DatasetInfo, type EncodingConfig, type EncodingMethod, type PipelineConfig, type ScalingMethod
+} from '../../utils/dataProcessor';
+
+interface EncodingPanelProps {
+    dataset: DatasetInfo;
+    config: PipelineConfig | null;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+}
+
+const ENCODINGS: { id: EncodingMethod; label: string }[] = [
+    { id: 'onehot', label: 'One-Hot' },
+    { id: 'ordinal', label: 'Ordinal' },
+    { id: 'target', label: 'Target' },
+    { id: 'frequency', label: 'Fréquence' },
+    { id: 'hashing', label: 'Hashing' },
+];
+
+const SCALERS: { id: ScalingMethod; label: string }[] = [
+    { id: 'standard', label: 'StandardScaler' },
+    { id: 'minmax', label: 'MinMaxScaler' },
+    { id: 'robust', label: 'RobustScaler' },
+    { id: 'none', label: 'Aucun' },
+];
+
+const FAMILY_LABELS = { tree: 'arbres (scaling inutile)', distance: 'distance (scaling obligatoire)', none: 'automatique' };
+
+export const EncodingPanel: React.FC<EncodingPanelProps> = ({ dataset, config, onApply }) => {
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const family = algorithmFamily(config?.algorithm);
+    const target = config?.target;
+    const supervised = !!target && config?.objective !== 'clustering';
+    const columnInfo = dataset.columnInfo;
+    const categorical = useMemo(
+        () => (columnInfo || []).filter(c => c.name !== target && (c.type === 'categorical' || c.type === 'boolean')),
+        [columnInfo, target]
+    );
+    const numeric = useMemo(() => (columnInfo || []).filter(c => c.name !== target && c.type === 'numeric'), [columnInfo, target]);
+
+    // Recommandations E/F, surchargées colonne par colonne par l'utilisateur (le scaling parcourt toutes les lignes chargées)
+    const suggested = useMemo<EncodingConfig>(() => ({
+        encoders: Object.fromEntries(categorical.map(c => [c.name, suggestEncoding(c, supervised)])),
+        scalers: Object.fromEntries(numeric.map(c => [c.name, suggestScaling(numericValues(rows, c.name), family)])),
+    }), [categorical, numeric, rows, family, supervised]);
+    const [encoderOverrides, setEncoderOverrides] = useState<Record<string, ColumnEncoding>>({});
+    const [scalerOverrides, setScalerOverrides] = useState<Record<string, ScalingMethod>>({});
+    const [isApplying, setIsApplying] = useState(false);
+    // Jeu avant/après la dernière application : le jeu produit est repris au premier rendu qui le reçoit
+    const [applied, setApplied] = useState<{ from: DatasetInfo; to: DatasetInfo | null } | null>(null);
+    if (applied && !applied.to && dataset !== applied.from) setApplied({ ...applied, to: dataset });
+    const hasOverrides = Object.keys(encoderOverrides).length > 0 || Object.keys(scalerOverrides).length > 0;
+    // Ses colonnes sont déjà encodées et mises à l'échelle : pas de seconde application sans changer la configuration
+    const alreadyApplied = !!applied && applied.to === dataset && !hasOverrides;
+
+    const effective: EncodingConfig = {
+        encoders: Object.fromEntries(categorical.map(c => [c.name, encoderOverrides[c.name] ?? suggested.encoders[c.name]])),
+        scalers: Object.fromEntries(numeric.map(c => [c.name, scalerOverrides[c.name] ?? suggested.scalers[c.name]])),
+    };
+    const warnings = encodingWarnings(effective, dataset.columnInfo || [], family, config?.objective);
+
+    const modalities = (column: string) =>
+        [...new Set(rows.map(r => r[column]).filter(v => v !== null && v !== undefined && v !== '').map(String))].sort();
+
+    const setEncoder = (column: string, method: EncodingMethod) => setEncoderOverrides(prev => ({
+        ...prev,
+        [column]: method === 'ordinal' ? { method, order: modalities(column) } : method === 'hashing' ? { method, n_components: 8 } : { method },
+    }));
+
+    const moveModality = (column: string, index: number, delta: number) => {
+        const order = [...(effective.encoders[column].order || modalities(column))];
+        const [item] = order.splice(index, 1);
+        order.splice(index + delta, 0, item);
+        setEncoderOverrides(prev => ({ ...prev, [column]: { ...effective.encoders[column], order } }));
+    };
+
+    const handleApply = async () => {
+        const journal = [
+            ...Object.entries(effective.encoders).map(([name, enc]) =>
+                `Encodage de « ${name} » : ${ENCODINGS.find(e => e.id === enc.method)?.label}${enc.order?.length ? ` (ordre ${enc.order.join(' < ')})` : ''}${enc.n_components ? ` (${enc.n_components} colonnes)` : ''}`),
+            ...Object.entries(effective.scalers).filter(([, s]) => s !== 'none').map(([name, s]) => `Scaling de « ${name} » : ${SCALERS.find(x => x.id === s)?.label}`),
+        ];
+        setIsApplying(true);
+        const ok = await onApply('encoding_scaling', { ...effective, fit_on: 'train' }, journal);
+        setIsApplying(false);
+        if (ok) {
+            setApplied({ from: dataset, to: null });
+            setEncoderOverrides({});
+            setScalerOverrides({});
+        }
+    };
+
+    const select = 'bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer';
+    const warning = (name: string) => warnings[name] && (
+        <p className="flex items-center gap-1.5 text-[11px] font-semibold text-amber-700 mt-1">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" /> {warnings[name]}
+        </p>
+    );
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm p-6">
+            <div className="flex items-center justify-between gap-3 mb-6">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <SlidersHorizontal className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Encodage & scaling</h3>
+                        <p className="text-xs text-gray-500">Sections E et F — ajustés sur le train uniquement. Famille d'algorithmes : {FAMILY_LABELS[family]}.</p>
+                    </div>
+                </div>
+                {hasOverrides && (
+                    <button
+                        onClick={() => { setEncoderOverrides({}); setScalerOverrides({}); }}
+                        className="flex items-center gap-2 text-xs font-bold text-gray-500 hover:text-primary transition-colors"
+                    >
+                        <RotateCcw className="h-4 w-4" /> Recommandations
+                    </button>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <div className="text-[10px] font-black text-navy uppercase tracking-widest mb-3">Catégorielles ({categorical.length})</div>
+                    {categorical.length === 0 && <p className="text-sm text-gray-400 italic">Aucune colonne catégorielle.</p>}
+                    <div className="divide-y divide-gray-100">
+                        {categorical.map(col => {
+                            const enc = effective.encoders[col.name];
+                            return (
+                                <div key={col.name} className="py-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-bold text-sm text-navy truncate">{col.name}</div>
+                                            <div className="text-[11px] text-gray-400">{col.uniqueCount} modalités</div>
+                                        </div>
+                                        <select value={enc.method} onChange={(e) => setEncoder(col.name, e.target.value as EncodingMethod)} className={select}>
+                                            {ENCODINGS.map(e => (
+                                                <option key={e.id} value={e.id} disabled={e.id === 'target' && !supervised}>{e.label}</option>
+                                            ))}
+                                        </select>
+                                        {enc.method === 'hashing' && (
+                                            <input
+                                                type="number"
+                                                min={2}
+                                                max={256}
+                                                value={enc.n_components ?? 8}
+                                                onChange={(e) => setEncoderOverrides(prev => ({ ...prev, [col.name]: { method: 'hashing', n_components: Math.max(2, Math.round(Number(e.target.value) || 2)) } }))}
+                                                className="w-20 bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm outline-none focus:border-primary"
+                                                title="Nombre de colonnes de hachage"
+                                            />
+                                        )}
+                                    </div>
+                                    {enc.method === 'ordinal' && col.uniqueCount > 2 && (
+                                        <div className="flex flex-wrap items-center gap-1 mt-2">
+                                            {(enc.order || modalities(col.name)).map((m, i, all) => (
+                                                <span key={m} className="flex items-center bg-gray-50 border border-gray-200 rounded-lg text-xs font-semibold text-navy">
+                                                    <button disabled={i === 0} onClick={() => moveModality(col.name, i, -1)} className="px-1 py-1 disabled:opacity-30"><ChevronLeft className="h-3 w-3" /></button>
+                                                    {m}
+                                                    <button disabled={i === all.length - 1} onClick={() => moveModality(col.name, i, 1)} className="px-1 py-1 disabled:opacity-30"><ChevronRight className="h-3 w-3" /></button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {warning(col.name)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="text-[10px] font-black text-navy uppercase tracking-widest mb-3">Numériques ({numeric.length})</div>
+                    {numeric.length === 0 && <p className="text-sm text-gray-400 italic">Aucune colonne numérique.</p>}
+                    <div className="divide-y divide-gray-100">
+                        {numeric.map(col => (
+                            <div key={col.name} className="py-3">
+                                <div className="flex items-center gap-3">
+                                    <div className="flex-1 font-bold text-sm text-navy truncate">{col.name}</div>
+                                    <select
+                                        value={effective.scalers[col.name]}
+                                        onChange={(e) => setScalerOverrides(prev => ({ ...prev, [col.name]: e.target.value as ScalingMethod }))}
+                                        className={select}
+                                    >
+                                        {SCALERS.map(s => <option key={s.id} value={s.id}>{s.label}{s.id === suggested.scalers[col.name] ? ' ★' : ''}</option>)}
+                                    </select>
+                                </div>
+                                {warning(col.name)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-4 pt-6">
+                {alreadyApplied && (
+                    <p className="text-xs font-semibold text-gray-500">Encodage et scaling appliqués : modifiez la configuration pour les appliquer à nouveau.</p>
+                )}
+                <button
+                    onClick={handleApply}
+                    disabled={isApplying || alreadyApplied || (categorical.length === 0 && numeric.length === 0)}
+                    className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isApplying ? 'Application...' : "Appliquer l'encodage et le scaling"}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default EncodingPanel;
@@ -0,0 +1,410 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Code2, CheckCircle, Info } from 'lucide-react';
+import {
+    applyEngineeringAction, guessCyclePeriod, isIdentifierColumn, UNARY_OPERATORS,
+    type CardinalityStrategy, type DatasetInfo, type DatetimePart, type DerivedOperator, type EngineeringAction
+} from '../../utils/dataProcessor';
+
+interface EngineeringStepProps {
+    dataset: DatasetInfo;
+    target?: string;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onNext: () => void;
+}
+
+type Tool = EngineeringAction['type'];
+
+// Outils de la section C (C.1 à C.4) + colonnes dérivées
+const TOOLS: { id: Tool; label: string; hint: string }[] = [
+    { id: 'drop_columns', label: 'Identifiants', hint: 'C.1 — supprimer les colonnes identifiantes, sans valeur prédictive.' },
+    { id: 'datetime_features', label: 'Dates', hint: 'C.2 — ne jamais encoder une date brute : extraire ses composantes puis supprimer la colonne.' },
+    { id: 'cyclic_encoding', label: 'Cyclique (sin/cos)', hint: 'C.3 — préserve la continuité (23h proche de 0h) : 2 colonnes générées.' },
+    { id: 'high_cardinality', label: 'Haute cardinalité', hint: 'C.4 — au-delà de 50 modalités, regrouper, encoder par fréquence ou par la cible.' },
+    { id: 'derived_column', label: 'Colonne dérivée', hint: 'Créer une variable à partir d\'une ou deux colonnes numériques.' },
+];
+
+const DATETIME_PARTS: { id: DatetimePart; label: string }[] = [
+    { id: 'year', label: 'Année' },
+    { id: 'month', label: 'Mois' },
+    { id: 'day', label: 'Jour' },
+    { id: 'weekday', label: 'Jour de la semaine' },
+    { id: 'hour', label: 'Heure' },
+];
+
+const CARDINALITY_STRATEGIES: { id: CardinalityStrategy; label: string }[] = [
+    { id: 'other', label: 'Regrouper les modalités rares en « other »' },
+    { id: 'frequency', label: 'Frequency encoding (nb d\'occurrences)' },
+    { id: 'target', label: 'Target encoding (lissé, avec validation croisée)' },
+];
+
+const OPERATORS: { id: DerivedOperator; label: string; symbol: string }[] = [
+    { id: 'add', label: 'A + B', symbol: '+' },
+    { id: 'subtract', label: 'A − B', symbol: '−' },
+    { id: 'multiply', label: 'A × B', symbol: '×' },
+    { id: 'divide', label: 'A ÷ B', symbol: '÷' },
+    { id: 'log1p', label: 'log(1 + A)', symbol: 'log1p' },
+    { id: 'sqrt', label: '√A', symbol: '√' },
+    { id: 'square', label: 'A²', symbol: '²' },
+];
+
+const PREVIEW_ROWS = 8;
+const HIGH_CARDINALITY = 50;
+
+const describeAction = (action: EngineeringAction): string => {
+    switch (action.type) {
+        case 'drop_columns':
+            return `Suppression des identifiants : ${action.columns.map(c => `« ${c} »`).join(', ')}`;
+        case 'datetime_features':
+            return `Extraction temporelle de « ${action.column} » (${action.parts.map(p => DATETIME_PARTS.find(d => d.id === p)?.label.toLowerCase()).join(', ')})${action.drop_original ? ' — colonne d\'origine supprimée' : ''}`;
+        case 'cyclic_encoding':
+            return `Encodage cyclique sin/cos de « ${action.column} » (période ${action.period})`;
+        case 'high_cardinality':
+            return action.strategy === 'other'
+                ? `« ${action.column} » : ${action.top_n} modalités conservées, les autres regroupées en « other »`
+                : action.strategy === 'frequency'
+                    ? `Frequency encoding de « ${action.column} »`
+                    : `Target encoding de « ${action.column} » sur « ${action.target} » (lissage ${action.smoothing})`;
+        case 'derived_column': {
+            const op = OPERATORS.find(o => o.id === action.operator)?.label || action.operator;
+            const right = action.right ?? String(action.constant ?? '');
+            return `Colonne dérivée « ${action.name} » = ${op.replace('A', action.left).replace('B', right)}`;
+        }
+    }
+};
+
+export const EngineeringStep: React.FC<EngineeringStepProps> = ({ dataset, target, onApply, onNext }) => {
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const columns = useMemo(() => dataset.columnInfo || [], [dataset]);
+    const [tool, setTool] = useState<Tool>('drop_columns');
+    const [isApplying, setIsApplying] = useState(false);
+    const [applied, setApplied] = useState<string[]>([]);
+
+    // Sélections de l'utilisateur ; les valeurs par défaut suivent les colonnes encore présentes
+    const [dropSelection, setDropSelection] = useState<string[] | null>(null);
+    const [dateColumn, setDateColumn] = useState('');
+    const [dateParts, setDateParts] = useState<DatetimePart[]>(['year', 'month', 'weekday']);
+    const [dropDate, setDropDate] = useState(true);
+    const [cyclicColumn, setCyclicColumn] = useState('');
+    const [period, setPeriod] = useState<number | null>(null);
+    const [dropCyclic, setDropCyclic] = useState(false);
+    const [cardColumn, setCardColumn] = useState('');
+    const [cardStrategy, setCardStrategy] = useState<CardinalityStrategy>('other');
+    const [topN, setTopN] = useState(20);
+    const [smoothing, setSmoothing] = useState(10);
+    const [derivedName, setDerivedName] = useState('');
+    const [operator, setOperator] = useState<DerivedOperator>('divide');
+    const [left, setLeft] = useState('');
+    const [right, setRight] = useState('');
+    const [constant, setConstant] = useState('');
+
+    const names = columns.map(c => c.name);
+    const numericNames = columns.filter(c => c.type === 'numeric').map(c => c.name);
+    const dateNames = columns.filter(c => c.type === 'datetime').map(c => c.name);
+    const categoricalNames = columns.filter(c => c.type === 'categorical' && c.name !== target).map(c => c.name);
+    const suggestedIds = columns.filter(c => c.name !== target && isIdentifierColumn(c, rows.length)).map(c => c.name);
+    const pick = (value: string, options: string[]) => options.includes(value) ? value : options[0] || '';
+
+    const selectedDrop = (dropSelection ?? suggestedIds).filter(c => names.includes(c));
+    const selectedDate = pick(dateColumn, dateNames);
+    const selectedCyclic = pick(cyclicColumn, numericNames);
+    const selectedCard = pick(cardColumn, [...categoricalNames].sort((a, b) =>
+        (columns.find(c => c.name === b)?.uniqueCount || 0) - (columns.find(c => c.name === a)?.uniqueCount || 0)));
+    const selectedLeft = pick(left, numericNames);
+    const isUnary = UNARY_OPERATORS.includes(operator);
+    const selectedRight = right === '__constant__' ? '' : pick(right, numericNames.filter(n => n !== selectedLeft));
+    const cardinality = columns.find(c => c.name === selectedCard)?.uniqueCount || 0;
+
+    const action: EngineeringAction | null = (() => {
+        switch (tool) {
+            case 'drop_columns':
+                return selectedDrop.length ? { type: 'drop_columns', columns: selectedDrop } : null;
+            case 'datetime_features':
+                return selectedDate && dateParts.length ? { type: 'datetime_features', column: selectedDate, parts: dateParts, drop_original: dropDate } : null;
+            case 'cyclic_encoding':
+                return selectedCyclic ? { type: 'cyclic_encoding', column: selectedCyclic, period: period ?? guessCyclePeriod(selectedCyclic), drop_original: dropCyclic } : null;
+            case 'high_cardinality':
+                if (!selectedCard || (cardStrategy === 'target' && !target)) return null;
+                return { type: 'high_cardinality', column: selectedCard, strategy: cardStrategy, top_n: topN, smoothing, ...(cardStrategy === 'target' ? { target } : {}) };
+            case 'derived_column': {
+                const name = derivedName.trim() || `${selectedLeft}_${operator}${isUnary ? '' : `_${selectedRight || 'k'}`}`;
+                if (!selectedLeft || names.includes(name)) return null;
+                if (isUnary) return { type: 'derived_column', name, operator, left: selectedLeft };
+                if (right === '__constant__') {
+                    const k = Number(constant);
+                    return constant.trim() !== '' && Number.isFinite(k) ? { type: 'derived_column', name, operator, left: selectedLeft, constant: k } : null;
+                }
+                return selectedRight ? { type: 'derived_column', name, operator, left: selectedLeft, right: selectedRight } : null;
+            }
+        }
+    })();
+
+    // Aperçu : colonnes touchées avant → après sur les premières lignes
+    const preview = (() => {
+        if (!action) return null;
+        const after = applyEngineeringAction(rows, action).slice(0, PREVIEW_ROWS);
+        const before = rows.slice(0, PREVIEW_ROWS);
+        const beforeKeys = new Set(Object.keys(before[0] || {}));
+        const afterKeys = Object.keys(after[0] || {});
+        const added = afterKeys.filter(k => !beforeKeys.has(k));
+        const removed = [...beforeKeys].filter(k => !afterKeys.includes(k));
+        const changed = action.type === 'high_cardinality' && action.strategy === 'other' ? [action.column] : [];
+        const source = action.type === 'drop_columns' ? action.columns
+            : action.type === 'derived_column' ? [action.left, ...(action.right ? [action.right] : [])]
+                : [action.column];
+        return { before, after, added, removed, changed, source: [...new Set(source)] };
+    })();
+
+    const handleApply = async () => {
+        if (!action) return;
+        const journal = [describeAction(action)];
+        setIsApplying(true);
+        const { type, ...params } = action;
+        const ok = await onApply(type, params, journal);
+        setIsApplying(false);
+        if (ok) {
+            setApplied(prev => [...prev, ...journal]);
+            setDropSelection(null);
+            setDerivedName('');
+        }
+    };
+
+    const label = 'block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70';
+    const select = 'w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer';
+    const input = 'w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none';
+    const empty = (text: string) => <p className="text-sm text-gray-400 italic">{text}</p>;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <Code2 className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Atelier de feature engineering</h3>
+                        <p className="text-xs text-gray-500">Section C — chaque action est prévisualisée sur l'échantillon puis appliquée au dataset complet.</p>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {TOOLS.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => setTool(t.id)}
+                            className={`px-3 py-2 rounded-xl border-2 text-xs font-bold transition-all ${tool === t.id ? 'border-blue-400 bg-blue-50 text-navy' : 'border-gray-100 bg-white text-gray-500 hover:border-blue-200'}`}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="flex items-center gap-2 text-xs text-gray-500 mb-6 ml-1">
+                    <Info className="h-3.5 w-3.5 text-primary" /> {TOOLS.find(t => t.id === tool)?.hint}
+                </p>
+
+                <div className="bg-gray-50 rounded-xl border border-gray-100 p-5 mb-6">
+                    {tool === 'drop_columns' && (
+                        <div>
+                            <label className={label}>Colonnes à supprimer {suggestedIds.length > 0 && `(${suggestedIds.length} suggérée(s))`}</label>
+                            <div className="flex flex-wrap gap-2">
+                                {names.filter(n => n !== target).map(n => (
+                                    <button
+                                        key={n}
+                                        onClick={() => setDropSelection(selectedDrop.includes(n) ? selectedDrop.filter(c => c !== n) : [...selectedDrop, n])}
+                                        className={`px-3 py-1.5 rounded-lg border text-xs font-semibold transition-all ${selectedDrop.includes(n) ? 'border-primary bg-primary text-white' : 'border-gray-200 bg-white text-navy hover:border-primary/40'}`}
+                                    >
+                                        {n}{suggestedIds.includes(n) ? ' · ID' : ''}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {tool === 'datetime_features' && (dateNames.length === 0 ? empty('Aucune colonne de type date détectée.') : (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className={label}>Colonne date</label>
+                                <select value={selectedDate} onChange={(e) => setDateColumn(e.target.value)} className={select}>
+                                    {dateNames.map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className={label}>Composantes</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {DATETIME_PARTS.map(p => (
+                                        <label key={p.id} className="flex items-center gap-2 bg-white border border-gray-200 rounded-lg px-3 py-1.5 text-xs font-semibold text-navy cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={dateParts.includes(p.id)}
+                                                onChange={() => setDateParts(prev => prev.includes(p.id) ? prev.filter(x => x !== p.id) : [...prev, p.id])}
+                                                className="accent-primary"
+                                            />
+                                            {p.label}
+                                        </label>
+                                    ))}
+                                </div>
+                                <label className="flex items-center gap-2 mt-3 text-xs font-medium text-navy cursor-pointer">
+                                    <input type="checkbox" checked={dropDate} onChange={(e) => setDropDate(e.target.checked)} className="accent-primary" />
+                                    Supprimer la colonne d'origine après extraction (recommandé)
+                                </label>
+                            </div>
+                        </div>
+                    ))}
+
+                    {tool === 'cyclic_encoding' && (numericNames.length === 0 ? empty('Aucune colonne numérique disponible — extrayez d\'abord les composantes d\'une date.') : (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className={label}>Colonne</label>
+                                <select value={selectedCyclic} onChange={(e) => { setCyclicColumn(e.target.value); setPeriod(null); }} className={select}>
+                                    {numericNames.map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={label}>Période</label>
+                                <input
+                                    type="number"
+                                    min={2}
+                                    value={period ?? guessCyclePeriod(selectedCyclic)}
+                                    onChange={(e) => { const v = Number(e.target.value); if (Number.isFinite(v) && v > 0) setPeriod(v); }}
+                                    className={input}
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 self-end pb-2 text-xs font-medium text-navy cursor-pointer">
+                                <input type="checkbox" checked={dropCyclic} onChange={(e) => setDropCyclic(e.target.checked)} className="accent-primary" />
+                                Supprimer la colonne d'origine
+                            </label>
+                        </div>
+                    ))}
+
+                    {tool === 'high_cardinality' && (categoricalNames.length === 0 ? empty('Aucune colonne catégorielle disponible.') : (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className={label}>Colonne</label>
+                                <select value={selectedCard} onChange={(e) => setCardColumn(e.target.value)} className={select}>
+                                    {categoricalNames.map(n => {
+                                        const count = columns.find(c => c.name === n)?.uniqueCount || 0;
+                                        return <option key={n} value={n}>{n} ({count} modalités{count > HIGH_CARDINALITY ? ' ⚠' : ''})</option>;
+                                    })}
+                                </select>
+                                {cardinality <= HIGH_CARDINALITY && (
+                                    <p className="text-[11px] text-gray-500 mt-1 ml-1">≤ {HIGH_CARDINALITY} modalités : un OneHotEncoder standard suffit généralement.</p>
+                                )}
+                            </div>
+                            <div>
+                                <label className={label}>Stratégie</label>
+                                <select value={cardStrategy} onChange={(e) => setCardStrategy(e.target.value as CardinalityStrategy)} className={select}>
+                                    {CARDINALITY_STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                                </select>
+                            </div>
+                            {cardStrategy === 'other' && (
+                                <div>
+                                    <label className={label}>Modalités conservées</label>
+                                    <input type="number" min={1} value={topN} onChange={(e) => { const v = Number(e.target.value); if (v >= 1) setTopN(Math.round(v)); }} className={input} />
+                                </div>
+                            )}
+                            {cardStrategy === 'target' && (target ? (
+                                <div>
+                                    <label className={label}>Lissage (m)</label>
+                                    <input type="number" min={0} value={smoothing} onChange={(e) => { const v = Number(e.target.value); if (v >= 0) setSmoothing(v); }} className={input} />
+                                    <p className="text-[11px] text-gray-500 mt-1 ml-1">Cible : « {target} » — encodage calculé par validation croisée côté serveur.</p>
+                                </div>
+                            ) : (
+                                <p className="text-xs text-primary font-semibold self-end pb-2">Choisissez une colonne cible à l'étape Objectifs pour le target encoding.</p>
+                            ))}
+                        </div>
+                    ))}
+
+                    {tool === 'derived_column' && (numericNames.length === 0 ? empty('Aucune colonne numérique disponible.') : (
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <div>
+                                <label className={label}>Colonne A</label>
+                                <select value={selectedLeft} onChange={(e) => setLeft(e.target.value)} className={select}>
+                                    {numericNames.map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={label}>Opération</label>
+                                <select value={operator} onChange={(e) => setOperator(e.target.value as DerivedOperator)} className={select}>
+                                    {OPERATORS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                                </select>
+                            </div>
+                            {!isUnary && (
+                                <div>
+                                    <label className={label}>B</label>
+                                    <select value={right === '__constant__' ? right : selectedRight} onChange={(e) => setRight(e.target.value)} className={select}>
+                                        {numericNames.filter(n => n !== selectedLeft).map(n => <option key={n} value={n}>{n}</option>)}
+                                        <option value="__constant__">Constante…</option>
+                                    </select>
+                                    {right === '__constant__' && (
+                                        <input type="number" value={constant} onChange={(e) => setConstant(e.target.value)} placeholder="Valeur" className={`${input} mt-2`} />
+                                    )}
+                                </div>
+                            )}
+                            <div>
+                                <label className={label}>Nom de la colonne</label>
+                                <input value={derivedName} onChange={(e) => setDerivedName(e.target.value)} placeholder={action?.type === 'derived_column' ? action.name : 'nouvelle_colonne'} className={input} />
+                                {names.includes(derivedName.trim()) && <p className="text-[11px] text-primary font-semibold mt-1 ml-1">Ce nom existe déjà.</p>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Aperçu sur les premières lignes de l'échantillon */}
+                {preview && (
+                    <div className="mb-6">
+                        <div className="flex flex-wrap items-center gap-2 mb-3">
+                            <span className="text-[10px] font-black text-navy uppercase tracking-widest">Aperçu ({PREVIEW_ROWS} lignes)</span>
+                            {preview.added.map(c => <span key={c} className="px-2 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-blue-700">+ {c}</span>)}
+                            {preview.removed.map(c => <span key={c} className="px-2 py-0.5 rounded text-[10px] font-bold bg-primary-50 text-primary line-through">{c}</span>)}
+                        </div>
+                        <div className="overflow-x-auto rounded-xl border border-gray-100 custom-scrollbar">
+                            <table className="w-full text-xs text-left">
+                                <thead className="bg-gray-50 uppercase text-[10px] tracking-wider">
+                                    <tr>
+                                        {preview.source.map(c => <th key={`s-${c}`} className="p-3 font-black text-gray-500 whitespace-nowrap">{c}{preview.changed.includes(c) ? ' (avant)' : ''}</th>)}
+                                        {preview.changed.map(c => <th key={`c-${c}`} className="p-3 font-black text-primary whitespace-nowrap">{c} (après)</th>)}
+                                        {preview.added.map(c => <th key={`a-${c}`} className="p-3 font-black text-primary whitespace-nowrap">{c}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {preview.before.map((row, i) => (
+                                        <tr key={i}>
+                                            {preview.source.map(c => (
+                                                <td key={`s-${c}`} className={`p-3 whitespace-nowrap ${preview.removed.includes(c) ? 'text-gray-400 line-through' : 'text-navy'}`}>{String(row[c] ?? '-')}</td>
+                                            ))}
+                                            {preview.changed.map(c => <td key={`c-${c}`} className="p-3 whitespace-nowrap font-semibold text-primary">{String(preview.after[i]?.[c] ?? '-')}</td>)}
+                                            {preview.added.map(c => <td key={`a-${c}`} className="p-3 whitespace-nowrap font-semibold text-primary">{String(preview.after[i]?.[c] ?? '-')}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="text-[11px] text-gray-400 mt-2 ml-1">{describeAction(action as EngineeringAction)}</p>
+                    </div>
+                )}
+
+                {applied.length > 0 && (
+                    <div className="mb-2 bg-blue-50 text-blue-700 rounded-xl p-4 border border-blue-100 text-sm space-y-1">
+                        {applied.map((entry, i) => (
+                            <div key={i} className="flex items-center gap-2"><CheckCircle className="h-4 w-4 shrink-0" /> {entry}</div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
+                    <button
+                        onClick={handleApply}
+                        disabled={isApplying || !action}
+                        className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isApplying ? 'Application...' : "Appliquer l'action"}
+                    </button>
+                    <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+                        Continuer <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EngineeringStep;
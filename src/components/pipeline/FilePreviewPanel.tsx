@@ -0,0 +1,197 @@
+import React from 'react';
+import { AlertTriangle, FileSpreadsheet, Upload, X, XCircle } from 'lucide-react';
+import { DELIMITERS, ENCODINGS, PREVIEW_ROWS, type FilePreview, type PreviewOptions } from '../../utils/filePreview';
+import { hasPendingUpload, type UploadProgress } from '../../services/chunkedUpload';
+
+interface FilePreviewPanelProps {
+    file: File;
+    preview: FilePreview;
+    isParsing: boolean;
+    isUploading: boolean;
+    uploadError: string | null;
+    uploadProgress: UploadProgress | null;
+    onCancelUpload: () => void;
+    onChangeOptions: (options: PreviewOptions) => void;
+    onCancel: () => void;
+    onConfirm: () => void;
+}
+
+const TYPE_BADGES: Record<string, string> = {
+    numeric: 'bg-blue-50 text-blue-700',
+    categorical: 'bg-primary-50 text-primary',
+    datetime: 'bg-navy-100 text-navy',
+    boolean: 'bg-gray-100 text-gray-600',
+    unknown: 'bg-gray-50 text-gray-400',
+};
+
+const formatSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} Ko` : `${(bytes / 1024 / 1024).toFixed(1)} Mo`;
+
+export const FilePreviewPanel: React.FC<FilePreviewPanelProps> = ({
+    file, preview, isParsing, isUploading, uploadError, uploadProgress, onCancelUpload, onChangeOptions, onCancel, onConfirm
+}) => {
+    const selectClass = 'w-full bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none transition-all cursor-pointer font-medium';
+    const hasErrors = preview.errors.length > 0;
+    const canResume = !!uploadError && hasPendingUpload(file);
+    const percent = uploadProgress && uploadProgress.total ? Math.min(100, (uploadProgress.loaded / uploadProgress.total) * 100) : 0;
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center shrink-0">
+                        <FileSpreadsheet className="h-5 w-5" />
+                    </div>
+                    <div className="min-w-0">
+                        <div className="font-bold text-navy truncate">{file.name}</div>
+                        <div className="text-xs text-gray-500">
+                            {formatSize(file.size)} · {preview.headers.length} colonnes · aperçu des {Math.min(preview.rows.length, PREVIEW_ROWS)} premières lignes
+                        </div>
+                    </div>
+                </div>
+                <button onClick={onCancel} disabled={isUploading} className="p-2 rounded-lg hover:bg-gray-100 transition-colors" title="Changer de fichier">
+                    <X className="h-5 w-5 text-gray-500" />
+                </button>
+            </div>
+
+            {/* Paramètres de lecture détectés (modifiables) */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 bg-gray-50 rounded-xl p-4 border border-gray-100">
+                {preview.kind === 'csv' && (
+                    <>
+                        <label className="space-y-1">
+                            <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Séparateur</span>
+                            <select value={preview.delimiter || ','} onChange={(e) => onChangeOptions({ delimiter: e.target.value })} className={selectClass}>
+                                {DELIMITERS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Encodage</span>
+                            <select value={preview.encoding} onChange={(e) => onChangeOptions({ encoding: e.target.value })} className={selectClass}>
+                                {ENCODINGS.map(enc => <option key={enc} value={enc}>{enc.toUpperCase()}</option>)}
+                            </select>
+                        </label>
+                    </>
+                )}
+                {preview.kind === 'excel' && preview.sheets && (
+                    <label className="space-y-1 col-span-2">
+                        <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Feuille ({preview.sheets.length})</span>
+                        <select value={preview.sheet} onChange={(e) => onChangeOptions({ sheet: e.target.value })} className={selectClass}>
+                            {preview.sheets.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </label>
+                )}
+                {(preview.kind === 'csv' || preview.kind === 'excel') && (
+                    <label className="flex items-center gap-2 self-end pb-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={preview.hasHeader}
+                            onChange={(e) => onChangeOptions({ hasHeader: e.target.checked })}
+                            className="w-4 h-4 accent-primary"
+                        />
+                        <span className="text-sm font-medium text-navy">Première ligne = en-têtes</span>
+                    </label>
+                )}
+                {isParsing && (
+                    <div className="flex items-center gap-2 self-end pb-2 text-xs text-gray-500">
+                        <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" /> Relecture...
+                    </div>
+                )}
+            </div>
+
+            {(hasErrors || preview.warnings.length > 0) && (
+                <div className="space-y-2">
+                    {preview.errors.map((e, i) => (
+                        <div key={`e${i}`} className="flex items-start gap-2 text-sm font-semibold text-primary bg-primary-50/50 border border-primary-100 rounded-xl px-4 py-3">
+                            <XCircle className="h-4 w-4 shrink-0 mt-0.5" /> {e}
+                        </div>
+                    ))}
+                    {preview.warnings.map((w, i) => (
+                        <div key={`w${i}`} className="flex items-start gap-2 text-xs font-medium text-navy bg-amber-50 border border-amber-100 rounded-xl px-4 py-2">
+                            <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" /> {w}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {preview.headers.length > 0 && (
+                <div className="overflow-auto rounded-xl border border-gray-100 max-h-[360px] custom-scrollbar">
+                    <table className="w-full text-xs text-left">
+                        <thead className="bg-navy text-white sticky top-0">
+                            <tr>
+                                {preview.columns.map(c => (
+                                    <th key={c.name} className="p-3 font-bold whitespace-nowrap align-top">
+                                        <div>{c.name}</div>
+                                        <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${TYPE_BADGES[c.type]}`}>{c.type}</span>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {preview.rows.map((row, i) => (
+                                <tr key={i} className="hover:bg-blue-50/50 transition-colors">
+                                    {preview.headers.map(h => (
+                                        <td key={h} className="p-3 whitespace-nowrap text-navy border-r border-gray-50">{row[h] === null || row[h] === undefined ? <span className="text-gray-300">-</span> : String(row[h])}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {uploadError && (
+                <div className="flex items-start gap-2 text-sm font-semibold text-primary bg-primary-50/50 border border-primary-100 rounded-xl px-4 py-3">
+                    <XCircle className="h-4 w-4 shrink-0 mt-0.5" /> Échec de l'import : {uploadError}
+                </div>
+            )}
+
+            {isUploading && uploadProgress && (
+                <div className="bg-gray-50 rounded-xl p-4 border border-gray-100 space-y-2">
+                    <div className="flex items-center justify-between text-xs font-bold text-navy">
+                        <span>
+                            {uploadProgress.phase === 'processing'
+                                ? 'Fichier reçu — analyse sur le serveur...'
+                                : uploadProgress.phase === 'retrying'
+                                    ? 'Connexion perdue — nouvel essai...'
+                                    : `Envoi : ${formatSize(uploadProgress.loaded)} / ${formatSize(uploadProgress.total)}`}
+                            {uploadProgress.resumedFrom !== undefined && (
+                                <span className="ml-2 text-primary">(repris à {formatSize(uploadProgress.resumedFrom)})</span>
+                            )}
+                        </span>
+                        <span>{percent.toFixed(0)} %</span>
+                    </div>
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full rounded-full transition-all duration-300 ${uploadProgress.phase === 'processing' ? 'bg-blue-600 animate-pulse' : uploadProgress.phase === 'retrying' ? 'bg-amber-400' : 'bg-primary'}`}
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+                {isUploading && (
+                    <button onClick={onCancelUpload} className="rounded-xl px-6 py-3 border-2 border-primary-100 text-primary font-semibold text-sm hover:bg-primary-50 transition-colors">
+                        Annuler l'import
+                    </button>
+                )}
+                <button onClick={onCancel} disabled={isUploading} className="rounded-xl px-6 py-3 border-2 border-gray-200 text-navy font-semibold text-sm hover:bg-gray-50 transition-colors">
+                    Changer de fichier
+                </button>
+                <button
+                    onClick={onConfirm}
+                    disabled={hasErrors || isParsing || isUploading}
+                    className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isUploading ? (
+                        <><div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" /> Analyse en cours...</>
+                    ) : (
+                        <><Upload className="h-5 w-5" /> {canResume ? "Reprendre l'import" : 'Importer ce fichier'}</>
+                    )}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FilePreviewPanel;
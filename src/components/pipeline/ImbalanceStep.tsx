@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Activity, AlertTriangle, ChevronRight, CheckCircle, Scissors } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ConversionModal } from '../ConversionModal';
+import {
+    imbalanceLevel, previewResampling,
+    type ClassCount, type DatasetInfo, type ImbalanceLevel, type ImbalanceStrategy, type PipelineConfig
+} from '../../utils/dataProcessor';
+
+interface ImbalanceStepProps {
+    dataset: DatasetInfo;
+    config: PipelineConfig | null;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onGoToSplit: () => void;
+    onNext: () => void;
+}
+
+// Stratégies G.2 ; les méthodes de sur-échantillonnage synthétique sont gatées par tier
+const STRATEGIES: { id: ImbalanceStrategy; label: string; description: string; feature?: string }[] = [
+    { id: 'smote', label: 'SMOTE', description: 'Exemples synthétiques par interpolation entre voisins minoritaires.', feature: 'smote' },
+    { id: 'borderline_smote', label: 'Borderline-SMOTE', description: 'SMOTE concentré sur les exemples proches de la frontière.', feature: 'smote' },
+    { id: 'adasyn', label: 'ADASYN', description: 'Génère davantage là où la minorité est difficile à apprendre.', feature: 'smote' },
+    { id: 'undersample', label: 'Sous-échantillonnage', description: 'Retire aléatoirement des lignes majoritaires. Adapté au Big Data.' },
+    { id: 'class_weight', label: 'class_weight', description: 'Aucune ligne modifiée : pondération « balanced » transmise au modèle.' },
+    { id: 'none', label: 'Aucun', description: 'Conserver la distribution d\'origine.' },
+];
+
+const LEVELS: Record<ImbalanceLevel, { label: string; impact: string; className: string }> = {
+    balanced: { label: 'Équilibré', impact: 'Aucun traitement nécessaire.', className: 'bg-blue-50 text-blue-700 border-blue-100' },
+    light: { label: 'Léger', impact: 'Impact faible.', className: 'bg-gray-50 text-navy border-gray-100' },
+    moderate: { label: 'Modéré', impact: 'Surveiller le recall de la minorité.', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+    severe: { label: 'Sévère', impact: 'Traitement OBLIGATOIRE.', className: 'bg-primary-50 text-primary border-primary-100' },
+};
+
+const SYNTHETIC: ImbalanceStrategy[] = ['smote', 'borderline_smote', 'adasyn'];
+
+const recommendedStrategy = (level: ImbalanceLevel, rows: number): ImbalanceStrategy => {
+    if (level === 'balanced' || level === 'light') return 'none';
+    return rows > 100000 ? 'undersample' : 'smote';
+};
+
+const Distribution: React.FC<{ title: string; classes: (ClassCount & { weight?: number })[]; max: number }> = ({ title, classes, max }) => {
+    const total = classes.reduce((acc, c) => acc + c.count, 0) || 1;
+    return (
+        <div className="bg-gray-50 rounded-xl border border-gray-100 p-4">
+            <div className="flex justify-between text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">
+                <span>{title}</span>
+                <span>{total.toLocaleString('fr-FR')} lignes</span>
+            </div>
+            <div className="space-y-2">
+                {classes.map(c => (
+                    <div key={c.label}>
+                        <div className="flex justify-between text-xs mb-1">
+                            <span className="font-bold text-navy truncate">{c.label}</span>
+                            <span className="text-gray-500">
+                                {c.count.toLocaleString('fr-FR')} ({Math.round((c.count / total) * 100)} %){c.weight !== undefined ? ` · poids ${c.weight}` : ''}
+                            </span>
+                        </div>
+                        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary rounded-full transition-all duration-300" style={{ width: `${(c.count / (max || 1)) * 100}%` }} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const ImbalanceStep: React.FC<ImbalanceStepProps> = ({ dataset, config, onApply, onGoToSplit, onNext }) => {
+    const { canAccess, tier } = useAuth();
+    const target = config?.target;
+    const train = dataset.split?.parts.find(p => p.name === 'train');
+    const distribution: ClassCount[] = Object.entries(train?.distribution || {})
+        .map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count);
+    const level = imbalanceLevel(distribution);
+
+    const [choice, setChoice] = useState<ImbalanceStrategy | null>(null);
+    const [ratio, setRatio] = useState(1);
+    const [kNeighbors, setKNeighbors] = useState(5);
+    const [isApplying, setIsApplying] = useState(false);
+    const [applied, setApplied] = useState<string | null>(null);
+    const [blockedFeature, setBlockedFeature] = useState<string | null>(null);
+
+    const recommended = recommendedStrategy(level, train?.rows || 0);
+    const strategy = choice ?? (STRATEGIES.find(s => s.id === recommended)?.feature && !canAccess('smote') ? 'class_weight' : recommended);
+    const projected = previewResampling(distribution, strategy, ratio);
+    const max = Math.max(1, ...distribution.map(c => c.count), ...projected.map(c => c.count));
+    const minorityShare = distribution.length ? Math.min(...distribution.map(c => c.count)) / Math.max(...distribution.map(c => c.count)) : 1;
+    const tooFewNeighbors = SYNTHETIC.includes(strategy) && distribution.some(c => c.count <= kNeighbors);
+
+    const selectStrategy = (id: ImbalanceStrategy) => {
+        const def = STRATEGIES.find(s => s.id === id);
+        if (def?.feature && !canAccess(def.feature)) {
+            setBlockedFeature(def.feature);
+            return;
+        }
+        setChoice(id);
+        setRatio(1);
+    };
+
+    const handleApply = async () => {
+        if (!target) return;
+        const label = STRATEGIES.find(s => s.id === strategy)?.label;
+        const journal = strategy === 'none'
+            ? ['Déséquilibre : distribution conservée']
+            : strategy === 'class_weight'
+                ? [`Déséquilibre : class_weight="balanced" (${projected.map(c => `${c.label} ×${c.weight}`).join(', ')})`]
+                : [`${label} sur le train uniquement (ratio ${ratio}) : ${projected.map(c => `${c.label} ${c.count}`).join(' / ')}`];
+        setIsApplying(true);
+        const ok = await onApply('resampling', {
+            strategy,
+            target,
+            split: 'train',
+            sampling_strategy: ratio,
+            ...(SYNTHETIC.includes(strategy) ? { k_neighbors: kNeighbors } : {}),
+        }, journal);
+        setIsApplying(false);
+        if (ok) setApplied(journal[0]);
+    };
+
+    const header = (
+        <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                <Activity className="h-5 w-5" />
+            </div>
+            <div>
+                <h3 className="text-xl font-bold text-navy">Déséquilibre des classes</h3>
+                <p className="text-xs text-gray-500">Section G — le rééquilibrage ne s'applique qu'au train : validation et test gardent la distribution réelle.</p>
+            </div>
+        </div>
+    );
+
+    const continueButton = (
+        <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+            Continuer <ChevronRight className="h-5 w-5" />
+        </button>
+    );
+
+    if (config?.objective !== 'classification' || !target) {
+        return (
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                {header}
+                <p className="text-sm text-gray-500 mb-6">Le rééquilibrage concerne uniquement la classification : rien à faire pour cet objectif.</p>
+                <div className="flex justify-end">{continueButton}</div>
+            </div>
+        );
+    }
+
+    if (!train) {
+        return (
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                {header}
+                <div className="flex items-start gap-3 bg-amber-50 border border-amber-100 rounded-xl p-4 mb-6 text-sm text-navy">
+                    <AlertTriangle className="h-5 w-5 text-amber-500 shrink-0" />
+                    <span>Aucun split appliqué : rééquilibrer avant la séparation introduirait du leakage dans le test. Effectuez d'abord le split.</span>
+                </div>
+                <div className="flex justify-end gap-3">
+                    <button onClick={onGoToSplit} className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors flex items-center gap-2">
+                        <Scissors className="h-4 w-4" /> Aller au split
+                    </button>
+                    {continueButton}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                {header}
+
+                <div className={`flex items-center justify-between gap-4 rounded-xl border px-4 py-3 mb-6 ${LEVELS[level].className}`}>
+                    <div className="text-sm font-bold">
+                        Niveau G.1 : {LEVELS[level].label} <span className="font-medium">— {LEVELS[level].impact}</span>
+                    </div>
+                    <div className="text-xs font-semibold whitespace-nowrap">
+                        Ratio minorité / majorité : {minorityShare.toFixed(2)}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+                    {STRATEGIES.map(s => (
+                        <button
+                            key={s.id}
+                            onClick={() => selectStrategy(s.id)}
+                            className={`text-left p-4 rounded-xl border-2 transition-all ${strategy === s.id ? 'border-blue-400 bg-blue-50' : 'border-gray-100 bg-white hover:border-blue-200'}`}
+                        >
+                            <div className="font-bold text-sm text-navy mb-1">
+                                {s.label}{s.feature && !canAccess(s.feature) ? ' 🔒' : ''}
+                                {s.id === recommended && <span className="ml-2 text-[9px] font-black uppercase text-primary">Recommandé</span>}
+                            </div>
+                            <p className="text-xs text-gray-500">{s.description}</p>
+                        </button>
+                    ))}
+                </div>
+
+                {(SYNTHETIC.includes(strategy) || strategy === 'undersample') && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-5 bg-gray-50 rounded-xl border border-gray-100 p-5 mb-6">
+                        <div>
+                            <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">
+                                Ratio visé minorité / majorité : {ratio.toFixed(2)}
+                            </label>
+                            <input
+                                type="range"
+                                min={Math.max(0.1, Number(minorityShare.toFixed(2)))}
+                                max={1}
+                                step={0.05}
+                                value={ratio}
+                                onChange={(e) => setRatio(Number(e.target.value))}
+                                className="w-full accent-primary"
+                            />
+                        </div>
+                        {SYNTHETIC.includes(strategy) && (
+                            <div>
+                                <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">Voisins (k_neighbors)</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={20}
+                                    value={kNeighbors}
+                                    onChange={(e) => setKNeighbors(Math.min(20, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+                                    className="w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm outline-none focus:border-primary"
+                                />
+                                {tooFewNeighbors && (
+                                    <p className="text-[11px] text-primary font-semibold mt-1 ml-1">Une classe compte moins de {kNeighbors + 1} lignes : réduisez k.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                    <Distribution title="Train actuel" classes={distribution} max={max} />
+                    <Distribution title={strategy === 'none' ? 'Après (inchangé)' : 'Après rééquilibrage (train)'} classes={projected} max={max} />
+                </div>
+                <p className="text-[11px] text-gray-400 -mt-3 mb-6 ml-1">Validation et test ne sont jamais rééchantillonnés.</p>
+
+                {applied && (
+                    <div className="mb-2 bg-blue-50 text-blue-700 rounded-xl p-4 border border-blue-100 text-sm flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4 shrink-0" /> {applied}
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
+                    <button
+                        onClick={handleApply}
+                        disabled={isApplying || tooFewNeighbors || distribution.length < 2}
+                        className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isApplying ? 'Application...' : 'Appliquer au train'}
+                    </button>
+                    {continueButton}
+                </div>
+            </div>
+
+            {blockedFeature && (
+                <ConversionModal trigger={blockedFeature} currentTier={tier} onClose={() => setBlockedFeature(null)} />
+            )}
+        </div>
+    );
+};
+
+export default ImbalanceStep;
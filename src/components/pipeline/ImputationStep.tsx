@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Database, CheckCircle, ChevronRight, Eye, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { datasetsApi } from '../../services/api';
+import { ConversionModal } from '../ConversionModal';
+import {
+    isMissingValue, mean, std, numericValues, previewImputation, normalizeMissingAnalysis,
+    type DatasetInfo, type DataColumn, type DataRow, type ImputationStrategy, type MissingColumnAnalysis
+} from '../../utils/dataProcessor';
+
+interface ImputationStepProps {
+    dataset: DatasetInfo;
+    datasetId: string;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onNext: () => void;
+}
+
+type ColumnConfig = {
+    strategy: ImputationStrategy;
+    fillValue: string;
+    addIndicator: boolean;
+};
+
+// Stratégies de la section A.2 — `feature` = nom de la feature gatée par tier
+const STRATEGIES: { id: ImputationStrategy; label: string; numericOnly?: boolean; feature?: string }[] = [
+    { id: 'mean', label: 'Moyenne', numericOnly: true },
+    { id: 'median', label: 'Médiane', numericOnly: true },
+    { id: 'mode', label: 'Mode (plus fréquent)' },
+    { id: 'constant', label: 'Constante' },
+    { id: 'ffill', label: 'Forward-fill (temporel)' },
+    { id: 'knn', label: 'KNN Imputer', feature: 'knn_imputer' },
+    { id: 'iterative', label: 'Iterative Imputer', feature: 'iterative_imputer' },
+];
+
+const PREVIEW_ROWS = 8;
+// KNN compare chaque valeur manquante à tous les donneurs : aperçu limité aux premières lignes
+const KNN_PREVIEW_ROWS = 2000;
+
+const buildPreview = (allRows: DataRow[], col: DataColumn, strategy: ImputationStrategy, fillValue: string, numericColumns: string[]) => {
+    const rows = strategy === 'knn' ? allRows.slice(0, KNN_PREVIEW_ROWS) : allRows;
+    const imputed = previewImputation(rows, col.name, strategy, { fillValue, numericColumns });
+    const sample = rows
+        .map((row, index) => ({ index, before: row[col.name], after: imputed[index] }))
+        .filter(r => isMissingValue(r.before))
+        .slice(0, PREVIEW_ROWS);
+    const beforeNums = numericValues(rows, col.name);
+    const afterNums = numericValues(imputed.map(v => ({ v })), 'v');
+    return {
+        col,
+        sample,
+        sampled: rows.length < allRows.length,
+        isNumeric: col.type === 'numeric',
+        before: { mean: mean(beforeNums), std: std(beforeNums) },
+        after: { mean: mean(afterNums), std: std(afterNums) },
+        remaining: imputed.filter(isMissingValue).length,
+    };
+};
+
+export const ImputationStep: React.FC<ImputationStepProps> = ({ dataset, datasetId, onApply, onNext }) => {
+    const { canAccess, tier } = useAuth();
+    const [analysis, setAnalysis] = useState<MissingColumnAnalysis[]>([]);
+    const [overrides, setOverrides] = useState<Record<string, ColumnConfig>>({});
+    const [previewColumn, setPreviewColumn] = useState<string | null>(null);
+    const [blockedFeature, setBlockedFeature] = useState<string | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        datasetsApi.analyzeMissing(datasetId)
+            .then(res => setAnalysis(normalizeMissingAnalysis(res.data)))
+            .catch(err => console.error("Missing analysis error", err));
+    }, [datasetId]);
+
+    const missingColumns = useMemo(
+        () => (dataset.columnInfo || []).filter(c => c.nullCount > 0),
+        [dataset]
+    );
+    const numericColumns = useMemo(
+        () => (dataset.columnInfo || []).filter(c => c.type === 'numeric').map(c => c.name),
+        [dataset]
+    );
+
+    // Algorithme de décision A.4, affiné par la recommandation du backend si disponible
+    const suggest = (col: DataColumn): ColumnConfig => {
+        const info = analysis.find(a => a.name === col.name);
+        const allowed = STRATEGIES.filter(s => (!s.numericOnly || col.type === 'numeric') && (!s.feature || canAccess(s.feature)));
+        const recommended = allowed.find(s => s.id === info?.recommendation);
+        let strategy: ImputationStrategy = col.type === 'numeric' ? 'median' : col.type === 'datetime' ? 'ffill' : 'mode';
+        if (recommended) strategy = recommended.id;
+        else if (info?.mechanism === 'MNAR' && col.type === 'numeric' && canAccess('iterative_imputer')) strategy = 'iterative';
+        return { strategy, fillValue: '', addIndicator: info?.mechanism === 'MNAR' };
+    };
+
+    const configFor = (col: DataColumn): ColumnConfig => overrides[col.name] ?? suggest(col);
+
+    const updateConfig = (col: DataColumn, patch: Partial<ColumnConfig>) => {
+        setOverrides(prev => ({ ...prev, [col.name]: { ...configFor(col), ...patch } }));
+    };
+
+    const selectStrategy = (col: DataColumn, strategy: ImputationStrategy) => {
+        const def = STRATEGIES.find(s => s.id === strategy);
+        if (def?.feature && !canAccess(def.feature)) {
+            setBlockedFeature(def.feature);
+            return;
+        }
+        updateConfig(col, { strategy });
+    };
+
+    const previewCol = missingColumns.find(c => c.name === previewColumn);
+    const previewConfig = previewCol ? configFor(previewCol) : null;
+    const previewStrategy = previewConfig?.strategy;
+    const previewFill = previewConfig?.fillValue ?? '';
+    // Imputation locale recalculée seulement quand la colonne, la stratégie ou les données changent
+    const preview = useMemo(
+        () => previewCol && previewStrategy
+            ? buildPreview(dataset.data || [], previewCol, previewStrategy, previewFill, numericColumns)
+            : null,
+        [previewCol, previewStrategy, previewFill, dataset.data, numericColumns]
+    );
+
+    const handleApply = async () => {
+        const columns: Record<string, { strategy: ImputationStrategy; fill_value?: string; add_indicator: boolean }> = {};
+        const journal: string[] = [];
+        for (const col of missingColumns) {
+            const cfg = configFor(col);
+            columns[col.name] = {
+                strategy: cfg.strategy,
+                ...(cfg.strategy === 'constant' ? { fill_value: cfg.fillValue } : {}),
+                add_indicator: cfg.addIndicator,
+            };
+            const label = STRATEGIES.find(s => s.id === cfg.strategy)?.label || cfg.strategy;
+            journal.push(`Imputation (${label}${cfg.strategy === 'constant' ? ` = "${cfg.fillValue}"` : ''}) sur « ${col.name} »`);
+            if (cfg.addIndicator) journal.push(`Indicateur binaire « ${col.name}_was_missing » créé avant imputation`);
+        }
+        setIsApplying(true);
+        const ok = await onApply('imputation', { columns }, journal);
+        setIsApplying(false);
+        if (ok) {
+            setOverrides({});
+            setPreviewColumn(null);
+        }
+    };
+
+    const hasInvalidConstant = missingColumns.some(c => {
+        const cfg = configFor(c);
+        return cfg.strategy === 'constant' && cfg.fillValue.trim() === '';
+    });
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <Database className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Imputation des valeurs manquantes</h3>
+                        <p className="text-xs text-gray-500">Choisissez une stratégie par colonne (Section A) — les suggestions suivent l'algorithme de décision A.4.</p>
+                    </div>
+                </div>
+
+                {missingColumns.length === 0 ? (
+                    <div className="mt-6 flex items-center gap-3 bg-blue-50 text-blue-700 rounded-xl p-4 border border-blue-100">
+                        <CheckCircle className="h-5 w-5" />
+                        <span className="font-bold text-sm">Aucune valeur manquante détectée — rien à imputer.</span>
+                    </div>
+                ) : (
+                    <div className="mt-6 overflow-x-auto border border-gray-100 rounded-xl custom-scrollbar">
+                        <table className="w-full text-sm min-w-[800px]">
+                            <thead className="bg-gray-50 uppercase text-[10px] tracking-wider">
+                                <tr>
+                                    <th className="text-left p-3 font-black text-navy">Colonne</th>
+                                    <th className="text-left p-3 font-black text-navy">Type</th>
+                                    <th className="text-center p-3 font-black text-navy">NaN %</th>
+                                    <th className="text-center p-3 font-black text-navy">Mécanisme</th>
+                                    <th className="text-left p-3 font-black text-navy">Stratégie</th>
+                                    <th className="text-center p-3 font-black text-navy">Indicateur</th>
+                                    <th className="text-right p-3 font-black text-navy">Aperçu</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {missingColumns.map((col, i) => {
+                                    const cfg = configFor(col);
+                                    const info = analysis.find(a => a.name === col.name);
+                                    return (
+                                        <tr key={col.name} className={`${i % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'} ${previewColumn === col.name ? 'ring-2 ring-inset ring-primary/20' : ''}`}>
+                                            <td className="p-3 font-medium text-navy-800">{col.name}</td>
+                                            <td className="p-3">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${col.type === 'numeric' ? 'bg-blue-100 text-blue-700' : 'bg-primary-50 text-primary-700'}`}>
+                                                    {col.type}
+                                                </span>
+                                            </td>
+                                            <td className="p-3 text-center">
+                                                <span className={col.nullPercentage > 30 ? 'text-primary font-bold' : 'text-blue-600'}>
+                                                    {col.nullPercentage.toFixed(1)}%
+                                                </span>
+                                            </td>
+                                            <td className="p-3 text-center">
+                                                {info?.mechanism ? (
+                                                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${info.mechanism === 'MNAR' ? 'bg-navy text-white' : 'bg-blue-50 text-blue-600'}`}>
+                                                        {info.mechanism}
+                                                    </span>
+                                                ) : <span className="text-gray-300">—</span>}
+                                            </td>
+                                            <td className="p-3">
+                                                <div className="flex items-center gap-2">
+                                                    <select
+                                                        value={cfg.strategy}
+                                                        onChange={(e) => selectStrategy(col, e.target.value as ImputationStrategy)}
+                                                        className="bg-white border border-gray-200 rounded-lg px-3 py-1.5 text-xs font-medium focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none cursor-pointer"
+                                                    >
+                                                        {STRATEGIES.filter(s => !s.numericOnly || col.type === 'numeric').map(s => (
+                                                            <option key={s.id} value={s.id}>
+                                                                {s.label}{s.feature && !canAccess(s.feature) ? ' 🔒' : ''}
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                    {cfg.strategy === 'constant' && (
+                                                        <input
+                                                            value={cfg.fillValue}
+                                                            onChange={(e) => updateConfig(col, { fillValue: e.target.value })}
+                                                            placeholder={col.type === 'numeric' ? '0' : 'Absent'}
+                                                            className="w-24 border border-gray-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-primary"
+                                                        />
+                                                    )}
+                                                </div>
+                                            </td>
+                                            <td className="p-3 text-center">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={cfg.addIndicator}
+                                                    onChange={(e) => updateConfig(col, { addIndicator: e.target.checked })}
+                                                    title="Créer une colonne binaire avant imputation (recommandé pour les MNAR)"
+                                                    className="accent-primary cursor-pointer"
+                                                />
+                                            </td>
+                                            <td className="p-3 text-right">
+                                                <button
+                                                    onClick={() => setPreviewColumn(previewColumn === col.name ? null : col.name)}
+                                                    className="inline-flex items-center gap-1 px-3 py-1 rounded-lg text-[10px] font-bold uppercase text-primary hover:bg-primary-50 transition-colors"
+                                                >
+                                                    <Eye className="h-3 w-3" /> Voir
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {preview && (
+                    <div className="mt-6 bg-gray-50 rounded-xl border border-gray-100 p-4">
+                        <h4 className="font-semibold text-navy text-sm mb-3">
+                            Aperçu sur l'échantillon — « {preview.col.name} »
+                        </h4>
+                        {preview.isNumeric && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                                {[
+                                    { label: 'Moyenne avant', value: preview.before.mean },
+                                    { label: 'Moyenne après', value: preview.after.mean },
+                                    { label: 'Écart-type avant', value: preview.before.std },
+                                    { label: 'Écart-type après', value: preview.after.std },
+                                ].map(({ label, value }) => (
+                                    <div key={label} className="bg-white rounded-lg p-3 border border-gray-100">
+                                        <div className="text-[10px] text-gray-400 uppercase font-bold">{label}</div>
+                                        <div className="text-sm font-black text-navy">{Number.isFinite(value) ? value.toFixed(3) : '—'}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {preview.sample.length === 0 ? (
+                            <p className="text-xs text-gray-400 italic">Aucune valeur manquante dans l'échantillon chargé.</p>
+                        ) : (
+                            <table className="w-full text-xs bg-white rounded-lg overflow-hidden">
+                                <thead className="bg-primary-50">
+                                    <tr>
+                                        <th className="p-2 text-left font-semibold text-primary-700">Ligne</th>
+                                        <th className="p-2 text-left font-semibold text-primary-700">Avant</th>
+                                        <th className="p-2 text-left font-semibold text-primary-700">Après</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.sample.map(r => (
+                                        <tr key={r.index} className="border-t border-gray-50">
+                                            <td className="p-2 text-gray-400">#{r.index + 1}</td>
+                                            <td className="p-2 text-primary/60 italic">NaN</td>
+                                            <td className={`p-2 font-bold ${isMissingValue(r.after) ? 'text-primary/60 italic' : 'text-navy'}`}>
+                                                {isMissingValue(r.after) ? 'NaN' : String(r.after)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        {preview.remaining > 0 && (
+                            <p className="mt-3 text-[11px] text-primary flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3" /> {preview.remaining} valeur(s) resteraient manquantes avec cette stratégie.
+                            </p>
+                        )}
+                        {(previewStrategy === 'knn' || previewStrategy === 'iterative') && (
+                            <p className="mt-2 text-[10px] text-gray-400 italic">
+                                Approximation locale{preview.sampled ? ` sur les ${KNN_PREVIEW_ROWS} premières lignes` : ''} : le calcul exact est réalisé par le serveur.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-end gap-3 pt-6">
+                    {missingColumns.length > 0 && (
+                        <button
+                            onClick={handleApply}
+                            disabled={isApplying || hasInvalidConstant}
+                            className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isApplying ? 'Application...' : `Appliquer l'imputation (${missingColumns.length} colonne${missingColumns.length > 1 ? 's' : ''})`}
+                        </button>
+                    )}
+                    <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+                        Continuer <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+
+            {blockedFeature && (
+                <ConversionModal trigger={blockedFeature} currentTier={tier} onClose={() => setBlockedFeature(null)} />
+            )}
+            {Object.keys(overrides).length > 0 && (
+                <p className="text-[11px] text-gray-400 text-center italic">
+                    Vos choix manuels remplacent ceux de l'Auto-Pilot pour ces colonnes.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ImputationStep;
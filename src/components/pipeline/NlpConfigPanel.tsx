@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Type } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { datasetsApi } from '../../services/api';
+import { ConversionModal } from '../ConversionModal';
+import {
+    isMissingValue, NLP_FEATURES, NLP_MODELS, topTfidfTerms,
+    type DataRow, type NlpMethod, type StopWordsLanguage, type TextColumnConfig, type TextReduction
+} from '../../utils/dataProcessor';
+
+interface NlpConfigPanelProps {
+    columns: string[];
+    rows: DataRow[];
+    datasetId: string | null;
+    value: Record<string, TextColumnConfig>;
+    onChange: (column: string, config: TextColumnConfig) => void;
+}
+
+const METHODS: { id: NlpMethod; label: string }[] = [
+    { id: 'tfidf', label: 'TF-IDF' },
+    { id: 'word2vec', label: 'Word2Vec (moyenne des mots)' },
+    { id: 'bert', label: 'Sentence Embeddings (BERT)' },
+    { id: 'none', label: 'Ignorer la colonne' },
+];
+
+const NGRAMS: { range: [number, number]; label: string }[] = [
+    { range: [1, 1], label: 'Unigrammes' },
+    { range: [1, 2], label: 'Uni + bigrammes' },
+    { range: [1, 3], label: "Jusqu'aux trigrammes" },
+];
+
+const STOP_WORD_LABELS: Record<StopWordsLanguage, string> = { french: 'Français', english: 'Anglais', none: 'Aucun' };
+
+const REDUCTIONS: { id: TextReduction; label: string }[] = [
+    { id: 'none', label: 'Aucune' },
+    { id: 'svd', label: 'TruncatedSVD' },
+    { id: 'pca', label: 'PCA' },
+];
+
+// Aperçu calculé sur un échantillon du dataset chargé
+const PREVIEW_ROWS = 500;
+
+type EmbeddingPreview = { norms: number[]; dimension: number } | 'error';
+
+const sampleTexts = (rows: DataRow[], column: string) =>
+    rows.slice(0, PREVIEW_ROWS).map(r => r[column]).filter(v => !isMissingValue(v)).map(v => String(v));
+
+// Termes TF-IDF dominants, recalculés seulement quand un réglage qui les influence change
+const TfidfTerms: React.FC<{ rows: DataRow[]; column: string; config: TextColumnConfig }> = ({ rows, column, config }) => {
+    const { max_features: maxFeatures, stop_words: stopWords } = config;
+    const [minN, maxN] = config.ngram_range;
+    const terms = useMemo(
+        () => topTfidfTerms(sampleTexts(rows, column), { max_features: maxFeatures, ngram_range: [minN, maxN], stop_words: stopWords }),
+        [rows, column, maxFeatures, minN, maxN, stopWords]
+    );
+    const max = Math.max(...terms.map(t => t.score), 1e-9);
+    return (
+        <div className="space-y-1">
+            {terms.length === 0 && <p className="text-xs text-gray-400 italic">Aucun terme après filtrage des mots vides.</p>}
+            {terms.map(t => (
+                <div key={t.term} className="flex items-center gap-2 text-xs">
+                    <span className="w-32 truncate font-semibold text-navy" title={t.term}>{t.term}</span>
+                    <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-primary rounded-full" style={{ width: `${(t.score / max) * 100}%` }} />
+                    </div>
+                    <span className="w-10 text-right font-mono text-gray-400">{t.score.toFixed(2)}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const NlpConfigPanel: React.FC<NlpConfigPanelProps> = ({ columns, rows, datasetId, value, onChange }) => {
+    const { canAccess, tier } = useAuth();
+    const [blockedFeature, setBlockedFeature] = useState<string | null>(null);
+    const [previews, setPreviews] = useState<Record<string, EmbeddingPreview>>({});
+    const [loadingKey, setLoadingKey] = useState<string | null>(null);
+
+    const update = (column: string, patch: Partial<TextColumnConfig>) => onChange(column, { ...value[column], ...patch });
+
+    const selectMethod = (column: string, method: NlpMethod) => {
+        if (method !== 'none' && !canAccess(NLP_FEATURES[method])) {
+            setBlockedFeature(NLP_FEATURES[method]);
+            return;
+        }
+        update(column, {
+            method,
+            model: method === 'word2vec' || method === 'bert' ? NLP_MODELS[method][0].id : '',
+            // PCA ne s'applique pas à la matrice creuse du TF-IDF
+            reduction: method === 'tfidf' && value[column].reduction === 'pca' ? 'svd' : value[column].reduction,
+        });
+    };
+
+    const previewKey = (column: string) => `${column}:${value[column].method}:${value[column].model}`;
+
+    const loadEmbeddings = async (column: string) => {
+        if (!datasetId) return;
+        const key = previewKey(column);
+        setLoadingKey(key);
+        try {
+            const res = await datasetsApi.previewTextEmbeddings(datasetId, column, value[column].method, value[column].model);
+            setPreviews(prev => ({ ...prev, [key]: { norms: res.data.norms || [], dimension: res.data.dimension || 0 } }));
+        } catch (err) {
+            console.error('Aperçu des embeddings impossible', err);
+            setPreviews(prev => ({ ...prev, [key]: 'error' }));
+        } finally {
+            setLoadingKey(null);
+        }
+    };
+
+    const select = 'bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer';
+    const label = 'block text-[10px] font-black text-primary uppercase tracking-widest mb-1 ml-1 opacity-70';
+
+    const renderPreview = (column: string) => {
+        const config = value[column];
+        if (config.method === 'none') return null;
+        if (config.method === 'tfidf') return <TfidfTerms rows={rows} column={column} config={config} />;
+
+        const key = previewKey(column);
+        const preview = previews[key];
+        const sample = sampleTexts(rows, column);
+        if (!preview) {
+            return (
+                <button
+                    onClick={() => loadEmbeddings(column)}
+                    disabled={!datasetId || loadingKey === key}
+                    className="flex items-center gap-2 text-xs font-bold text-primary hover:underline disabled:opacity-50"
+                >
+                    {loadingKey === key && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                    Calculer la norme des embeddings sur un échantillon
+                </button>
+            );
+        }
+        if (preview === 'error') return <p className="text-xs text-red-500">Aperçu indisponible pour ce modèle.</p>;
+        const max = Math.max(...preview.norms, 1e-9);
+        return (
+            <div className="space-y-1">
+                <p className="text-[11px] text-gray-400">
+                    {preview.dimension} dimensions · norme moyenne {(preview.norms.reduce((a, b) => a + b, 0) / (preview.norms.length || 1)).toFixed(2)}
+                </p>
+                {preview.norms.slice(0, 8).map((norm, i) => (
+                    <div key={i} className="flex items-center gap-2 text-xs">
+                        <span className="w-32 truncate text-gray-600" title={sample[i]}>{sample[i] ?? `#${i + 1}`}</span>
+                        <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-primary rounded-full" style={{ width: `${(norm / max) * 100}%` }} />
+                        </div>
+                        <span className="w-10 text-right font-mono text-gray-400">{norm.toFixed(2)}</span>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    if (columns.length === 0) {
+        return <p className="text-xs text-gray-400 italic text-left mt-2">Aucune colonne texte libre détectée dans ce dataset.</p>;
+    }
+
+    return (
+        <div className="space-y-3 mt-3 text-left">
+            {columns.map(column => {
+                const config = value[column];
+                const embedding = config.method === 'word2vec' || config.method === 'bert';
+                return (
+                    <div key={column} className="border border-gray-100 rounded-xl p-4">
+                        <div className="flex items-center gap-3 mb-3">
+                            <div className="w-8 h-8 bg-primary-50 text-primary rounded-lg flex items-center justify-center shrink-0">
+                                <Type className="h-4 w-4" />
+                            </div>
+                            <div className="flex-1 font-bold text-sm text-navy truncate">{column}</div>
+                            <select value={config.method} onChange={(e) => selectMethod(column, e.target.value as NlpMethod)} className={select}>
+                                {METHODS.map(m => (
+                                    <option key={m.id} value={m.id}>
+                                        {m.label}{m.id !== 'none' && !canAccess(NLP_FEATURES[m.id]) ? ' 🔒' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {config.method !== 'none' && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                                {config.method === 'tfidf' && (
+                                    <>
+                                        <div>
+                                            <span className={label}>Max features</span>
+                                            <input
+                                                type="number"
+                                                min={10}
+                                                max={50000}
+                                                step={100}
+                                                value={config.max_features}
+                                                onChange={(e) => update(column, { max_features: Math.max(10, Math.round(Number(e.target.value) || 10)) })}
+                                                className="w-full bg-white border border-gray-200 rounded-xl px-3 py-2 text-sm outline-none focus:border-primary"
+                                            />
+                                        </div>
+                                        <div>
+                                            <span className={label}>N-grammes</span>
+                                            <select
+                                                value={config.ngram_range.join('-')}
+                                                onChange={(e) => update(column, { ngram_range: NGRAMS.find(n => n.range.join('-') === e.target.value)?.range || [1, 1] })}
+                                                className={`w-full ${select}`}
+                                            >
+                                                {NGRAMS.map(n => <option key={n.label} value={n.range.join('-')}>{n.label}</option>)}
+                                            </select>
+                                        </div>
+                                    </>
+                                )}
+                                {embedding && (
+                                    <div className="col-span-2">
+                                        <span className={label}>Modèle</span>
+                                        <select value={config.model} onChange={(e) => update(column, { model: e.target.value })} className={`w-full ${select}`}>
+                                            {NLP_MODELS[config.method as 'word2vec' | 'bert'].map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                {config.method !== 'bert' && (
+                                    <div>
+                                        <span className={label}>Mots vides</span>
+                                        <select
+                                            value={config.stop_words}
+                                            onChange={(e) => update(column, { stop_words: e.target.value as StopWordsLanguage })}
+                                            className={`w-full ${select}`}
+                                        >
+                                            {(Object.keys(STOP_WORD_LABELS) as StopWordsLanguage[]).map(l => <option key={l} value={l}>{STOP_WORD_LABELS[l]}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                                <div>
+                                    <span className={label}>Réduction</span>
+                                    <div className="flex gap-2">
+                                        <select
+                                            value={config.reduction}
+                                            onChange={(e) => update(column, { reduction: e.target.value as TextReduction })}
+                                            className={`flex-1 min-w-0 ${select}`}
+                                        >
+                                            {REDUCTIONS.map(r => (
+                                                <option key={r.id} value={r.id} disabled={r.id === 'pca' && config.method === 'tfidf'}>{r.label}</option>
+                                            ))}
+                                        </select>
+                                        {config.reduction !== 'none' && (
+                                            <input
+                                                type="number"
+                                                min={2}
+                                                max={300}
+                                                value={config.n_components}
+                                                onChange={(e) => update(column, { n_components: Math.max(2, Math.round(Number(e.target.value) || 2)) })}
+                                                className="w-16 bg-white border border-gray-200 rounded-xl px-2 py-2 text-sm outline-none focus:border-primary"
+                                                title="Nombre de composantes"
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {config.method === 'tfidf' && config.reduction !== 'none' && config.n_components >= config.max_features && (
+                            <p className="text-[11px] font-semibold text-amber-700 mb-2">Le nombre de composantes doit rester inférieur à max features.</p>
+                        )}
+                        {renderPreview(column)}
+                    </div>
+                );
+            })}
+            {blockedFeature && <ConversionModal trigger={blockedFeature} currentTier={tier} onClose={() => setBlockedFeature(null)} />}
+        </div>
+    );
+};
+
+export default NlpConfigPanel;
@@ -0,0 +1,345 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronRight, Search, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import { datasetsApi, describeApiError } from '../../services/api';
+import { ConversionModal } from '../ConversionModal';
+import {
+    extent, numericValues, quantile, detectUnivariateOutliers,
+    type DatasetInfo, type OutlierMethod, type OutlierTreatment
+} from '../../utils/dataProcessor';
+
+interface OutliersStepProps {
+    dataset: DatasetInfo;
+    datasetId: string;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onNext: () => void;
+}
+
+// Méthodes B.1 (univariées) et B.2 (multivariées, gatées par tier)
+const METHODS: { id: OutlierMethod; label: string; multivariate?: boolean; feature?: string }[] = [
+    { id: 'iqr', label: 'IQR (Boxplot)' },
+    { id: 'zscore', label: 'Z-Score' },
+    { id: 'isolation_forest', label: 'Isolation Forest', multivariate: true, feature: 'isolation_forest' },
+    { id: 'lof', label: 'LOF (Local Outlier Factor)', multivariate: true, feature: 'lof' },
+    { id: 'elliptic_envelope', label: 'Elliptic Envelope', multivariate: true, feature: 'elliptic_envelope' },
+];
+
+const TREATMENTS: { id: OutlierTreatment; label: string }[] = [
+    { id: 'cap', label: 'Plafonner (cap / winsorisation)' },
+    { id: 'remove', label: 'Supprimer les lignes' },
+    { id: 'flag', label: 'Marquer (colonne indicatrice)' },
+    { id: 'none', label: 'Laisser tel quel' },
+];
+
+const DEFAULT_THRESHOLD: Record<'iqr' | 'zscore', number> = { iqr: 1.5, zscore: 3 };
+
+// Boxplot horizontal minimaliste : moustaches aux bornes de détection, points hors bornes
+const BoxPlot: React.FC<{ values: number[]; lower: number; upper: number }> = ({ values, lower, upper }) => {
+    if (!values.length) return null;
+    const [low, high] = extent(values);
+    const min = Math.min(low, lower);
+    const max = Math.max(high, upper);
+    const span = max - min || 1;
+    const x = (v: number) => 8 + ((v - min) / span) * 284;
+    const q1 = quantile(values, 0.25);
+    const q2 = quantile(values, 0.5);
+    const q3 = quantile(values, 0.75);
+    const inside = values.filter(v => v >= lower && v <= upper);
+    const [whiskerLow, whiskerHigh] = inside.length ? extent(inside) : [q1, q3];
+    const outliers = values.filter(v => v < lower || v > upper);
+
+    return (
+        <svg viewBox="0 0 300 60" className="w-full h-16">
+            <line x1={x(whiskerLow)} x2={x(q1)} y1={30} y2={30} stroke="#94a3b8" strokeWidth={1.5} />
+            <line x1={x(q3)} x2={x(whiskerHigh)} y1={30} y2={30} stroke="#94a3b8" strokeWidth={1.5} />
+            <line x1={x(whiskerLow)} x2={x(whiskerLow)} y1={22} y2={38} stroke="#94a3b8" strokeWidth={1.5} />
+            <line x1={x(whiskerHigh)} x2={x(whiskerHigh)} y1={22} y2={38} stroke="#94a3b8" strokeWidth={1.5} />
+            <rect x={x(q1)} y={16} width={Math.max(x(q3) - x(q1), 1)} height={28} fill="#e1ebff" stroke="#3c5fa0" strokeWidth={1.5} rx={3} />
+            <line x1={x(q2)} x2={x(q2)} y1={16} y2={44} stroke="#21337c" strokeWidth={2} />
+            {outliers.slice(0, 200).map((v, i) => (
+                <circle key={i} cx={x(v)} cy={30} r={3} fill="#ef4444" fillOpacity={0.6} />
+            ))}
+        </svg>
+    );
+};
+
+export const OutliersStep: React.FC<OutliersStepProps> = ({ dataset, datasetId, onApply, onNext }) => {
+    const { canAccess, tier } = useAuth();
+    const [method, setMethod] = useState<OutlierMethod>('iqr');
+    const [threshold, setThreshold] = useState<number>(DEFAULT_THRESHOLD.iqr);
+    const [contamination, setContamination] = useState(0.05);
+    const [treatments, setTreatments] = useState<Record<string, OutlierTreatment>>({});
+    const [multiTreatment, setMultiTreatment] = useState<OutlierTreatment>('flag');
+    const [detection, setDetection] = useState<{ method: OutlierMethod; contamination: number; count: number; total: number } | null>(null);
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [blockedFeature, setBlockedFeature] = useState<string | null>(null);
+    const [lastResult, setLastResult] = useState<{ rowsBefore: number; affected: number } | null>(null);
+
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const numericColumns = useMemo(
+        () => (dataset.columnInfo || []).filter(c => c.type === 'numeric' && c.uniqueCount > 2).map(c => c.name),
+        [dataset]
+    );
+    const isMultivariate = METHODS.find(m => m.id === method)?.multivariate ?? false;
+
+    const detections = useMemo(() => {
+        if (method !== 'iqr' && method !== 'zscore') return [];
+        return numericColumns.map(name => ({
+            name,
+            values: numericValues(rows, name),
+            ...detectUnivariateOutliers(rows, name, method, threshold),
+        }));
+    }, [rows, numericColumns, method, threshold]);
+
+    const treatmentFor = (name: string): OutlierTreatment => treatments[name] ?? 'cap';
+
+    // Lignes touchées (union des colonnes traitées) et lignes restantes après suppression
+    const impact = useMemo(() => {
+        const affected = new Set<number>();
+        const removed = new Set<number>();
+        for (const d of detections) {
+            const t = treatments[d.name] ?? 'cap';
+            if (t === 'none') continue;
+            d.indices.forEach(i => {
+                affected.add(i);
+                if (t === 'remove') removed.add(i);
+            });
+        }
+        return { affected: affected.size, rowsAfter: rows.length - removed.size };
+    }, [detections, treatments, rows]);
+
+    const selectMethod = (id: OutlierMethod) => {
+        const def = METHODS.find(m => m.id === id);
+        if (def?.feature && !canAccess(def.feature)) {
+            setBlockedFeature(def.feature);
+            return;
+        }
+        setMethod(id);
+        setDetection(null);
+        if (id === 'iqr' || id === 'zscore') setThreshold(DEFAULT_THRESHOLD[id]);
+    };
+
+    // Détection valable pour les réglages affichés seulement : une réponse obtenue avec d'autres est ignorée
+    const multiResult = detection?.method === method && detection.contamination === contamination ? detection : null;
+
+    const runMultivariateDetection = async () => {
+        setIsDetecting(true);
+        try {
+            const res = await datasetsApi.detectOutliers(datasetId, method, numericColumns, contamination);
+            setDetection({ method, contamination, count: Number(res.data?.count ?? res.data?.indices?.length ?? 0), total: Number(res.data?.total ?? dataset.rows) });
+        } catch (err) {
+            console.error("Outlier detection error", err);
+            // 403/429 : le ConversionModal est déjà déclenché par l'intercepteur
+            const { status, message } = describeApiError(err);
+            if (status !== 429 && status !== 403) {
+                toast.error('Échec de la détection : ' + message);
+            }
+        } finally {
+            setIsDetecting(false);
+        }
+    };
+
+    const handleApply = async () => {
+        const methodLabel = METHODS.find(m => m.id === method)?.label || method;
+        const rowsBefore = dataset.rows;
+        let params: Record<string, unknown>;
+        const journal: string[] = [];
+
+        if (isMultivariate) {
+            // Le nombre de lignes concernées vient de la détection serveur : elle doit précéder l'application
+            if (!multiResult) return;
+            params = { method, contamination, columns: numericColumns, treatment: multiTreatment };
+            const label = TREATMENTS.find(t => t.id === multiTreatment)?.label || multiTreatment;
+            journal.push(`Outliers multivariés (${methodLabel}, contamination ${contamination}) : ${label.toLowerCase()} — ${multiResult.count} ligne(s)`);
+        } else {
+            const columns: Record<string, OutlierTreatment> = {};
+            for (const d of detections) {
+                const t = treatmentFor(d.name);
+                if (t === 'none' || d.indices.length === 0) continue;
+                columns[d.name] = t;
+                const label = TREATMENTS.find(tr => tr.id === t)?.label || t;
+                journal.push(`Outliers (${methodLabel} ${method === 'iqr' ? `×${threshold}` : `|z|>${threshold}`}) sur « ${d.name} » : ${label.toLowerCase()} — ${d.indices.length} valeur(s)`);
+            }
+            if (journal.length === 0) return;
+            params = { method, threshold, columns };
+        }
+
+        setIsApplying(true);
+        const ok = await onApply('outliers', params, journal);
+        setIsApplying(false);
+        if (ok) {
+            setLastResult({ rowsBefore, affected: isMultivariate ? multiResult?.count ?? 0 : impact.affected });
+            setTreatments({});
+            setDetection(null);
+        }
+    };
+
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <AlertTriangle className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Détection et traitement des valeurs aberrantes</h3>
+                        <p className="text-xs text-gray-500">Section B — comprenez le contexte métier avant de traiter un outlier.</p>
+                    </div>
+                </div>
+
+                {/* Méthode de détection */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="md:col-span-2">
+                        <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">Méthode de détection</label>
+                        <div className="flex flex-wrap gap-2">
+                            {METHODS.map(m => (
+                                <button
+                                    key={m.id}
+                                    onClick={() => selectMethod(m.id)}
+                                    disabled={isDetecting}
+                                    className={`px-3 py-2 rounded-xl border-2 text-xs font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed ${method === m.id ? 'border-blue-400 bg-blue-50 text-navy' : 'border-gray-100 bg-white text-gray-500 hover:border-blue-200'}`}
+                                >
+                                    {m.label}{m.feature && !canAccess(m.feature) ? ' 🔒' : ''}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">
+                            {isMultivariate ? 'Contamination' : method === 'iqr' ? 'Multiplicateur IQR (k)' : 'Seuil |z|'}
+                        </label>
+                        <input
+                            type="number"
+                            step={isMultivariate ? 0.01 : 0.1}
+                            min={isMultivariate ? 0.001 : 0.5}
+                            max={isMultivariate ? 0.5 : 10}
+                            value={isMultivariate ? contamination : threshold}
+                            disabled={isDetecting}
+                            onChange={(e) => {
+                                const v = Number(e.target.value);
+                                if (!Number.isFinite(v) || v <= 0) return;
+                                if (isMultivariate) { setContamination(v); setDetection(null); } else setThreshold(v);
+                            }}
+                            className="w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none"
+                        />
+                    </div>
+                </div>
+
+                {numericColumns.length === 0 ? (
+                    <div className="flex items-center gap-3 bg-blue-50 text-blue-700 rounded-xl p-4 border border-blue-100">
+                        <CheckCircle className="h-5 w-5" />
+                        <span className="font-bold text-sm">Aucune colonne numérique continue à analyser.</span>
+                    </div>
+                ) : isMultivariate ? (
+                    <div className="bg-gray-50 rounded-xl border border-gray-100 p-6 space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Détection conjointe sur {numericColumns.length} colonnes numériques : {numericColumns.join(', ')}.
+                        </p>
+                        <div className="flex flex-wrap items-center gap-3">
+                            <button
+                                onClick={runMultivariateDetection}
+                                disabled={isDetecting}
+                                className="inline-flex items-center gap-2 rounded-xl px-5 py-2 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50"
+                            >
+                                <Search className="h-4 w-4" /> {isDetecting ? 'Détection...' : 'Détecter'}
+                            </button>
+                            {multiResult && (
+                                <span className="text-sm font-bold text-navy">
+                                    {multiResult.count} ligne(s) aberrante(s) sur {multiResult.total} ({((multiResult.count / (multiResult.total || 1)) * 100).toFixed(1)}%)
+                                </span>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70">Traitement</label>
+                            <select
+                                value={multiTreatment}
+                                onChange={(e) => setMultiTreatment(e.target.value as OutlierTreatment)}
+                                className="bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer"
+                            >
+                                {TREATMENTS.filter(t => t.id !== 'cap').map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {detections.map(d => (
+                                <div key={d.name} className="border border-gray-100 rounded-xl p-4 hover:border-primary/30 transition-colors">
+                                    <div className="flex items-center justify-between mb-1">
+                                        <span className="font-bold text-navy text-sm">{d.name}</span>
+                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${d.indices.length ? 'bg-navy text-white' : 'bg-blue-50 text-blue-600'}`}>
+                                            {d.indices.length} outlier(s)
+                                        </span>
+                                    </div>
+                                    <BoxPlot values={d.values} lower={d.lower} upper={d.upper} />
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-[10px] text-gray-400">
+                                            Bornes : [{Number.isFinite(d.lower) ? d.lower.toFixed(2) : '—'} ; {Number.isFinite(d.upper) ? d.upper.toFixed(2) : '—'}]
+                                        </span>
+                                        <select
+                                            value={treatmentFor(d.name)}
+                                            onChange={(e) => setTreatments(prev => ({ ...prev, [d.name]: e.target.value as OutlierTreatment }))}
+                                            disabled={d.indices.length === 0}
+                                            className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs font-medium outline-none focus:border-primary cursor-pointer disabled:opacity-40"
+                                        >
+                                            {TREATMENTS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Avant / après sur l'échantillon */}
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-6">
+                            {[
+                                { label: "Lignes de l'échantillon", value: rows.length },
+                                { label: 'Lignes affectées', value: `${impact.affected} (${((impact.affected / (rows.length || 1)) * 100).toFixed(1)}%)` },
+                                { label: 'Lignes après traitement', value: impact.rowsAfter },
+                            ].map(({ label, value }) => (
+                                <div key={label} className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                                    <div className="text-xl font-black text-navy">{value}</div>
+                                    <div className="text-[10px] text-gray-500 uppercase font-bold">{label}</div>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                {/* Le nombre de lignes après application provient du dataset renvoyé par le serveur */}
+                {lastResult && (
+                    <div className="mt-6 flex items-center gap-3 bg-blue-50 text-blue-700 rounded-xl p-4 border border-blue-100 text-sm">
+                        <CheckCircle className="h-5 w-5 shrink-0" />
+                        <span>
+                            Dernier traitement : <b>{lastResult.affected}</b> ligne(s) concernée(s) — dataset passé de <b>{lastResult.rowsBefore}</b> à <b>{dataset.rows}</b> lignes.
+                        </span>
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-end gap-3 pt-6">
+                    {numericColumns.length > 0 && (
+                        <button
+                            onClick={handleApply}
+                            disabled={isApplying || (isMultivariate ? multiTreatment === 'none' || !multiResult : impact.affected === 0)}
+                            title={isMultivariate && !multiResult ? "Lancez d'abord la détection" : undefined}
+                            className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isApplying ? 'Application...' : 'Appliquer le traitement'}
+                        </button>
+                    )}
+                    <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+                        Continuer <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+
+            {blockedFeature && (
+                <ConversionModal trigger={blockedFeature} currentTier={tier} onClose={() => setBlockedFeature(null)} />
+            )}
+        </div>
+    );
+};
+
+export default OutliersStep;
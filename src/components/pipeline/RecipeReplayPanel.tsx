@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Lock, Play, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import { recipesApi, describeApiError } from '../../services/api';
+import { checkRecipeSchema, isPipelineRecipe, type PipelineRecipe } from '../../services/recipes';
+import type { DataColumn } from '../../utils/dataProcessor';
+import { ConversionModal } from '../ConversionModal';
+
+interface RecipeReplayPanelProps {
+    columns: DataColumn[];
+    onReplay: (recipe: PipelineRecipe) => void;
+}
+
+export const RecipeReplayPanel: React.FC<RecipeReplayPanelProps> = ({ columns, onReplay }) => {
+    const { canAccess, tier } = useAuth();
+    const allowed = canAccess('save_pipeline');
+    const [recipes, setRecipes] = useState<PipelineRecipe[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [showBlocked, setShowBlocked] = useState(false);
+
+    useEffect(() => {
+        if (!allowed) return;
+        recipesApi.getAll()
+            .then(res => setRecipes((Array.isArray(res.data) ? res.data : []).filter(isPipelineRecipe)))
+            .catch(err => {
+                console.error("Recipes fetch error", err);
+                setRecipes([]);
+            });
+    }, [allowed]);
+
+    const handleDelete = async (id: string) => {
+        try {
+            await recipesApi.delete(id);
+            setRecipes(prev => (prev || []).filter(r => r.id !== id));
+            if (selectedId === id) setSelectedId(null);
+        } catch (err) {
+            toast.error('Suppression impossible : ' + describeApiError(err).message);
+        }
+    };
+
+    if (!allowed) {
+        return (
+            <>
+                <button
+                    onClick={() => setShowBlocked(true)}
+                    className="w-full mb-6 flex items-center justify-between bg-white rounded-2xl shadow-sm px-6 py-4 border border-gray-100 hover:border-primary/30 transition-all"
+                >
+                    <span className="flex items-center gap-3 font-bold text-navy text-sm">
+                        <BookOpen className="h-5 w-5 text-primary" /> Rejouer une recette enregistrée
+                    </span>
+                    <Lock className="h-4 w-4 text-gray-400" />
+                </button>
+                {showBlocked && <ConversionModal trigger="save_pipeline" currentTier={tier} onClose={() => setShowBlocked(false)} />}
+            </>
+        );
+    }
+
+    // Rien à proposer tant qu'aucune recette n'a été enregistrée
+    if (!recipes || recipes.length === 0) return null;
+
+    const selected = recipes.find(r => r.id === selectedId) || null;
+    const check = selected ? checkRecipeSchema(selected, columns) : null;
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm p-6 mb-6 border border-gray-100">
+            <h4 className="font-bold text-navy mb-4 flex items-center gap-2">
+                <BookOpen className="h-5 w-5 text-primary" /> Rejouer une recette enregistrée
+            </h4>
+            <div className="grid md:grid-cols-2 gap-3">
+                {recipes.map(recipe => (
+                    <div
+                        key={recipe.id}
+                        onClick={() => setSelectedId(recipe.id || null)}
+                        className={`group relative rounded-xl border p-4 cursor-pointer transition-all ${selectedId === recipe.id ? 'border-primary bg-primary-50/40' : 'border-gray-100 bg-gray-50 hover:border-primary/30'}`}
+                    >
+                        <div className="font-bold text-navy text-sm pr-8 truncate">{recipe.name}</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                            {recipe.operations.length} opération(s) · {recipe.schema.length} colonnes
+                            {recipe.created_at && ` · ${new Date(recipe.created_at).toLocaleDateString('fr')}`}
+                        </div>
+                        {recipe.id && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); handleDelete(recipe.id as string); }}
+                                className="absolute top-3 right-3 p-1.5 rounded-lg text-gray-400 hover:text-primary hover:bg-white transition-all opacity-0 group-hover:opacity-100"
+                                title="Supprimer"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {selected && check && (
+                <div className="mt-4 space-y-3">
+                    {check.missing.length === 0 && check.retyped.length === 0 ? (
+                        <div className="flex items-center gap-2 text-xs font-medium text-blue-600">
+                            <CheckCircle className="h-4 w-4" /> Schéma compatible avec le fichier courant
+                            {check.extra.length > 0 && ` (${check.extra.length} colonne(s) supplémentaire(s) ignorée(s))`}
+                        </div>
+                    ) : (
+                        <div className="rounded-xl bg-primary-50/50 border border-primary-100 p-4 text-xs space-y-2">
+                            {check.missing.length > 0 && (
+                                <div className="flex items-start gap-2 text-primary font-semibold">
+                                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                                    <span>Colonnes manquantes : {check.missing.join(', ')}</span>
+                                </div>
+                            )}
+                            {check.retyped.map(c => (
+                                <div key={c.name} className="flex items-start gap-2 text-navy">
+                                    <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+                                    <span><b>{c.name}</b> : type {c.expected} attendu, {c.actual} trouvé</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        onClick={() => onReplay(selected)}
+                        disabled={!check.compatible}
+                        className="btn-primary rounded-xl gap-2 px-6 py-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Play className="h-4 w-4" /> Rejouer la recette
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RecipeReplayPanel;
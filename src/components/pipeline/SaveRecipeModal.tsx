@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookmarkPlus, X } from 'lucide-react';
+
+interface SaveRecipeModalProps {
+    defaultName: string;
+    operationsCount: number;
+    onClose: () => void;
+    onSave: (name: string) => Promise<boolean>;
+}
+
+export const SaveRecipeModal: React.FC<SaveRecipeModalProps> = ({ defaultName, operationsCount, onClose, onSave }) => {
+    const [name, setName] = useState(defaultName);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const saved = await onSave(name);
+        setIsSaving(false);
+        if (saved) onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                onClick={onClose}
+                className="absolute inset-0 bg-navy/60 backdrop-blur-sm"
+            />
+            <motion.div
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                className="bg-white rounded-[2rem] shadow-2xl w-full max-w-md overflow-hidden relative z-10 border border-gray-100"
+            >
+                <div className="bg-blue-50/50 p-6 flex items-center gap-4">
+                    <div className="w-12 h-12 bg-white rounded-2xl flex items-center justify-center text-primary shadow-lg border border-blue-100">
+                        <BookmarkPlus size={24} />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-black text-navy leading-tight">Enregistrer la recette</h2>
+                        <p className="text-xs text-gray-500">{operationsCount} opération(s) + configuration Auto-Pilot</p>
+                    </div>
+                </div>
+                <div className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Nom de la recette</label>
+                        <input
+                            autoFocus
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+                            className="w-full bg-white border border-gray-200 rounded-xl px-4 py-3 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none transition-all font-medium"
+                            placeholder="Ex : Extraction mensuelle ventes"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        La recette pourra être rejouée sur un nouveau fichier ayant les mêmes colonnes.
+                    </p>
+                    <div className="flex gap-2 pt-2">
+                        <button
+                            onClick={onClose}
+                            className="flex-1 bg-slate-50 hover:bg-slate-100 text-gray-500 font-bold py-3 rounded-xl transition-all"
+                        >
+                            Annuler
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={!name.trim() || isSaving}
+                            className="flex-1 bg-navy hover:bg-navy/90 text-white font-black py-3 rounded-xl transition-all shadow-md disabled:opacity-50"
+                        >
+                            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                        </button>
+                    </div>
+                </div>
+                <button onClick={onClose} className="absolute top-4 right-4 p-2 text-gray-400 hover:text-navy transition-colors">
+                    <X size={20} />
+                </button>
+            </motion.div>
+        </div>
+    );
+};
+
+export default SaveRecipeModal;
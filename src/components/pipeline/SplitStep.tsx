@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, ChevronRight, CheckCircle, Info, Scissors, Shuffle, Users } from 'lucide-react';
+import {
+    defaultTestSize, simulateSplit, SPLIT_LABELS,
+    type DatasetInfo, type PipelineConfig, type SplitConfig, type SplitMode, type SplitName, type SplitPart
+} from '../../utils/dataProcessor';
+
+interface SplitStepProps {
+    dataset: DatasetInfo;
+    config: PipelineConfig | null;
+    onApply: (type: string, params: Record<string, unknown>, journal: string[]) => Promise<boolean>;
+    onNext: () => void;
+}
+
+// Modes D.2 (aléatoire / groupes) et D.3 (séries temporelles)
+const MODES: { id: SplitMode; label: string; description: string; icon: React.ElementType }[] = [
+    { id: 'random', label: 'Aléatoire', description: 'Mélange puis découpe, stratifié sur la cible en classification.', icon: Shuffle },
+    { id: 'group', label: 'Par groupe', description: 'Toutes les lignes d\'un même groupe (client, patient…) restent dans le même ensemble.', icon: Users },
+    { id: 'time', label: 'Chronologique', description: 'Passé en train, futur en test : aucun mélange pour les séries temporelles.', icon: CalendarClock },
+];
+
+const SPLIT_COLORS: Record<SplitName, string> = { train: 'bg-navy', validation: 'bg-blue-400', test: 'bg-primary' };
+
+const percent = (value: number) => `${Math.round(value * 100)} %`;
+
+const describeSplit = (cfg: SplitConfig): string => {
+    const train = 1 - cfg.test_size - cfg.validation_size;
+    const sizes = `train ${percent(train)}${cfg.validation_size > 0 ? ` / validation ${percent(cfg.validation_size)}` : ''} / test ${percent(cfg.test_size)}`;
+    if (cfg.mode === 'time') return `Split chronologique sur « ${cfg.time_column} » : ${sizes}`;
+    if (cfg.mode === 'group') return `Split par groupe « ${cfg.group_column} » : ${sizes} (graine ${cfg.random_state})`;
+    return `Split aléatoire${cfg.stratify ? ` stratifié sur « ${cfg.target} »` : ''} : ${sizes} (graine ${cfg.random_state})`;
+};
+
+const PartsTable: React.FC<{ parts: SplitPart[]; totalRows: number; estimated: boolean; showDistribution: boolean }> = ({ parts, totalRows, estimated, showDistribution }) => {
+    const sampleTotal = parts.reduce((acc, p) => acc + p.rows, 0) || 1;
+    const classes = [...new Set(parts.flatMap(p => Object.keys(p.distribution)))].sort();
+    return (
+        <div className="overflow-x-auto rounded-xl border border-gray-100">
+            <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-[10px] uppercase tracking-wider text-gray-500">
+                    <tr>
+                        <th className="p-3 font-black">Ensemble</th>
+                        <th className="p-3 font-black">Lignes{estimated ? ' (estimées)' : ''}</th>
+                        {parts.some(p => p.from) && <th className="p-3 font-black">Période</th>}
+                        {showDistribution && <th className="p-3 font-black">Distribution de la cible</th>}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {parts.map(part => {
+                        const rows = estimated ? Math.round(totalRows * (part.rows / sampleTotal)) : part.rows;
+                        const classTotal = Object.values(part.distribution).reduce((a, b) => a + b, 0) || 1;
+                        return (
+                            <tr key={part.name}>
+                                <td className="p-3 font-bold text-navy whitespace-nowrap">
+                                    <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${SPLIT_COLORS[part.name]}`} />
+                                    {SPLIT_LABELS[part.name]}
+                                </td>
+                                <td className="p-3 text-navy whitespace-nowrap">
+                                    {rows.toLocaleString('fr-FR')} <span className="text-xs text-gray-400">({percent(part.rows / sampleTotal)})</span>
+                                </td>
+                                {parts.some(p => p.from) && (
+                                    <td className="p-3 text-xs text-gray-500 whitespace-nowrap">{part.from ? `${part.from} → ${part.to}` : '-'}</td>
+                                )}
+                                {showDistribution && (
+                                    <td className="p-3 min-w-[240px]">
+                                        <div className="flex h-2.5 rounded-full overflow-hidden bg-gray-100">
+                                            {classes.map((c, i) => (
+                                                <div
+                                                    key={c}
+                                                    title={`${c} : ${part.distribution[c] || 0}`}
+                                                    className={i % 2 === 0 ? 'bg-navy' : 'bg-primary'}
+                                                    style={{ width: `${((part.distribution[c] || 0) / classTotal) * 100}%`, opacity: 1 - (Math.floor(i / 2) * 0.25) }}
+                                                />
+                                            ))}
+                                        </div>
+                                        <div className="flex flex-wrap gap-x-3 mt-1 text-[11px] text-gray-500">
+                                            {classes.map(c => <span key={c}>{c} : {percent((part.distribution[c] || 0) / classTotal)}</span>)}
+                                        </div>
+                                    </td>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export const SplitStep: React.FC<SplitStepProps> = ({ dataset, config, onApply, onNext }) => {
+    const rows = useMemo(() => dataset.data || [], [dataset]);
+    const columns = useMemo(() => dataset.columnInfo || [], [dataset]);
+    const target = config?.target && columns.some(c => c.name === config.target) ? config.target : undefined;
+    const isClassification = config?.objective === 'classification' && !!target;
+    const dateColumns = useMemo(() => columns.filter(c => c.type === 'datetime').map(c => c.name), [columns]);
+    // Candidats de groupe : colonnes avec répétitions (plusieurs lignes par groupe)
+    const groupColumns = useMemo(() => columns
+        .filter(c => c.name !== target && c.type !== 'datetime' && c.uniqueCount > 1 && c.uniqueCount < rows.length)
+        .map(c => c.name), [columns, target, rows]);
+
+    const [mode, setMode] = useState<SplitMode>(dataset.split?.config.mode ?? 'random');
+    const [testSize, setTestSize] = useState(dataset.split?.config.test_size ?? defaultTestSize(dataset.rows));
+    const [validationSize, setValidationSize] = useState(dataset.split?.config.validation_size ?? 0);
+    const [randomState, setRandomState] = useState(dataset.split?.config.random_state ?? 42);
+    const [stratify, setStratify] = useState(isClassification);
+    const [groupColumn, setGroupColumn] = useState('');
+    const [timeColumn, setTimeColumn] = useState('');
+    const [isApplying, setIsApplying] = useState(false);
+
+    const selectedGroup = groupColumns.includes(groupColumn) ? groupColumn : groupColumns[0] || '';
+    const selectedTime = dateColumns.includes(timeColumn) ? timeColumn : dateColumns[0] || '';
+    const trainSize = 1 - testSize - validationSize;
+
+    const splitConfig = useMemo<SplitConfig>(() => ({
+        mode,
+        test_size: testSize,
+        validation_size: validationSize,
+        random_state: randomState,
+        stratify: mode === 'random' && isClassification && stratify,
+        ...(target ? { target } : {}),
+        ...(mode === 'group' ? { group_column: selectedGroup } : {}),
+        ...(mode === 'time' ? { time_column: selectedTime } : {}),
+    }), [mode, testSize, validationSize, randomState, isClassification, stratify, target, selectedGroup, selectedTime]);
+    const isValid = trainSize >= 0.5 - 1e-9
+        && (mode !== 'group' || !!selectedGroup)
+        && (mode !== 'time' || !!selectedTime);
+
+    // Simulation sur tout l'échantillon : recalculée seulement quand la configuration change
+    const estimate = useMemo(
+        () => isValid ? simulateSplit(rows, { ...splitConfig, target: isClassification ? target : undefined }) : [],
+        [rows, splitConfig, isValid, isClassification, target]
+    );
+
+    const handleApply = async () => {
+        if (!isValid) return;
+        setIsApplying(true);
+        await onApply('split', splitConfig, [describeSplit(splitConfig)]);
+        setIsApplying(false);
+    };
+
+    const label = 'block text-[10px] font-black text-primary uppercase tracking-widest mb-2 ml-1 opacity-70';
+    const select = 'w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm font-medium outline-none focus:border-primary cursor-pointer';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="w-10 h-10 bg-primary-50 text-primary rounded-xl flex items-center justify-center">
+                        <Scissors className="h-5 w-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-navy">Séparation train / test</h3>
+                        <p className="text-xs text-gray-500">Section D — le split intervient avant tout fit d'encodage ou de scaling (anti-leakage).</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+                    {MODES.map(m => {
+                        const disabled = m.id === 'time' && dateColumns.length === 0;
+                        return (
+                            <button
+                                key={m.id}
+                                onClick={() => !disabled && setMode(m.id)}
+                                disabled={disabled}
+                                className={`text-left p-4 rounded-xl border-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${mode === m.id ? 'border-blue-400 bg-blue-50' : 'border-gray-100 bg-white hover:border-blue-200'}`}
+                            >
+                                <div className="flex items-center gap-2 font-bold text-sm text-navy mb-1">
+                                    <m.icon className="h-4 w-4 text-primary" /> {m.label}
+                                </div>
+                                <p className="text-xs text-gray-500">{disabled ? 'Aucune colonne date détectée.' : m.description}</p>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-5 bg-gray-50 rounded-xl border border-gray-100 p-5 mb-6">
+                    <div>
+                        <label className={label}>Test : {percent(testSize)}</label>
+                        <input type="range" min={0.05} max={0.4} step={0.05} value={testSize} onChange={(e) => setTestSize(Number(e.target.value))} className="w-full accent-primary" />
+                    </div>
+                    <div>
+                        <label className={label}>Validation : {validationSize > 0 ? percent(validationSize) : 'aucune'}</label>
+                        <input type="range" min={0} max={0.3} step={0.05} value={validationSize} onChange={(e) => setValidationSize(Number(e.target.value))} className="w-full accent-primary" />
+                    </div>
+                    {mode !== 'time' && (
+                        <div>
+                            <label className={label}>Graine aléatoire</label>
+                            <input
+                                type="number"
+                                value={randomState}
+                                onChange={(e) => setRandomState(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                                className="w-full bg-white border border-gray-200 rounded-xl px-4 py-2 text-sm outline-none focus:border-primary"
+                            />
+                        </div>
+                    )}
+                    {mode === 'random' && (
+                        <label className={`flex items-center gap-2 self-end pb-2 text-xs font-medium cursor-pointer ${isClassification ? 'text-navy' : 'text-gray-400'}`}>
+                            <input type="checkbox" checked={isClassification && stratify} disabled={!isClassification} onChange={(e) => setStratify(e.target.checked)} className="accent-primary" />
+                            Stratifier sur la cible{isClassification ? ` « ${target} »` : ' (classification uniquement)'}
+                        </label>
+                    )}
+                    {mode === 'group' && (
+                        <div>
+                            <label className={label}>Colonne de groupe</label>
+                            <select value={selectedGroup} onChange={(e) => setGroupColumn(e.target.value)} className={select}>
+                                {groupColumns.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {mode === 'time' && (
+                        <div>
+                            <label className={label}>Colonne temporelle</label>
+                            <select value={selectedTime} onChange={(e) => setTimeColumn(e.target.value)} className={select}>
+                                {dateColumns.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex h-3 rounded-full overflow-hidden mb-2">
+                    <div className="bg-navy" style={{ width: `${trainSize * 100}%` }} />
+                    {validationSize > 0 && <div className="bg-blue-400" style={{ width: `${validationSize * 100}%` }} />}
+                    <div className="bg-primary" style={{ width: `${testSize * 100}%` }} />
+                </div>
+                <p className="flex items-center gap-2 text-xs text-gray-500 mb-6 ml-1">
+                    <Info className="h-3.5 w-3.5 text-primary" />
+                    {trainSize < 0.5
+                        ? 'Le train doit conserver au moins 50 % des lignes.'
+                        : `Recommandation D.2 pour ${dataset.rows.toLocaleString('fr-FR')} lignes : test ${percent(defaultTestSize(dataset.rows))}.`}
+                </p>
+
+                {estimate.length > 0 && (
+                    <div className="mb-6">
+                        <div className="text-[10px] font-black text-navy uppercase tracking-widest mb-3">Aperçu sur l'échantillon</div>
+                        <PartsTable parts={estimate} totalRows={dataset.rows} estimated showDistribution={isClassification} />
+                    </div>
+                )}
+
+                {dataset.split && (
+                    <div className="mb-6">
+                        <div className="flex items-center gap-2 text-[10px] font-black text-blue-700 uppercase tracking-widest mb-3">
+                            <CheckCircle className="h-4 w-4" /> Split appliqué — {describeSplit(dataset.split.config)}
+                        </div>
+                        <PartsTable parts={dataset.split.parts} totalRows={dataset.rows} estimated={false} showDistribution={isClassification} />
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-end gap-3 pt-4">
+                    <button
+                        onClick={handleApply}
+                        disabled={isApplying || !isValid}
+                        className="rounded-xl px-6 py-3 border-2 border-primary text-primary font-bold text-sm hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isApplying ? 'Application...' : dataset.split ? 'Refaire le split' : 'Appliquer le split'}
+                    </button>
+                    <button onClick={onNext} className="btn-primary rounded-xl gap-2 shadow-lg shadow-blue-200 px-8 py-3">
+                        Continuer <ChevronRight className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SplitStep;
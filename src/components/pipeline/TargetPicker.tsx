@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { datasetsApi } from '../../services/api';
+import { validateTarget, type DataColumn, type ModelObjective } from '../../utils/dataProcessor';
+
+interface TargetPickerProps {
+    columns: DataColumn[];
+    datasetId: string | null;
+    objective: ModelObjective;
+    target: string;
+    onChange: (target: string) => void;
+}
+
+type TargetDistribution = {
+    key: string;
+    kind: 'classes' | 'bins';
+    data: { name: string; value: number }[];
+};
+
+export const TargetPicker: React.FC<TargetPickerProps> = ({ columns, datasetId, objective, target, onChange }) => {
+    const [distribution, setDistribution] = useState<TargetDistribution | null>(null);
+    const column = columns.find(c => c.name === target);
+    const validation = validateTarget(column, objective);
+    const kind = objective === 'classification' ? 'classes' : 'bins';
+    const key = `${kind}:${target}`;
+
+    useEffect(() => {
+        if (!datasetId || !target || objective === 'clustering') return;
+        const request = kind === 'classes'
+            ? datasetsApi.getCategories(datasetId, target, 20).then(res =>
+                (res.data || []).map((c: { name: string; size?: number; value?: number }) => ({ name: String(c.name), value: Number(c.size ?? c.value ?? 0) })))
+            : datasetsApi.getDistribution(datasetId, target, 20).then(res =>
+                (res.data || []).map((b: { range: string; count: number }) => ({ name: String(b.range), value: Number(b.count) })));
+        request
+            .then(data => setDistribution({ key: `${kind}:${target}`, kind, data }))
+            .catch(err => {
+                console.error("Target distribution error", err);
+                setDistribution({ key: `${kind}:${target}`, kind, data: [] });
+            });
+    }, [datasetId, target, kind, objective]);
+
+    const current = distribution?.key === key ? distribution : null;
+
+    // Ratio majoritaire / minoritaire (niveaux d'alerte G.1)
+    const balance = useMemo(() => {
+        if (!current || current.kind !== 'classes' || current.data.length < 2) return null;
+        const total = current.data.reduce((a, c) => a + c.value, 0) || 1;
+        const sorted = [...current.data].sort((a, b) => b.value - a.value);
+        return {
+            majority: (sorted[0].value / total) * 100,
+            minority: (sorted[sorted.length - 1].value / total) * 100,
+        };
+    }, [current]);
+
+    if (objective === 'clustering') {
+        return (
+            <p className="text-xs text-gray-500 bg-gray-50 rounded-xl px-4 py-3 border border-gray-100">
+                Le clustering est non supervisé : aucune colonne cible n'est utilisée.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <select
+                value={target}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-full bg-white border border-gray-200 rounded-xl px-4 py-3 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none transition-all cursor-pointer font-medium"
+            >
+                <option value="">— Choisir la colonne à prédire —</option>
+                {columns.map(c => (
+                    <option key={c.name} value={c.name}>
+                        {c.name} ({c.type}, {c.uniqueCount} valeurs){validateTarget(c, objective).valid ? '' : ' ⚠'}
+                    </option>
+                ))}
+            </select>
+
+            <div className={`flex items-start gap-2 text-xs font-medium ${validation.valid ? 'text-blue-600' : 'text-primary'}`}>
+                {validation.valid ? <CheckCircle className="h-4 w-4 shrink-0" /> : <AlertTriangle className="h-4 w-4 shrink-0" />}
+                <span>{validation.message}</span>
+            </div>
+
+            {target && validation.valid && (
+                <div className="bg-white rounded-xl border border-gray-100 p-3">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-[10px] font-black text-navy uppercase tracking-widest">
+                            {kind === 'classes' ? 'Répartition des classes' : 'Distribution de la cible'}
+                        </span>
+                        {balance && (
+                            <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${balance.minority < 10 ? 'bg-navy text-white' : 'bg-blue-50 text-blue-600'}`}>
+                                {balance.majority.toFixed(0)}/{balance.minority.toFixed(0)}
+                            </span>
+                        )}
+                    </div>
+                    {!current ? (
+                        <div className="h-[140px] flex items-center justify-center">
+                            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                        </div>
+                    ) : current.data.length === 0 ? (
+                        <div className="h-[140px] flex items-center justify-center text-gray-400 italic text-xs">Distribution indisponible</div>
+                    ) : (
+                        <ResponsiveContainer width="100%" height={140}>
+                            <BarChart data={current.data} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                                <XAxis dataKey="name" tick={{ fontSize: 9, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                                <YAxis tick={{ fontSize: 9, fill: '#64748b' }} axisLine={false} tickLine={false} />
+                                <Tooltip cursor={{ fill: '#f8fafc' }} />
+                                <Bar dataKey="value" name="Effectif" radius={[4, 4, 0, 0]}>
+                                    {current.data.map((_, i) => <Cell key={i} fill={i % 2 ? '#5178c0' : '#3c5fa0'} />)}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TargetPicker;
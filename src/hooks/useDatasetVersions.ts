@@ -0,0 +1,88 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { DatasetInfo } from '../utils/dataProcessor';
+import type { RecipeOperation } from '../services/recipes';
+
+export type DatasetVersion = {
+    // Identifiant local unique (jamais réutilisé après un undo) : clé des données serveur en cache
+    id: number;
+    // Identifiant de version côté serveur (absent si le backend n'en renvoie pas : version non restaurable)
+    serverVersion?: string | number;
+    journal: string[];
+    // Données de la version, libérées au-delà des MAX_SNAPSHOTS dernières (sauf la version 0)
+    snapshot: DatasetInfo | null;
+    // Opération rejouable à l'origine de la version (absente pour la version 0)
+    operation?: RecipeOperation;
+};
+
+type VersionState = {
+    versions: DatasetVersion[];
+    index: number;
+    nextId: number;
+};
+
+// Chaque snapshot garde un échantillon complet des données : la mémoire croît avec l'historique
+const MAX_SNAPSHOTS = 10;
+
+/**
+ * Historique des versions du dataset : chaque transformation appliquée crée une
+ * version. La version 0 correspond aux données importées (ou à la session restaurée).
+ * Appliquer une transformation après un undo supprime les versions « refaisables ».
+ */
+export const useDatasetVersions = () => {
+    const [state, setState] = useState<VersionState>({ versions: [], index: 0, nextId: 0 });
+
+    const reset = useCallback((snapshot: DatasetInfo | null, journal: string[] = []) => {
+        setState(prev => snapshot
+            ? { versions: [{ id: prev.nextId, serverVersion: 0, journal, snapshot }], index: 0, nextId: prev.nextId + 1 }
+            : { versions: [], index: 0, nextId: prev.nextId });
+    }, []);
+
+    const commit = useCallback((snapshot: DatasetInfo, journal: string[], serverVersion?: string | number, operation?: RecipeOperation) => {
+        setState(prev => {
+            const kept = [...prev.versions.slice(0, prev.index + 1), { id: prev.nextId, serverVersion, journal, snapshot, operation }];
+            const oldest = kept.length - MAX_SNAPSHOTS;
+            return {
+                versions: kept.map((v, i) => i > 0 && i < oldest && v.snapshot ? { ...v, snapshot: null } : v),
+                index: kept.length - 1,
+                nextId: prev.nextId + 1,
+            };
+        });
+    }, []);
+
+    const moveTo = useCallback((index: number) => {
+        setState(prev => index >= 0 && index < prev.versions.length ? { ...prev, index } : prev);
+    }, []);
+
+    // Restauration possible : version connue du serveur et données encore en mémoire
+    const restorable = useMemo(
+        () => state.versions.map(v => v.serverVersion !== undefined && v.snapshot !== null),
+        [state]
+    );
+
+    // Journal des transformations actives (versions 0..index)
+    const transformations = useMemo(
+        () => state.versions.slice(0, state.index + 1).flatMap(v => v.journal),
+        [state]
+    );
+
+    // Opérations actives, dans l'ordre, pour l'enregistrement en recette
+    const operations = useMemo(
+        () => state.versions.slice(1, state.index + 1).flatMap(v => v.operation ? [v.operation] : []),
+        [state]
+    );
+
+    return {
+        versions: state.versions,
+        index: state.index,
+        // Version affichée, à inclure dans les clés de cache des données serveur
+        activeId: state.versions[state.index]?.id ?? null,
+        restorable,
+        canUndo: state.index > 0 && restorable[state.index - 1],
+        canRedo: state.index < state.versions.length - 1 && restorable[state.index + 1],
+        transformations,
+        operations,
+        reset,
+        commit,
+        moveTo,
+    };
+};
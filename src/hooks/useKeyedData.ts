@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type KeyedRequest<T> = { key: string; load: () => Promise<T> };
+
+/**
+ * Résultats de requêtes identifiées par une clé (dataset + version + colonnes),
+ * chacune lancée une seule fois puis gardée en cache : revenir à une colonne déjà
+ * affichée ne relance pas l'appel. Une clé absente du cache est en cours de
+ * chargement ; `null` signale un échec, que `retry` relance.
+ */
+export const useKeyedData = <T>(requests: KeyedRequest<T>[]) => {
+    const [cache, setCache] = useState<Record<string, T | null>>({});
+    const requested = useRef(new Set<string>());
+
+    useEffect(() => {
+        requests.forEach(({ key, load }) => {
+            if (requested.current.has(key)) return;
+            requested.current.add(key);
+            load()
+                .then(data => setCache(prev => ({ ...prev, [key]: data })))
+                .catch(err => {
+                    console.error(`Chargement impossible (${key})`, err);
+                    setCache(prev => ({ ...prev, [key]: null }));
+                });
+        });
+    }, [requests, cache]);
+
+    // La clé retirée du cache repasse en chargement et l'effet relance la requête
+    const retry = useCallback((key: string) => {
+        requested.current.delete(key);
+        setCache(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+        });
+    }, []);
+
+    return { data: cache, retry };
+};
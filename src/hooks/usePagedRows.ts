@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DataRow, RowPage, RowQuery } from '../utils/dataProcessor';
+
+export type RowFetcher = (offset: number, limit: number, query: RowQuery, signal: AbortSignal) => Promise<RowPage>;
+
+export const PAGE_SIZE = 200;
+
+// Pages gardées en mémoire : au-delà, les plus éloignées de la zone affichée sont libérées
+const MAX_CACHED_PAGES = 20;
+
+type PageCache = {
+    fetcher: RowFetcher;
+    query: RowQuery;
+    pages: Map<number, DataRow[]>;
+    total: number | null;
+    error: boolean;
+};
+
+const emptyCache = (fetcher: RowFetcher, query: RowQuery): PageCache => ({ fetcher, query, pages: new Map(), total: null, error: false });
+
+/**
+ * Lignes d'un dataset chargées page par page, à la demande de la grille.
+ * Seules les pages proches de la zone affichée restent en mémoire : on parcourt
+ * des millions de lignes sans que le navigateur les détienne toutes.
+ * Une nouvelle source (`fetcher`, recréé à chaque version du dataset) ou une
+ * nouvelle requête (tri, filtres) repart d'un cache vide.
+ */
+export const usePagedRows = (fetcher: RowFetcher, query: RowQuery) => {
+    const [cache, setCache] = useState<PageCache>(() => emptyCache(fetcher, query));
+    const pending = useRef(new Map<number, AbortController>());
+    const isCurrent = cache.fetcher === fetcher && cache.query === query;
+    const pages = isCurrent ? cache.pages : null;
+
+    // Requêtes en cours abandonnées dès que la source ou la requête change
+    useEffect(() => {
+        const controllers = pending.current;
+        return () => {
+            controllers.forEach(c => c.abort());
+            controllers.clear();
+        };
+    }, [fetcher, query]);
+
+    const ensureRange = useCallback((start: number, end: number) => {
+        const firstPage = Math.floor(Math.max(0, start) / PAGE_SIZE);
+        const lastPage = Math.floor(Math.max(0, end) / PAGE_SIZE);
+        for (let page = firstPage; page <= lastPage; page++) {
+            if (pages?.has(page) || pending.current.has(page)) continue;
+            const controller = new AbortController();
+            pending.current.set(page, controller);
+            fetcher(page * PAGE_SIZE, PAGE_SIZE, query, controller.signal)
+                .then(result => setCache(prev => {
+                    const base = prev.fetcher === fetcher && prev.query === query ? prev : emptyCache(fetcher, query);
+                    const next = new Map(base.pages).set(page, result.rows);
+                    while (next.size > MAX_CACHED_PAGES) {
+                        const farthest = [...next.keys()].reduce((a, b) => Math.abs(b - page) > Math.abs(a - page) ? b : a);
+                        next.delete(farthest);
+                    }
+                    return { ...base, pages: next, total: result.total, error: false };
+                }))
+                .catch(err => {
+                    if (controller.signal.aborted) return;
+                    console.error('Chargement des lignes impossible', err);
+                    setCache(prev => ({ ...(prev.fetcher === fetcher && prev.query === query ? prev : emptyCache(fetcher, query)), error: true }));
+                })
+                .finally(() => {
+                    if (pending.current.get(page) === controller) pending.current.delete(page);
+                });
+        }
+    }, [fetcher, query, pages]);
+
+    const getRow = useCallback((index: number): DataRow | undefined =>
+        pages?.get(Math.floor(index / PAGE_SIZE))?.[index % PAGE_SIZE], [pages]);
+
+    const retry = useCallback(() => setCache(emptyCache(fetcher, query)), [fetcher, query]);
+
+    return {
+        total: isCurrent ? cache.total : null,
+        error: isCurrent && cache.error,
+        getRow,
+        ensureRange,
+        retry,
+    };
+};
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     CheckCircle, Upload, FileSpreadsheet, Trash2, AlertTriangle,
@@ -9,8 +9,37 @@ import {
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { datasetsApi, sessionsApi } from '../services/api';
+import {
+    defaultTextConfig, guessTargetColumn, isTextColumn, validateTarget,
+    type ChartSelection, type DatasetInfo, type DataColumn, type DataRow, type ModelObjective, type NlpMethod, type PipelineConfig, type SplitName, type TextColumnConfig
+} from '../utils/dataProcessor';
+import { datasetsApi, sessionsApi, recipesApi, describeApiError, type UploadOptions } from '../services/api';
+import { buildRecipe, type PipelineRecipe } from '../services/recipes';
+import { buildPythonCells, toNotebook, toPythonScript } from '../services/pythonExport';
+import { downloadBlob, readBlobError, resolveDownloadName } from '../utils/download';
+import { ConversionModal } from '../components/ConversionModal';
+import ColumnProfileDrawer from '../components/ColumnProfileDrawer';
 import DashboardView from '../components/dashboard/DashboardView';
+import { useDatasetVersions } from '../hooks/useDatasetVersions';
+import ImputationStep from '../components/pipeline/ImputationStep';
+import AuditStep from '../components/pipeline/AuditStep';
+import OutliersStep from '../components/pipeline/OutliersStep';
+import EngineeringStep from '../components/pipeline/EngineeringStep';
+import SplitStep from '../components/pipeline/SplitStep';
+import EncodingPanel from '../components/pipeline/EncodingPanel';
+import ImbalanceStep from '../components/pipeline/ImbalanceStep';
+import NlpConfigPanel from '../components/pipeline/NlpConfigPanel';
+import TargetPicker from '../components/pipeline/TargetPicker';
+import AutoPilotProgress from '../components/pipeline/AutoPilotProgress';
+import RecipeReplayPanel from '../components/pipeline/RecipeReplayPanel';
+import SaveRecipeModal from '../components/pipeline/SaveRecipeModal';
+import FilePreviewPanel from '../components/pipeline/FilePreviewPanel';
+import { previewFile, type FilePreview, type PreviewOptions } from '../utils/filePreview';
+import { uploadDataset, discardUpload, isUploadCanceled, type UploadProgress } from '../services/chunkedUpload';
+import {
+    runAutopilotJob, isAutopilotCanceled, toAutopilotParams, initialAutopilotProgress, reduceAutopilotProgress,
+    type AutopilotProgress, type AutopilotSourceMode, type AutopilotStage
+} from '../services/autopilotJobs';
 
 // Pipeline steps - V8.0 POLARS COMPLIANCE VERSION
 const PipelineStep = {
@@ -28,6 +57,16 @@ const PipelineStep = {
 
 type PipelineStepType = typeof PipelineStep[keyof typeof PipelineStep];
 
+// Correspondance entre les étapes émises par l'Auto-Pilot et le stepper
+const AUTOPILOT_STAGE_STEPS: Record<AutopilotStage, PipelineStepType> = {
+    audit: PipelineStep.AUDIT_INITIAL,
+    imputation: PipelineStep.IMPUTATION,
+    outliers: PipelineStep.OUTLIERS,
+    engineering: PipelineStep.ENGINEERING,
+    split: PipelineStep.SPLIT,
+    smote: PipelineStep.SMOTE,
+};
+
 const STEPS = [
     { id: PipelineStep.UPLOAD, name: 'Import', icon: Upload },
     { id: PipelineStep.OVERVIEW, name: 'Analyse', icon: Search },
@@ -42,19 +81,37 @@ const STEPS = [
 ];
 
 const PreprocessingPipeline: React.FC = () => {
-    const { user, isAuthenticated, isGuest, logout, startGuestSession } = useAuth();
+    const { user, isAuthenticated, isGuest, logout, startGuestSession, canAccess, tier } = useAuth();
     const navigate = useNavigate();
     const [currentStep, setCurrentStep] = useState<PipelineStepType>(PipelineStep.UPLOAD);
     const [dataset, setDataset] = useState<any | null>(null);
     const [datasetId, setDatasetId] = useState<string | null>(null);
     const [originalData, setOriginalData] = useState<any[]>([]);
     const [initialColumnInfo, setInitialColumnInfo] = useState<any[]>([]);
-    const [transformations, setTransformations] = useState<string[]>([]);
+    const {
+        versions, index: versionIndex, activeId: activeVersionId, restorable, canUndo, canRedo, transformations, operations,
+        reset: resetVersions, commit: commitVersion, moveTo: moveToVersion
+    } = useDatasetVersions();
+    const versionSnapshots = useMemo(() => versions.map(v => v.snapshot), [versions]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isAutoRunning, setIsAutoRunning] = useState(false);
+    const [pipelineConfig, setPipelineConfig] = useState<PipelineConfig | null>(null);
+    const [chartSelection, setChartSelection] = useState<ChartSelection | null>(null);
+    const [autoProgress, setAutoProgress] = useState<AutopilotProgress>(initialAutopilotProgress);
+    const [autoSourceMode, setAutoSourceMode] = useState<AutopilotSourceMode | null>(null);
     const [fileName, setFileName] = useState('');
     const [showHistory, setShowHistory] = useState(false);
     const [isHistorySession, setIsHistorySession] = useState(false);
     const [history, setHistory] = useState<any[]>([]);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+    const uploadAbortRef = useRef<AbortController | null>(null);
+    // Suivi de l'Auto-Pilot en cours, interrompu si la page est quittée
+    const autopilotAbortRef = useRef<AbortController | null>(null);
+    const [showSaveRecipe, setShowSaveRecipe] = useState(false);
+    const [blockedTrigger, setBlockedTrigger] = useState<string | null>(null);
+
+    useEffect(() => () => autopilotAbortRef.current?.abort(), []);
 
     // Ensure guest session is started if not authenticated
     useEffect(() => {
@@ -123,17 +180,18 @@ const PreprocessingPipeline: React.FC = () => {
                     console.log("[RESTORE] Tentative de récupération des données pour:", datasetId);
                     const response = await datasetsApi.getOne(datasetId);
                     const data = response.data;
-                    setDataset({
+                    const restored = {
                         data: data.data || [],
                         headers: data.headers || [],
                         rows: data.rows || 0,
                         columns: data.columns || 0,
                         columnInfo: data.columnInfo || []
-                    });
+                    };
+                    setDataset(restored);
                     setOriginalData([...(data.data || [])]);
                     setInitialColumnInfo(data.columnInfo || []);
                     setFileName(data.filename || sessionStorage.getItem('current_file_name') || '');
-                    setTransformations(data.pipeline || []);
+                    resetVersions(restored, data.pipeline || []);
                 } catch (err) {
                     console.error("[RESTORE] Échec de la récupération:", err);
                     // Si le dataset n'existe plus côté serveur, on reset
@@ -147,6 +205,8 @@ const PreprocessingPipeline: React.FC = () => {
     }, [datasetId]);
 
     const handleResetSession = useCallback(() => {
+        // Un Auto-Pilot en cours ne doit pas réécrire la nouvelle session vide
+        autopilotAbortRef.current?.abort();
         sessionStorage.removeItem('current_dataset_id');
         sessionStorage.removeItem('current_file_name');
         sessionStorage.removeItem('current_step');
@@ -156,9 +216,11 @@ const PreprocessingPipeline: React.FC = () => {
         setFileName('');
         setCurrentStep(PipelineStep.UPLOAD);
         setIsHistorySession(false);
-        setTransformations([]);
+        resetVersions(null);
+        setPipelineConfig(null);
+        setChartSelection(null);
         console.log("[RESET] Session réinitialisée");
-    }, []);
+    }, [resetVersions]);
 
     const handleSelectSession = useCallback(async (session: any) => {
         setIsLoading(true);
@@ -167,17 +229,20 @@ const PreprocessingPipeline: React.FC = () => {
             const fullData = response.data;
             // Note: In a real app, we might need to load the dataframe into the backend's active memory again
             // For now, we simulate by setting the UI state with the saved data
-            setDataset({
+            const snapshot = {
                 data: fullData.data || [],
                 headers: fullData.headers || (fullData.data?.length > 0 ? Object.keys(fullData.data[0]) : []),
                 rows: fullData.rowCount,
                 columns: fullData.columnCount,
                 columnInfo: [], // Server could provide this
-            });
+            };
+            setDataset(snapshot);
             setOriginalData([...(fullData.data || [])]);
             setFileName(fullData.filename);
             setDatasetId(fullData.dataset_id || session.dataset_id || session.id);
-            setTransformations(fullData.pipeline || []);
+            resetVersions(snapshot, fullData.pipeline || []);
+            setPipelineConfig(fullData.config || null);
+            setChartSelection(fullData.charts || null);
             setIsHistorySession(true);
             setCurrentStep(PipelineStep.DASHBOARD);
             setShowHistory(false);
@@ -186,14 +251,16 @@ const PreprocessingPipeline: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [resetVersions]);
 
-    const handleFileUpload = useCallback(async (file: File) => {
+    const handleFileUpload = useCallback(async (file: File, options?: UploadOptions) => {
         setIsLoading(true);
+        setUploadError(null);
+        const controller = new AbortController();
+        uploadAbortRef.current = controller;
         try {
             console.log("Démarrage de l'upload pour:", file.name, "taille:", file.size);
-            const response = await datasetsApi.upload(file);
-            let info = response.data;
+            let info = await uploadDataset(file, options || {}, { signal: controller.signal, onProgress: setUploadProgress });
             console.log("Upload réussi. Analyse V8.0-POLARS...");
 
             // Correction pour les NaN/Infinity si le serveur a envoyé du texte brut
@@ -230,16 +297,24 @@ const PreprocessingPipeline: React.FC = () => {
             setOriginalData([...(info.data || [])]);
             setInitialColumnInfo([...(info.columnInfo || [])]);
             setFileName(file.name);
-            setTransformations([]);
+            resetVersions(resilientInfo);
+            setChartSelection(null);
             setIsHistorySession(false);
             setCurrentStep(PipelineStep.OVERVIEW);
         } catch (err: any) {
+            if (isUploadCanceled(err)) {
+                await discardUpload(file);
+                return;
+            }
             console.error("Upload error details:", err);
-            // Les messages d'erreur ont été supprimés à la demande de l'utilisateur
+            // Pas de toast (à la demande de l'utilisateur) : l'erreur s'affiche sous l'aperçu du fichier
+            setUploadError(describeApiError(err).message);
         } finally {
+            uploadAbortRef.current = null;
+            setUploadProgress(null);
             setIsLoading(false);
         }
-    }, []);
+    }, [resetVersions]);
 
     const goToStep = (step: PipelineStepType) => {
         if (isHistorySession) return; // Disable navigation in history mode
@@ -254,40 +329,29 @@ const PreprocessingPipeline: React.FC = () => {
         }
     };
 
-    const runAutomation = useCallback(async (objective?: string, algorithm?: string | string[], nlp?: string) => {
+    const runAutomation = useCallback(async (config: PipelineConfig) => {
         if (!datasetId) return;
+        setPipelineConfig(config);
         setIsLoading(true);
+        setIsAutoRunning(true);
+        setAutoProgress(initialAutopilotProgress());
+        setAutoSourceMode(null);
+        setCurrentStep(PipelineStep.AUDIT_INITIAL);
+        autopilotAbortRef.current?.abort();
+        const controller = new AbortController();
+        autopilotAbortRef.current = controller;
         try {
-            // Start the actual backend process
-            const response = await datasetsApi.autopilot(datasetId, {
-                objective,
-                algorithm,
-                nlp,
-                is_guest: isGuest
-            });
-            const info = response.data;
-
-            // SIMULATED PROGRESSION for "WOW" effect and transparency
-            const stepsToAnimate = [
-                PipelineStep.AUDIT_INITIAL,
-                PipelineStep.IMPUTATION,
-                PipelineStep.OUTLIERS,
-                PipelineStep.ENGINEERING,
-                PipelineStep.SPLIT,
-                PipelineStep.SMOTE
-            ];
-
-            for (const step of stepsToAnimate) {
-                setCurrentStep(step as PipelineStepType);
-                await new Promise(r => setTimeout(r, 800)); // Smooth transition
-            }
+            // Le stepper n'avance que sur les événements réellement émis par le serveur
+            const info = await runAutopilotJob(datasetId, toAutopilotParams(config, isGuest), (event) => {
+                setAutoProgress(prev => reduceAutopilotProgress(prev, event));
+                if (event.type === 'stage_start') setCurrentStep(AUTOPILOT_STAGE_STEPS[event.stage]);
+            }, { onMode: setAutoSourceMode, signal: controller.signal });
 
             setDataset(info);
-            if (info.transformations) {
-                setTransformations(prev => [...prev, ...info.transformations]);
-            }
+            commitVersion(info, info.transformations || [], info.version, { kind: 'autopilot', config });
             setCurrentStep(PipelineStep.DASHBOARD);
         } catch (err: any) {
+            if (isAutopilotCanceled(err)) return;
             console.error("Automation error:", err);
             // Don't show alert for 429/403 — the API interceptor already triggers
             // the ConversionModal ("Limite atteinte") via the tier-blocked event
@@ -295,12 +359,177 @@ const PreprocessingPipeline: React.FC = () => {
             if (status !== 429 && status !== 403) {
                 alert('Automation Erreur: ' + (err.response?.data?.message || err.message));
             }
+            setCurrentStep(PipelineStep.CONFIG);
+        } finally {
+            // Un Auto-Pilot relancé entre-temps garde la main sur l'état de chargement
+            if (autopilotAbortRef.current === controller) {
+                autopilotAbortRef.current = null;
+                setIsLoading(false);
+                setIsAutoRunning(false);
+            }
+        }
+    }, [datasetId, isGuest, commitVersion]);
+
+    // Mode manuel : applique une transformation via le backend et l'ajoute au journal
+    const applyProcess = useCallback(async (type: string, params: Record<string, unknown>, journal: string[]) => {
+        if (!datasetId) return false;
+        setIsLoading(true);
+        try {
+            const response = await datasetsApi.process(datasetId, type, params);
+            const info = response.data;
+            const next: DatasetInfo = { ...dataset, ...info, id: info.id || dataset?.id || datasetId };
+            setDataset(next);
+            commitVersion(next, journal, info.version, { kind: 'process', type, params, journal });
+            toast.success(`${journal.length} transformation(s) appliquée(s)`);
+            return true;
+        } catch (err) {
+            console.error(`[PROCESS] ${type} error:`, err);
+            // 403/429 : le ConversionModal est déjà déclenché par l'intercepteur
+            const { status, message } = describeApiError(err);
+            if (status !== 429 && status !== 403) {
+                toast.error('Échec de la transformation : ' + message);
+            }
+            return false;
         } finally {
             setIsLoading(false);
         }
-    }, [datasetId]);
+    }, [datasetId, dataset, commitVersion]);
+
+    // Undo / redo / retour à l'étape N : le serveur restaure la version, le snapshot sert de repli
+    const restoreVersion = useCallback(async (target: number) => {
+        const version = versions[target];
+        if (!datasetId || !version?.snapshot || version.serverVersion === undefined || target === versionIndex) return;
+        setIsLoading(true);
+        try {
+            const response = await datasetsApi.restoreVersion(datasetId, version.serverVersion);
+            const info = response.data?.columnInfo ? response.data : {};
+            setDataset({ ...version.snapshot, ...info, id: version.snapshot.id || datasetId });
+            moveToVersion(target);
+            toast.success(target === 0 ? 'Données initiales restaurées' : `Retour à l'étape ${target}`);
+        } catch (err) {
+            console.error("[VERSION] restore error:", err);
+            toast.error('Restauration impossible : ' + describeApiError(err).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [datasetId, versions, versionIndex, moveToVersion]);
+
+    // Recettes : enregistre les opérations actives pour les rejouer sur un prochain fichier
+    const openSaveRecipe = () => {
+        if (!canAccess('save_pipeline')) {
+            setBlockedTrigger('save_pipeline');
+            return;
+        }
+        setShowSaveRecipe(true);
+    };
+
+    const handleSaveRecipe = async (name: string) => {
+        try {
+            await recipesApi.create(buildRecipe(name, initialColumnInfo, pipelineConfig, operations));
+            toast.success(`Recette « ${name.trim()} » enregistrée`);
+            return true;
+        } catch (err) {
+            console.error("[RECIPE] save error:", err);
+            toast.error("Enregistrement de la recette impossible : " + describeApiError(err).message);
+            return false;
+        }
+    };
+
+    const replayRecipe = useCallback(async (recipe: PipelineRecipe) => {
+        if (!datasetId || !dataset) return;
+        setPipelineConfig(recipe.config);
+        setIsLoading(true);
+        const toastId = toast.loading(`Recette « ${recipe.name} » : démarrage...`);
+        autopilotAbortRef.current?.abort();
+        const controller = new AbortController();
+        autopilotAbortRef.current = controller;
+        let current: DatasetInfo = dataset;
+        let step = 0;
+        try {
+            for (const operation of recipe.operations) {
+                step += 1;
+                toast.loading(`Recette « ${recipe.name} » : opération ${step}/${recipe.operations.length}`, { id: toastId });
+                if (operation.kind === 'autopilot') {
+                    const info = await runAutopilotJob(datasetId, toAutopilotParams(operation.config, isGuest), () => undefined, { signal: controller.signal });
+                    current = info;
+                    commitVersion(info, info.transformations || [], info.version, operation);
+                } else {
+                    const response = await datasetsApi.process(datasetId, operation.type, operation.params);
+                    const info = response.data;
+                    current = { ...current, ...info, id: info.id || current.id || datasetId };
+                    commitVersion(current, operation.journal, info.version, operation);
+                }
+                setDataset(current);
+            }
+            toast.success(`Recette « ${recipe.name} » appliquée`, { id: toastId });
+            setCurrentStep(PipelineStep.DASHBOARD);
+        } catch (err) {
+            if (isAutopilotCanceled(err)) {
+                toast.dismiss(toastId);
+                return;
+            }
+            console.error("[RECIPE] replay error:", err);
+            toast.error(`Recette interrompue à l'opération ${step} : ${describeApiError(err).message}`, { id: toastId });
+        } finally {
+            if (autopilotAbortRef.current === controller) {
+                autopilotAbortRef.current = null;
+                setIsLoading(false);
+            }
+        }
+    }, [datasetId, dataset, isGuest, commitVersion]);
+
+    // Export du pipeline en code pandas / scikit-learn (script ou notebook)
+    const handleExportCode = (format: 'py' | 'ipynb') => {
+        if (!dataset) return;
+        const cells = buildPythonCells({
+            filename: fileName || 'dataset.csv',
+            rows: originalData.length || dataset.rows || 0,
+            schema: initialColumnInfo.length ? initialColumnInfo : dataset.columnInfo,
+            config: pipelineConfig,
+            operations,
+        });
+        const baseName = (fileName || 'pipeline').replace(/\.[^/.]+$/, '');
+        const blob = format === 'py'
+            ? new Blob([toPythonScript(cells)], { type: 'text/x-python' })
+            : new Blob([toNotebook(cells)], { type: 'application/x-ipynb+json' });
+        downloadBlob(blob, `${baseName}_pipeline.${format}`);
+        toast.success(`Exporté : ${baseName}_pipeline.${format}`);
+    };
+
+    // Préprocesseur ajusté côté serveur (joblib) + manifeste des colonnes d'entrée et versions
+    const handleExportFittedPipeline = async () => {
+        if (!datasetId) return;
+        setIsLoading(true);
+        const baseName = (fileName || 'pipeline').replace(/\.[^/.]+$/, '');
+        try {
+            const response = await datasetsApi.exportFittedPipeline(datasetId);
+            downloadBlob(response.data, resolveDownloadName(response.headers, `${baseName}_pipeline.pkl`));
+        } catch (err) {
+            console.error("[EXPORT] fitted pipeline error:", err);
+            const { status, message } = describeApiError(err);
+            if (status !== 403 && status !== 429) {
+                const blobMessage = await readBlobError((err as { response?: { data?: unknown } }).response?.data);
+                toast.error("Export du pipeline impossible : " + (blobMessage || message));
+            }
+            setIsLoading(false);
+            return;
+        }
+        try {
+            const manifest = await datasetsApi.getPipelineManifest(datasetId);
+            downloadBlob(
+                new Blob([JSON.stringify(manifest.data, null, 2)], { type: 'application/json' }),
+                `${baseName}_pipeline_manifest.json`
+            );
+            toast.success('Pipeline entraîné et manifeste téléchargés');
+        } catch (err) {
+            console.warn("[EXPORT] manifest unavailable:", err);
+            toast.warning('Pipeline téléchargé, mais le manifeste est indisponible : ' + describeApiError(err).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
 
-    const handleSaveAndExport = async (format: 'csv' | 'xlsx' | 'json' | 'xml' = 'csv') => {
+    const handleSaveAndExport = async (format: 'csv' | 'xlsx' | 'json' | 'xml' = 'csv', split?: SplitName) => {
         if (!dataset || !datasetId) return;
         setIsLoading(true);
 
@@ -313,35 +542,27 @@ const PreprocessingPipeline: React.FC = () => {
                         dataset_id: datasetId,
                         rowCount: dataset.rows || 0,
                         columnCount: dataset.columns || 0,
-                        pipeline: transformations || []
+                        pipeline: transformations || [],
+                        config: pipelineConfig,
+                        target: pipelineConfig?.target || null,
+                        charts: chartSelection
                     });
                 } catch (sessionErr) {
                     console.warn("[EXPORT] Session save failed (non-blocking):", sessionErr);
                 }
             }
 
-            const cleanBaseName = fileName
+            const cleanBaseName = (fileName
                 ? fileName.replace(/\.[^/.]+$/, "")
-                : `donnees_pretraitees`;
+                : `donnees_pretraitees`) + (split ? `_${split}` : '');
 
             console.log(`[EXPORT] Starting export — dataset: ${datasetId}, format: ${format}`);
 
             // ── Appel API avec responseType: 'blob' ──
-            const response = await datasetsApi.export(datasetId, format, cleanBaseName);
+            const response = await datasetsApi.export(datasetId, format, cleanBaseName, split);
 
             // ── Extraction du nom de fichier ──
-            const disposition = response.headers['content-disposition'] || '';
-            const customHeader = response.headers['x-suggested-filename'] || '';
-            let downloadFileName = `${cleanBaseName}.${format}`;
-
-            if (customHeader) {
-                downloadFileName = customHeader;
-            } else {
-                const rfcMatch = disposition.match(/filename\*=UTF-8''([^;\s]+)/i);
-                const simpleMatch = disposition.match(/filename="?([^";\n]+)"?/i);
-                if (rfcMatch?.[1]) downloadFileName = decodeURIComponent(rfcMatch[1]);
-                else if (simpleMatch?.[1]) downloadFileName = simpleMatch[1].trim();
-            }
+            const downloadFileName = resolveDownloadName(response.headers, `${cleanBaseName}.${format}`);
 
             console.log(`[EXPORT] Resolved filename: "${downloadFileName}"`);
 
@@ -351,21 +572,8 @@ const PreprocessingPipeline: React.FC = () => {
                 : new Blob([response.data], { type: response.headers['content-type'] || 'application/octet-stream' });
 
             // ── Déclenchement du téléchargement ──
-            const url = URL.createObjectURL(blob);
-            const anchor = document.createElement('a');
-            anchor.href = url;
-            anchor.download = downloadFileName;   // ← doit être AVANT appendChild + click
-            anchor.style.display = 'none';
-            document.body.appendChild(anchor);    // ← requis pour Firefox
-            anchor.click();
-
-            console.log(`[EXPORT] Click triggered for: "${anchor.download}"`);
-
-            // Nettoyage différé (laisser le temps au téléchargement de démarrer)
-            setTimeout(() => {
-                document.body.removeChild(anchor);
-                URL.revokeObjectURL(url);
-            }, 2000);
+            downloadBlob(blob, downloadFileName);
+            console.log(`[EXPORT] Click triggered for: "${downloadFileName}"`);
 
             toast.success(`Exporté : ${downloadFileName}`);
 
@@ -512,52 +720,108 @@ const PreprocessingPipeline: React.FC = () => {
                         transition={{ duration: 0.3 }}
                     >
                         {currentStep === PipelineStep.UPLOAD && (
-                            <UploadStep onUpload={handleFileUpload} isLoading={isLoading} />
+                            <UploadStep
+                                onUpload={handleFileUpload}
+                                onCancelUpload={() => uploadAbortRef.current?.abort()}
+                                isLoading={isLoading}
+                                uploadError={uploadError}
+                                uploadProgress={uploadProgress}
+                            />
                         )}
                         {currentStep === PipelineStep.OVERVIEW && dataset && (
-                            <OverviewStep dataset={dataset} onNext={nextStep} />
+                            <OverviewStep dataset={dataset} datasetId={datasetId} version={activeVersionId} transformations={transformations} onNext={nextStep} />
                         )}
                         {currentStep === PipelineStep.CONFIG && (
-                            <AutoPilotStep onAuto={runAutomation} />
+                            <RecipeReplayPanel columns={dataset?.columnInfo || []} onReplay={replayRecipe} />
                         )}
-                        {(currentStep >= PipelineStep.AUDIT_INITIAL && currentStep <= PipelineStep.SMOTE) && (
-                            <div className="bg-white rounded-2xl shadow-sm p-12 flex flex-col items-center justify-center space-y-8 min-h-[400px]">
-                                <div className="relative">
-                                    <div className="w-24 h-24 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
-                                    <div className="absolute inset-0 flex items-center justify-center">
-                                        <Database className="h-8 w-8 text-primary animate-pulse" />
-                                    </div>
-                                </div>
-                                <div className="text-center space-y-3">
-                                    <h3 className="text-2xl font-bold text-navy">Auto-Pilot en cours...</h3>
-                                    <p className="text-gray-500 max-w-sm mx-auto">
-                                        Notre IA applique les protocoles de préparation V8.0 sur votre dataset.
-                                    </p>
-                                    <div className="flex items-center justify-center gap-2 mt-4">
-                                        <div className="flex gap-1">
-                                            {[0, 1, 2].map(i => (
-                                                <motion.div
-                                                    key={i}
-                                                    className="w-2 h-2 bg-primary rounded-full"
-                                                    animate={{ y: [0, -5, 0] }}
-                                                    transition={{ repeat: Infinity, duration: 0.6, delay: i * 0.1 }}
-                                                />
-                                            ))}
-                                        </div>
-                                        <span className="text-xs font-bold text-primary uppercase tracking-widest">
-                                            {STEPS[currentStep].name}
-                                        </span>
-                                    </div>
-                                </div>
+                        {currentStep === PipelineStep.CONFIG && (
+                            <AutoPilotStep
+                                columns={dataset?.columnInfo || []}
+                                rows={dataset?.data || []}
+                                datasetId={datasetId}
+                                onAuto={runAutomation}
+                                onManual={(config) => { setPipelineConfig(config); setCurrentStep(PipelineStep.AUDIT_INITIAL); }}
+                            />
+                        )}
+                        {currentStep === PipelineStep.AUDIT_INITIAL && !isAutoRunning && dataset && datasetId && (
+                            <AuditStep dataset={dataset} target={pipelineConfig?.target} onApply={applyProcess} onNext={nextStep} />
+                        )}
+                        {currentStep === PipelineStep.IMPUTATION && !isAutoRunning && dataset && datasetId && (
+                            <ImputationStep dataset={dataset} datasetId={datasetId} onApply={applyProcess} onNext={nextStep} />
+                        )}
+                        {currentStep === PipelineStep.OUTLIERS && !isAutoRunning && dataset && datasetId && (
+                            <OutliersStep dataset={dataset} datasetId={datasetId} onApply={applyProcess} onNext={nextStep} />
+                        )}
+                        {currentStep === PipelineStep.ENGINEERING && !isAutoRunning && dataset && datasetId && (
+                            <EngineeringStep dataset={dataset} target={pipelineConfig?.target} onApply={applyProcess} onNext={nextStep} />
+                        )}
+                        {currentStep === PipelineStep.SPLIT && !isAutoRunning && dataset && datasetId && (
+                            <div className="space-y-6">
+                                <SplitStep dataset={dataset} config={pipelineConfig} onApply={applyProcess} onNext={nextStep} />
+                                {/* Encodage et scaling ajustés sur le train : disponibles une fois le split appliqué */}
+                                {dataset.split && <EncodingPanel dataset={dataset} config={pipelineConfig} onApply={applyProcess} />}
                             </div>
                         )}
+                        {currentStep === PipelineStep.SMOTE && !isAutoRunning && dataset && datasetId && (
+                            <ImbalanceStep
+                                dataset={dataset}
+                                config={pipelineConfig}
+                                onApply={applyProcess}
+                                onGoToSplit={() => setCurrentStep(PipelineStep.SPLIT)}
+                                onNext={nextStep}
+                            />
+                        )}
+                        {(currentStep >= PipelineStep.AUDIT_INITIAL && currentStep <= PipelineStep.SMOTE) && isAutoRunning && (
+                            <AutoPilotProgress
+                                progress={autoProgress}
+                                mode={autoSourceMode}
+                                labels={Object.fromEntries(Object.entries(AUTOPILOT_STAGE_STEPS).map(([stage, step]) => [stage, STEPS[step].name])) as Record<AutopilotStage, string>}
+                            />
+                        )}
                         {currentStep === PipelineStep.DASHBOARD && dataset && (
-                            <DashboardView dataset={dataset} originalData={originalData} initialColumnInfo={initialColumnInfo} transformations={transformations} onExport={handleSaveAndExport} />
+                            <DashboardView
+                                dataset={dataset}
+                                originalData={originalData}
+                                initialColumnInfo={initialColumnInfo}
+                                transformations={transformations}
+                                onExport={handleSaveAndExport}
+                                onExportCode={handleExportCode}
+                                onExportPipeline={isHistorySession ? undefined : handleExportFittedPipeline}
+                                onSaveRecipe={isHistorySession ? undefined : openSaveRecipe}
+                                canSaveRecipe={operations.length > 0}
+                                chartSelection={chartSelection}
+                                onChartSelectionChange={setChartSelection}
+                                fileName={fileName}
+                                dataVersion={activeVersionId}
+                                versionControl={isHistorySession ? undefined : {
+                                    versions: versions.map(v => v.journal),
+                                    snapshots: versionSnapshots,
+                                    index: versionIndex,
+                                    restorable,
+                                    canUndo,
+                                    canRedo,
+                                    onUndo: () => restoreVersion(versionIndex - 1),
+                                    onRedo: () => restoreVersion(versionIndex + 1),
+                                    onRollback: restoreVersion,
+                                }}
+                            />
                         )}
                     </motion.div>
                 </AnimatePresence>
             </div>
 
+            {showSaveRecipe && (
+                <SaveRecipeModal
+                    defaultName={fileName.replace(/\.[^/.]+$/, '')}
+                    operationsCount={operations.length}
+                    onClose={() => setShowSaveRecipe(false)}
+                    onSave={handleSaveRecipe}
+                />
+            )}
+            {blockedTrigger && (
+                <ConversionModal trigger={blockedTrigger} currentTier={tier} onClose={() => setBlockedTrigger(null)} />
+            )}
+
             {/* History sidebar */}
             <AnimatePresence>
                 {showHistory && (
@@ -632,9 +896,75 @@ const PreprocessingPipeline: React.FC = () => {
 
 // === SUB-COMPONENTS ===
 
-// Upload Step
-const UploadStep: React.FC<{ onUpload: (f: File) => void; isLoading: boolean }> = ({ onUpload, isLoading }) => {
+// Upload Step : aperçu et validation dans le navigateur avant l'envoi au serveur
+const UploadStep: React.FC<{
+    onUpload: (f: File, options?: UploadOptions) => void;
+    onCancelUpload: () => void;
+    isLoading: boolean;
+    uploadError: string | null;
+    uploadProgress: UploadProgress | null;
+}> = ({ onUpload, onCancelUpload, isLoading, uploadError, uploadProgress }) => {
     const [dragOver, setDragOver] = useState(false);
+    const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<FilePreview | null>(null);
+    const [isParsing, setIsParsing] = useState(false);
+
+    const readPreview = async (f: File, options?: PreviewOptions) => {
+        setIsParsing(true);
+        try {
+            setPreview(await previewFile(f, options));
+        } catch (err) {
+            console.error("Preview error:", err);
+            setPreview({
+                kind: 'csv', headers: [], rows: [], columns: [], hasHeader: false, warnings: [],
+                errors: ['Lecture du fichier impossible : ' + (err instanceof Error ? err.message : String(err))],
+            });
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const selectFile = (f: File) => {
+        setFile(f);
+        setPreview(null);
+        readPreview(f);
+    };
+
+    // Les options détectées sont figées pour que seul le paramètre modifié change
+    const changeOptions = (change: PreviewOptions) => {
+        if (!file || !preview) return;
+        readPreview(file, { delimiter: preview.delimiter, encoding: preview.encoding, hasHeader: preview.hasHeader, sheet: preview.sheet, ...change });
+    };
+
+    const confirmUpload = () => {
+        if (!file || !preview) return;
+        onUpload(file, {
+            delimiter: preview.kind === 'csv' ? preview.delimiter : undefined,
+            encoding: preview.kind === 'csv' ? preview.encoding : undefined,
+            has_header: preview.kind === 'csv' || preview.kind === 'excel' ? preview.hasHeader : undefined,
+            sheet: preview.sheet,
+        });
+    };
+
+    if (file && preview) {
+        return (
+            <div className="bg-white rounded-2xl shadow-sm p-4 sm:p-8">
+                <h3 className="text-xl font-bold text-navy mb-6">Vérifier le fichier avant import</h3>
+                <FilePreviewPanel
+                    file={file}
+                    preview={preview}
+                    isParsing={isParsing}
+                    isUploading={isLoading}
+                    uploadError={uploadError}
+                    uploadProgress={uploadProgress}
+                    onCancelUpload={onCancelUpload}
+                    onChangeOptions={changeOptions}
+                    onCancel={() => { setFile(null); setPreview(null); }}
+                    onConfirm={confirmUpload}
+                />
+            </div>
+        );
+    }
 
     return (
         <div className="bg-white rounded-2xl shadow-sm p-4 sm:p-8">
@@ -643,12 +973,12 @@ const UploadStep: React.FC<{ onUpload: (f: File) => void; isLoading: boolean }>
                 className={`border-2 border-dashed rounded-2xl p-8 sm:p-16 text-center transition-all ${dragOver ? 'border-primary bg-primary-50' : 'border-gray-200 hover:border-primary-300'}`}
                 onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
                 onDragLeave={() => setDragOver(false)}
-                onDrop={(e) => { e.preventDefault(); setDragOver(false); const f = e.dataTransfer.files[0]; if (f) onUpload(f); }}
+                onDrop={(e) => { e.preventDefault(); setDragOver(false); const f = e.dataTransfer.files[0]; if (f) selectFile(f); }}
             >
-                {isLoading ? (
+                {isLoading || isParsing ? (
                     <div className="flex flex-col items-center gap-3">
                         <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-                        <p className="text-gray-600">Analyse en cours...</p>
+                        <p className="text-gray-600">{isParsing ? 'Lecture des premières lignes...' : 'Analyse en cours...'}</p>
                     </div>
                 ) : (
                     <>
@@ -658,7 +988,7 @@ const UploadStep: React.FC<{ onUpload: (f: File) => void; isLoading: boolean }>
                         <label className="btn-primary rounded-xl cursor-pointer inline-flex gap-2 px-6 py-3 shadow-lg shadow-blue-200">
                             <FileSpreadsheet className="h-5 w-5" />
                             Parcourir les fichiers
-                            <input type="file" accept=".csv,.tsv,.xlsx,.xls,.json,.xml" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) onUpload(f); }} />
+                            <input type="file" accept=".csv,.tsv,.xlsx,.xls,.json,.xml" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) selectFile(f); e.target.value = ''; }} />
                         </label>
                     </>
                 )}
@@ -668,8 +998,9 @@ const UploadStep: React.FC<{ onUpload: (f: File) => void; isLoading: boolean }>
 };
 
 // Overview Step
-const OverviewStep: React.FC<{ dataset: any; onNext: () => void }> = ({ dataset, onNext }) => {
+const OverviewStep: React.FC<{ dataset: any; datasetId: string | null; version: number | null; transformations: string[]; onNext: () => void }> = ({ dataset, datasetId, version, transformations, onNext }) => {
     const bottomRef = useRef<HTMLDivElement>(null);
+    const [profileColumn, setProfileColumn] = useState<DataColumn | null>(null);
 
     const scrollToBottom = () => {
         bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -727,7 +1058,12 @@ const OverviewStep: React.FC<{ dataset: any; onNext: () => void }> = ({ dataset,
                             </thead>
                             <tbody>
                                 {(dataset.columnInfo || []).map((col: any, i: number) => (
-                                    <tr key={col.name} className={i % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'}>
+                                    <tr
+                                        key={col.name}
+                                        onClick={() => setProfileColumn(col)}
+                                        className={`cursor-pointer hover:bg-primary-50/50 transition-colors ${i % 2 === 0 ? 'bg-white' : 'bg-gray-50/50'}`}
+                                        title="Voir le profil de la colonne"
+                                    >
                                         <td className="p-3 font-medium text-navy-800">{col.name}</td>
                                         <td className="p-3">
                                             <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${col.type === 'numeric' ? 'bg-blue-100 text-blue-700' : 'bg-primary-50 text-primary-700'}`}>
@@ -796,18 +1132,35 @@ const OverviewStep: React.FC<{ dataset: any; onNext: () => void }> = ({ dataset,
                     </div>
                 </div>
             </div>
+
+            <ColumnProfileDrawer
+                column={profileColumn}
+                rows={dataset.data || []}
+                headers={dataset.headers || []}
+                datasetId={datasetId}
+                version={version}
+                transformations={transformations}
+                onClose={() => setProfileColumn(null)}
+            />
         </div>
     );
 };
 
 const AutoPilotStep: React.FC<{
-    onAuto: (obj: string, algos: string[], nlp: string) => void
-}> = ({ onAuto }) => {
+    columns: DataColumn[];
+    rows: DataRow[];
+    datasetId: string | null;
+    onAuto: (config: PipelineConfig) => void;
+    onManual: (config: PipelineConfig) => void;
+}> = ({ columns, rows, datasetId, onAuto, onManual }) => {
     const { isGuest } = useAuth();
     const navigate = useNavigate();
-    const [objective, setObjective] = useState('classification');
+    const [objective, setObjective] = useState<ModelObjective>('classification');
+    const [target, setTarget] = useState(() => guessTargetColumn(columns, 'classification'));
     const [selectedAlgos, setSelectedAlgos] = useState<string[]>(['auto']);
     const [nlpMode, setNlpMode] = useState('none');
+    // Réglages NLP modifiés colonne par colonne ; les autres suivent le mode global
+    const [nlpOverrides, setNlpOverrides] = useState<Record<string, TextColumnConfig>>({});
     const [showBlockedModal, setShowBlockedModal] = useState<string | null>(null);
     const [showProSoon, setShowProSoon] = useState(false);
 
@@ -837,6 +1190,28 @@ const AutoPilotStep: React.FC<{
 
     const activeGroup = getActiveGroup(selectedAlgos);
 
+    const targetValidation = validateTarget(columns.find(c => c.name === target), objective);
+
+    const textColumns = columns.filter(c => c.name !== target && isTextColumn(c, rows)).map(c => c.name);
+    const defaultNlpMethod: NlpMethod = nlpMode === 'embeddings' ? 'bert' : nlpMode === 'tfidf' ? 'tfidf' : 'none';
+    const nlpColumns: Record<string, TextColumnConfig> = Object.fromEntries(
+        textColumns.map(name => [name, nlpOverrides[name] ?? defaultTextConfig(defaultNlpMethod)])
+    );
+
+    const buildConfig = (): PipelineConfig => ({
+        objective,
+        algorithm: selectedAlgos,
+        nlp: nlpMode === 'none' ? '' : nlpMode,
+        nlp_columns: nlpMode === 'none' || textColumns.length === 0 ? undefined : nlpColumns,
+        target: objective === 'clustering' ? undefined : target,
+    });
+
+    const changeObjective = (next: ModelObjective) => {
+        setObjective(next);
+        if (next === 'clustering') setTarget('');
+        else if (!validateTarget(columns.find(c => c.name === target), next).valid) setTarget(guessTargetColumn(columns, next));
+    };
+
     const toggleAlgo = (id: string) => {
         if (id === 'auto') {
             setSelectedAlgos(['auto']);
@@ -895,7 +1270,7 @@ const AutoPilotStep: React.FC<{
                             <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-3 ml-1 opacity-70">1. Objectif Business</label>
                             <select
                                 value={objective}
-                                onChange={(e) => setObjective(e.target.value)}
+                                onChange={(e) => changeObjective(e.target.value as ModelObjective)}
                                 className="w-full bg-white border border-gray-200 rounded-xl px-4 py-3 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none transition-all cursor-pointer font-medium"
                             >
                                 <option value="classification">Classification (Prédire une catégorie)</option>
@@ -905,7 +1280,12 @@ const AutoPilotStep: React.FC<{
                         </div>
 
                         <div>
-                            <label className="block text-[9px] font-black text-blue-700 uppercase tracking-widest mb-2 ml-1 opacity-70">2. Algorithmes Ciblés (Sélection par Famille)</label>
+                            <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-3 ml-1 opacity-70">2. Colonne Cible</label>
+                            <TargetPicker columns={columns} datasetId={datasetId} objective={objective} target={target} onChange={setTarget} />
+                        </div>
+
+                        <div>
+                            <label className="block text-[9px] font-black text-blue-700 uppercase tracking-widest mb-2 ml-1 opacity-70">3. Algorithmes Ciblés (Sélection par Famille)</label>
 
                             {/* Auto-Sélection */}
                             <button
@@ -966,7 +1346,7 @@ const AutoPilotStep: React.FC<{
                         </div>
 
                         <div>
-                            <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-3 ml-1 opacity-70">3. Prétraitement NLP (Texte)</label>
+                            <label className="block text-[10px] font-black text-primary uppercase tracking-widest mb-3 ml-1 opacity-70">4. Prétraitement NLP (Texte)</label>
                             {isGuest ? (
                                 <div
                                     onClick={() => setShowBlockedModal('nlp_tfidf')}
@@ -978,7 +1358,7 @@ const AutoPilotStep: React.FC<{
                             ) : (
                                 <select
                                     value={nlpMode}
-                                    onChange={(e) => setNlpMode(e.target.value)}
+                                    onChange={(e) => { setNlpMode(e.target.value); setNlpOverrides({}); }}
                                     className="w-full bg-white border border-gray-200 rounded-xl px-4 py-3 text-sm focus:ring-4 focus:ring-primary/10 focus:border-primary outline-none transition-all cursor-pointer font-medium"
                                 >
                                     <option value="none">Désactivé (Données tabulaires simples)</option>
@@ -986,6 +1366,15 @@ const AutoPilotStep: React.FC<{
                                     <option value="embeddings">Sentence Embeddings (Sémantique profonde)</option>
                                 </select>
                             )}
+                            {!isGuest && nlpMode !== 'none' && (
+                                <NlpConfigPanel
+                                    columns={textColumns}
+                                    rows={rows}
+                                    datasetId={datasetId}
+                                    value={nlpColumns}
+                                    onChange={(column, config) => setNlpOverrides(prev => ({ ...prev, [column]: config }))}
+                                />
+                            )}
                         </div>
                     </div>
 
@@ -994,13 +1383,22 @@ const AutoPilotStep: React.FC<{
                     </p>
 
                     <button
-                        onClick={() => onAuto(objective, selectedAlgos, nlpMode === 'none' ? '' : nlpMode)}
-                        className="w-full btn-primary rounded-2xl py-4 shadow-xl shadow-blue-200 flex items-center justify-center gap-3 text-base font-bold transform transition-transform hover:scale-[1.02] active:scale-[0.98]"
+                        onClick={() => onAuto(buildConfig())}
+                        disabled={!targetValidation.valid}
+                        className="w-full btn-primary rounded-2xl py-4 shadow-xl shadow-blue-200 flex items-center justify-center gap-3 text-base font-bold transform transition-transform hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                     >
                         Lancer l'automatisation du Pipeline <ChevronRight className="h-5 w-5" />
                         {isGuest && <span className="ml-2 text-[10px] bg-white/20 px-2 py-0.5 rounded-full">Mode Invité</span>}
                     </button>
 
+                    <button
+                        onClick={() => onManual(buildConfig())}
+                        disabled={!targetValidation.valid}
+                        className="w-full mt-3 py-3 rounded-2xl border-2 border-gray-200 text-navy font-semibold text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Configurer étape par étape (mode manuel)
+                    </button>
+
                     {/* Blocked feature modal */}
                     {showBlockedModal && (
                         <div
@@ -1010,8 +1408,8 @@ const AutoPilotStep: React.FC<{
                             <div onClick={e => e.stopPropagation()} className="bg-white rounded-2xl p-8 max-w-md w-[90%] shadow-2xl text-center">
                                 <h3 className="text-xl font-bold text-navy mb-3">Fonctionnalité Membres</h3>
                                 <p className="text-gray-500 text-sm mb-6">
-                                    {showBlockedModal === 'nlp_embeddings'
-                                        ? 'Le traitement NLP avancé (Word2Vec, BERT) est réservé aux membres enregistrés.'
+                                    {showBlockedModal === 'nlp_tfidf'
+                                        ? 'Le traitement NLP avancé (TF-IDF, Word2Vec, BERT) est réservé aux membres enregistrés.'
                                         : 'Cette méthode avancée nécessite un compte pour être activée.'}
                                 </p>
                                 <div className="flex flex-col gap-3">
@@ -1,6 +1,8 @@
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
+import type { PipelineRecipe } from './recipes';
+import type { CorrelationMethod, RowPage, RowQuery, TimeAggregation, TimeFrequency, TimePoint } from '../utils/dataProcessor';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 const api = axios.create({
     baseURL: API_URL,
@@ -81,46 +83,109 @@ api.interceptors.response.use(
     }
 );
 
+// Statut + message lisible d'une erreur API (les data Blob ont déjà été parsées par l'intercepteur)
+export const describeApiError = (err: unknown): { status?: number; message: string } => {
+    if (axios.isAxiosError(err)) {
+        const data = err.response?.data as { message?: string; error?: string } | undefined;
+        return { status: err.response?.status, message: data?.message || data?.error || err.message };
+    }
+    return { message: err instanceof Error ? err.message : String(err) };
+};
+
 export const authApi = {
     login: (email: string, password: string) => api.post('/auth/login', { email, password }),
     register: (name: string, email: string, password: string) => api.post('/auth/register', { name, email, password }),
     guestLogin: () => api.post('/auth/guest'),
 };
 
+export type AutopilotParams = { objective?: string; algorithm?: string | string[]; nlp?: string; nlp_columns?: Record<string, unknown>; target?: string; is_guest?: boolean };
+
+// Paramètres de lecture confirmés par l'utilisateur dans l'aperçu avant upload
+export type UploadOptions = { delimiter?: string; encoding?: string; has_header?: boolean; sheet?: string };
+
+export type UploadRequestConfig = Pick<AxiosRequestConfig, 'onUploadProgress' | 'signal'>;
+
 export const datasetsApi = {
-    upload: (file: File) => {
+    upload: (file: File, options: UploadOptions = {}, config: UploadRequestConfig = {}) => {
         const formData = new FormData();
         formData.append('file', file);
         formData.append('filename', file.name); // ✅ Envoi explicite du nom original
+        // Paramètres de lecture validés dans l'aperçu client
+        Object.entries(options).forEach(([key, value]) => {
+            if (value !== undefined) formData.append(key, String(value));
+        });
 
         // On supprime le header Content-Type par défaut pour cette requête spécifique
         // afin que le navigateur génère automatiquement le boundary correct
         return api.post('/datasets/upload', formData, {
             headers: { 'Content-Type': false }, // Axios 1.x tip: false supprime le default
             timeout: 120000, // 2 minutes for processing large files
+            ...config,
         });
     },
-    getStats: (datasetId: string, column: string) => api.get(`/datasets/${datasetId}/stats`, { params: { column } }),
-    getCorrelation: (datasetId: string) => api.get(`/datasets/${datasetId}/correlation`),
-    getDistribution: (datasetId: string, column: string, bins?: number) => api.get(`/datasets/${datasetId}/distribution`, { params: { column, bins } }),
-    getCategories: (datasetId: string, column: string, top_n?: number) => api.get(`/datasets/${datasetId}/categories`, { params: { column, top_n } }),
+    // Upload par morceaux : init → PUT de chaque morceau → complete (déclenche l'analyse serveur)
+    startUpload: (meta: { filename: string; size: number; chunk_size: number; total_chunks: number; options: UploadOptions }) =>
+        api.post('/datasets/uploads', meta),
+    getUpload: (uploadId: string) => api.get(`/datasets/uploads/${uploadId}`),
+    uploadChunk: (uploadId: string, index: number, chunk: Blob, config: UploadRequestConfig = {}) =>
+        api.put(`/datasets/uploads/${uploadId}/chunks/${index}`, chunk, {
+            headers: { 'Content-Type': 'application/octet-stream' },
+            timeout: 60000,
+            ...config,
+        }),
+    completeUpload: (uploadId: string, config: UploadRequestConfig = {}) =>
+        api.post(`/datasets/uploads/${uploadId}/complete`, null, { timeout: 120000, ...config }),
+    abortUpload: (uploadId: string) => api.delete(`/datasets/uploads/${uploadId}`),
+    getStats: (datasetId: string, column: string, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.get(`/datasets/${datasetId}/stats`, { params: { column }, ...config }),
+    getCorrelation: (datasetId: string, method: CorrelationMethod = 'pearson') => api.get(`/datasets/${datasetId}/correlation`, { params: { method } }),
+    getDistribution: (datasetId: string, column: string, bins?: number, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.get(`/datasets/${datasetId}/distribution`, { params: { column, bins }, ...config }),
+    getCategories: (datasetId: string, column: string, top_n?: number, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.get(`/datasets/${datasetId}/categories`, { params: { column, top_n }, ...config }),
     getTypes: (datasetId: string) => api.get(`/datasets/${datasetId}/types`),
     getScatter: (datasetId: string, x: string, y: string, sample?: number) => api.get(`/datasets/${datasetId}/scatter`, { params: { x, y, sample } }),
+    // Lignes paginées de la version courante : tri et filtres appliqués côté serveur
+    getRows: (datasetId: string, offset: number, limit: number, query: RowQuery, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.get<RowPage>(`/datasets/${datasetId}/rows`, {
+            params: { offset, limit, sort: query.sort, order: query.order, filters: JSON.stringify(query.filters) },
+            ...config,
+        }),
     getQuality: (datasetId: string) => api.get(`/datasets/${datasetId}/quality`),
     analyzeMissing: (datasetId: string) => api.get(`/datasets/${datasetId}/analyze-missing`),
     getFunnel: (datasetId: string, column: string) => api.get(`/datasets/${datasetId}/funnel`, { params: { column } }),
+    // Effectif par période (et métrique agrégée) : seules les périodes non vides sont renvoyées
+    getTimeSeries: (datasetId: string, column: string, frequency: TimeFrequency, metric?: string, aggregation?: TimeAggregation) =>
+        api.get<TimePoint[]>(`/datasets/${datasetId}/timeseries`, { params: { column, frequency, metric, aggregation } }),
     getWaterfall: (datasetId: string, initial: number, transforms: string[]) => api.get(`/datasets/${datasetId}/waterfall`, { params: { initial, transforms: JSON.stringify(transforms) } }),
     getGauge: (datasetId: string) => api.get(`/datasets/${datasetId}/gauge`),
     process: (datasetId: string, type: string, params: any) => api.post(`/datasets/${datasetId}/process`, { type, params }),
-    autopilot: (datasetId: string, params?: { objective?: string; algorithm?: string | string[]; nlp?: string; is_guest?: boolean }) =>
-        api.post(`/datasets/${datasetId}/autopilot`, params),
-    export: (datasetId: string, format: string, filename?: string) =>
+    detectOutliers: (datasetId: string, method: string, columns: string[], contamination?: number) =>
+        api.post(`/datasets/${datasetId}/outliers/detect`, { method, columns, contamination }),
+    // Aperçu des embeddings d'une colonne texte (normes des vecteurs sur un échantillon)
+    previewTextEmbeddings: (datasetId: string, column: string, method: string, model: string, sample = 20) =>
+        api.post(`/datasets/${datasetId}/nlp/preview`, { column, method, model, sample }, { timeout: 60000 }),
+    autopilot: (datasetId: string, params?: AutopilotParams, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.post(`/datasets/${datasetId}/autopilot`, params, config),
+    // Auto-Pilot asynchrone : job suivi par SSE (`/events`) ou par polling
+    // Réponse : { job_id, stream_ticket? } — le ticket, à usage unique, ouvre le flux SSE des événements
+    startAutopilotJob: (datasetId: string, params?: AutopilotParams, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.post(`/datasets/${datasetId}/autopilot/jobs`, params, config),
+    getAutopilotJob: (datasetId: string, jobId: string, since?: number, config: Pick<AxiosRequestConfig, 'signal'> = {}) =>
+        api.get(`/datasets/${datasetId}/autopilot/jobs/${jobId}`, { params: { since }, ...config }),
+    // `split` : n'exporte que l'ensemble train, validation ou test issu de l'étape Split
+    export: (datasetId: string, format: string, filename?: string, split?: string) =>
         api.get(`/datasets/${datasetId}/export`, {
-            params: { format, filename },
+            params: { format, filename, split },
             responseType: 'blob',
             timeout: 60000
         }),
+    // Préprocesseur ajusté (joblib) et manifeste : colonnes d'entrée, dtypes, versions des librairies
+    exportFittedPipeline: (datasetId: string) =>
+        api.get(`/datasets/${datasetId}/pipeline/export`, { responseType: 'blob', timeout: 60000 }),
+    getPipelineManifest: (datasetId: string) => api.get(`/datasets/${datasetId}/pipeline/manifest`),
     getOne: (id: string) => api.get(`/datasets/${id}`),
+    restoreVersion: (datasetId: string, version: string | number) => api.post(`/datasets/${datasetId}/versions/${version}/restore`),
 };
 
 export const sessionsApi = {
@@ -131,6 +196,13 @@ export const sessionsApi = {
     delete: (id: string) => api.delete(`/sessions/${id}`),
 };
 
+// Recettes de pipeline réutilisables (fonctionnalité `save_pipeline`)
+export const recipesApi = {
+    create: (recipe: PipelineRecipe) => api.post('/recipes/', recipe),
+    getAll: () => api.get('/recipes/'),
+    delete: (id: string) => api.delete(`/recipes/${id}`),
+};
+
 export const chatApi = {
     sendMessage: (message: string, conversationId?: string) =>
         api.post('/chat/message', { message, conversation_id: conversationId }),
@@ -0,0 +1,280 @@
+import axios from 'axios';
+import { API_URL, datasetsApi, describeApiError, type AutopilotParams } from './api';
+import type { DatasetInfo, PipelineConfig } from '../utils/dataProcessor';
+
+// Étapes émises par le backend pendant l'Auto-Pilot (ordre d'exécution)
+export const AUTOPILOT_STAGES = ['audit', 'imputation', 'outliers', 'engineering', 'split', 'smote'] as const;
+
+export type AutopilotStage = typeof AUTOPILOT_STAGES[number];
+
+export type AutopilotResult = DatasetInfo & { transformations?: string[]; version?: string | number };
+
+export type AutopilotEvent =
+    | { type: 'stage_start'; stage: AutopilotStage }
+    | { type: 'log'; stage: AutopilotStage; message: string }
+    | { type: 'stage_end'; stage: AutopilotStage; duration_ms: number }
+    | { type: 'done'; result: AutopilotResult }
+    | { type: 'error'; message: string };
+
+// Canal de suivi effectivement utilisé ('legacy' = pas de progression par étape)
+export type AutopilotSourceMode = 'sse' | 'polling' | 'legacy' | 'local';
+
+export type AutopilotStageState = {
+    status: 'pending' | 'running' | 'done';
+    logs: string[];
+    startedAt?: number;
+    durationMs?: number;
+};
+
+export type AutopilotProgress = Record<AutopilotStage, AutopilotStageState>;
+
+export const initialAutopilotProgress = (): AutopilotProgress =>
+    AUTOPILOT_STAGES.reduce((acc, stage) => ({ ...acc, [stage]: { status: 'pending', logs: [] } }), {} as AutopilotProgress);
+
+/** Applique un événement de progression à l'état des étapes. */
+export const reduceAutopilotProgress = (state: AutopilotProgress, event: AutopilotEvent): AutopilotProgress => {
+    if (event.type === 'stage_start') {
+        return { ...state, [event.stage]: { ...state[event.stage], status: 'running', startedAt: Date.now() } };
+    }
+    if (event.type === 'log') {
+        const stage = state[event.stage];
+        return { ...state, [event.stage]: { ...stage, logs: [...stage.logs, event.message] } };
+    }
+    if (event.type === 'stage_end') {
+        return { ...state, [event.stage]: { ...state[event.stage], status: 'done', durationMs: event.duration_ms } };
+    }
+    return state;
+};
+
+export const toAutopilotParams = (config: PipelineConfig, isGuest: boolean): AutopilotParams => ({
+    objective: config.objective,
+    algorithm: config.algorithm,
+    nlp: config.nlp,
+    nlp_columns: config.nlp_columns,
+    target: config.target,
+    is_guest: isGuest
+});
+
+const POLL_INTERVAL_MS = 1000;
+// Au-delà, le job est considéré comme bloqué côté serveur
+const MAX_JOB_DURATION_MS = 30 * 60 * 1000;
+
+type AutopilotHandlers = {
+    onMode?: (mode: AutopilotSourceMode) => void;
+    signal?: AbortSignal;
+};
+
+// Suivi interrompu par le client (page quittée, nouvel Auto-Pilot) : pas une erreur du job
+export const isAutopilotCanceled = (err: unknown) => axios.isCancel(err);
+
+// Flux SSE coupé (et non erreur du job) : reprise en polling à partir de `cursor`
+class TransportError extends Error {
+    cursor: number;
+
+    constructor(cursor: number) {
+        super('SSE unavailable');
+        this.cursor = cursor;
+    }
+}
+
+const isStage = (value: unknown): value is AutopilotStage =>
+    typeof value === 'string' && (AUTOPILOT_STAGES as readonly string[]).includes(value);
+
+// Une étape inconnue ferait planter le reducer et le stepper : l'événement est ignoré
+const isAutopilotEvent = (value: unknown): value is AutopilotEvent => {
+    if (!value || typeof value !== 'object') return false;
+    const event = value as Record<string, unknown>;
+    switch (event.type) {
+        case 'stage_start':
+        case 'stage_end':
+            return isStage(event.stage);
+        case 'log':
+            return isStage(event.stage) && typeof event.message === 'string';
+        case 'done':
+            return !!event.result && typeof event.result === 'object';
+        case 'error':
+            return typeof event.message === 'string';
+        default:
+            return false;
+    }
+};
+
+const timeoutError = () => new Error("L'Auto-Pilot n'a pas répondu dans le délai imparti");
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError());
+    }, { once: true });
+});
+
+/**
+ * Lance l'Auto-Pilot et relaie chaque événement de progression à `onEvent`.
+ * Ordre de repli : SSE → polling du job → endpoint synchrone historique.
+ * `VITE_AUTOPILOT_SOURCE=local` active une source simulée pour le développement.
+ */
+export const runAutopilotJob = async (
+    datasetId: string,
+    params: AutopilotParams,
+    onEvent: (event: AutopilotEvent) => void,
+    { onMode, signal }: AutopilotHandlers = {}
+): Promise<AutopilotResult> => {
+    if (import.meta.env.VITE_AUTOPILOT_SOURCE === 'local') {
+        onMode?.('local');
+        return runLocalStandIn(datasetId, params, onEvent, signal);
+    }
+
+    let jobId: string | undefined;
+    let streamTicket: string | undefined;
+    try {
+        const response = await datasetsApi.startAutopilotJob(datasetId, params, { signal });
+        jobId = response.data?.job_id || response.data?.id;
+        streamTicket = response.data?.stream_ticket;
+    } catch (err) {
+        const { status } = describeApiError(err);
+        if (status !== 404 && status !== 405) throw err;
+    }
+
+    if (!jobId) {
+        onMode?.('legacy');
+        const response = await datasetsApi.autopilot(datasetId, params, { signal });
+        onEvent({ type: 'done', result: response.data });
+        return response.data;
+    }
+
+    const deadline = Date.now() + MAX_JOB_DURATION_MS;
+    let cursor = 0;
+    // Sans ticket de flux, pas de SSE : le JWT ne doit jamais apparaître dans une URL
+    if (streamTicket && typeof EventSource !== 'undefined') {
+        try {
+            onMode?.('sse');
+            return await followWithEventSource(datasetId, jobId, streamTicket, onEvent, deadline, signal);
+        } catch (err) {
+            // Flux indisponible ou coupé : le job continue côté serveur, on le suit en polling
+            if (!(err instanceof TransportError)) throw err;
+            cursor = err.cursor;
+            console.warn(`[AUTOPILOT] Flux SSE interrompu, reprise en polling (curseur ${cursor})`);
+        }
+    }
+    onMode?.('polling');
+    return followWithPolling(datasetId, jobId, onEvent, cursor, deadline, signal);
+};
+
+const followWithEventSource = (
+    datasetId: string,
+    jobId: string,
+    ticket: string,
+    onEvent: (event: AutopilotEvent) => void,
+    deadline: number,
+    signal?: AbortSignal
+) => new Promise<AutopilotResult>((resolve, reject) => {
+    // Ticket à usage unique et de courte durée délivré au lancement du job
+    const url = `${API_URL}/datasets/${datasetId}/autopilot/jobs/${jobId}/events?ticket=${encodeURIComponent(ticket)}`;
+    const source = new EventSource(url);
+    // Messages reçus = position de reprise pour le polling
+    let cursor = 0;
+
+    const finish = () => {
+        source.close();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+        finish();
+        reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+        finish();
+        reject(timeoutError());
+    }, Math.max(deadline - Date.now(), 0));
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    source.onmessage = (message) => {
+        let event: unknown;
+        try {
+            event = JSON.parse(message.data);
+        } catch {
+            return;
+        }
+        cursor += 1;
+        if (!isAutopilotEvent(event)) return;
+        onEvent(event);
+        if (event.type === 'done') {
+            finish();
+            resolve(event.result);
+        } else if (event.type === 'error') {
+            finish();
+            reject(new Error(event.message));
+        }
+    };
+    // Le ticket étant à usage unique, la reconnexion native d'EventSource échouerait
+    source.onerror = () => {
+        finish();
+        reject(new TransportError(cursor));
+    };
+});
+
+const followWithPolling = async (
+    datasetId: string,
+    jobId: string,
+    onEvent: (event: AutopilotEvent) => void,
+    since: number,
+    deadline: number,
+    signal?: AbortSignal
+): Promise<AutopilotResult> => {
+    let cursor = since;
+    while (Date.now() < deadline) {
+        const response = await datasetsApi.getAutopilotJob(datasetId, jobId, cursor, { signal });
+        const job = response.data || {};
+        const events: unknown[] = Array.isArray(job.events) ? job.events : [];
+        for (const event of events) {
+            if (isAutopilotEvent(event)) onEvent(event);
+        }
+        cursor = typeof job.cursor === 'number' ? job.cursor : cursor + events.length;
+
+        if (job.status === 'done') {
+            const result = job.result as AutopilotResult;
+            if (!events.some(e => isAutopilotEvent(e) && e.type === 'done')) onEvent({ type: 'done', result });
+            return result;
+        }
+        if (job.status === 'error') {
+            throw new Error(job.error || job.message || "Échec de l'Auto-Pilot");
+        }
+        await wait(POLL_INTERVAL_MS, signal);
+    }
+    throw timeoutError();
+};
+
+// ─── Source locale de développement : vraie requête + étapes simulées ───
+const LOCAL_LOGS: Record<AutopilotStage, string[]> = {
+    audit: ['Vérification des types', 'Recherche des doublons exacts'],
+    imputation: ['Classification MCAR/MAR/MNAR', 'Imputation des colonnes incomplètes'],
+    outliers: ['Détection IQR sur les colonnes numériques'],
+    engineering: ['Extraction des composantes temporelles', 'Suppression des identifiants'],
+    split: ['Découpage train/test stratifié'],
+    smote: ['Analyse du déséquilibre des classes'],
+};
+
+const runLocalStandIn = async (
+    datasetId: string,
+    params: AutopilotParams,
+    onEvent: (event: AutopilotEvent) => void,
+    signal?: AbortSignal
+): Promise<AutopilotResult> => {
+    const request = datasetsApi.autopilot(datasetId, params, { signal });
+    request.catch(() => undefined); // l'erreur est relayée par le `await` final
+    for (const stage of AUTOPILOT_STAGES) {
+        const startedAt = performance.now();
+        onEvent({ type: 'stage_start', stage });
+        for (const message of LOCAL_LOGS[stage]) {
+            await wait(200 + Math.random() * 500, signal);
+            onEvent({ type: 'log', stage, message });
+        }
+        onEvent({ type: 'stage_end', stage, duration_ms: Math.round(performance.now() - startedAt) });
+    }
+    const response = await request;
+    onEvent({ type: 'done', result: response.data });
+    return response.data;
+};
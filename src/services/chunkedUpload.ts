@@ -0,0 +1,160 @@
+import axios from 'axios';
+import { datasetsApi, describeApiError, type UploadOptions } from './api';
+
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+const RESUME_STORAGE_KEY = 'dataprep_pending_uploads';
+
+export type UploadProgress = {
+    loaded: number;
+    total: number;
+    // 'retrying' : coupure réseau, nouvel essai automatique du morceau en cours
+    phase: 'uploading' | 'retrying' | 'processing';
+    resumedFrom?: number;
+};
+
+type UploadHandlers = {
+    onProgress?: (progress: UploadProgress) => void;
+    signal?: AbortSignal;
+};
+
+// ─── Sessions d'upload en attente (reprise après coupure ou rechargement) ───
+const fingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readPending = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(RESUME_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writePending = (pending: Record<string, string>) => {
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(pending));
+};
+
+const forgetUpload = (file: File) => {
+    const pending = readPending();
+    delete pending[fingerprint(file)];
+    writePending(pending);
+};
+
+/** Un upload interrompu de ce fichier peut être repris. */
+export const hasPendingUpload = (file: File) => fingerprint(file) in readPending();
+
+export const isUploadCanceled = (err: unknown) => axios.isCancel(err);
+
+// Erreur réseau ou serveur temporaire : le morceau peut être renvoyé
+const isRetryable = (err: unknown) => {
+    if (axios.isCancel(err)) return false;
+    const { status } = describeApiError(err);
+    return status === undefined || status >= 500 || status === 408;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError());
+    }, { once: true });
+});
+
+const openSession = async (file: File, options: UploadOptions, totalChunks: number) => {
+    const pending = readPending();
+    const existing = pending[fingerprint(file)];
+    if (existing) {
+        try {
+            const res = await datasetsApi.getUpload(existing);
+            const received: number[] = Array.isArray(res.data?.received_chunks) ? res.data.received_chunks : [];
+            return { uploadId: existing, received: new Set(received) };
+        } catch (err) {
+            // Session expirée côté serveur : on repart de zéro
+            console.warn("[UPLOAD] Session de reprise introuvable:", describeApiError(err).message);
+        }
+    }
+    const res = await datasetsApi.startUpload({
+        filename: file.name,
+        size: file.size,
+        chunk_size: CHUNK_SIZE,
+        total_chunks: totalChunks,
+        options,
+    });
+    const uploadId: string = res.data?.upload_id || res.data?.id;
+    writePending({ ...readPending(), [fingerprint(file)]: uploadId });
+    return { uploadId, received: new Set<number>() };
+};
+
+/**
+ * Envoie le fichier par morceaux de 5 Mo et renvoie la réponse d'analyse du serveur
+ * (même format que `datasetsApi.upload`). Chaque morceau est réessayé en cas de coupure ;
+ * si l'upload échoue quand même, un nouvel appel avec le même fichier reprend où il s'était arrêté.
+ * Petits fichiers et serveurs sans endpoint `/datasets/uploads` : upload en une seule requête.
+ */
+export const uploadDataset = async (file: File, options: UploadOptions, { onProgress, signal }: UploadHandlers = {}) => {
+    const single = async () => {
+        const response = await datasetsApi.upload(file, options, {
+            signal,
+            onUploadProgress: (e) => onProgress?.({
+                loaded: e.loaded,
+                total: e.total || file.size,
+                phase: e.loaded >= (e.total || file.size) ? 'processing' : 'uploading',
+            }),
+        });
+        return response.data;
+    };
+
+    if (file.size <= CHUNK_SIZE) return single();
+
+    const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
+    let session: { uploadId: string; received: Set<number> };
+    try {
+        session = await openSession(file, options, totalChunks);
+    } catch (err) {
+        const { status } = describeApiError(err);
+        if (status === 404 || status === 405) return single();
+        throw err;
+    }
+
+    const { uploadId, received } = session;
+    const chunkBytes = (index: number) => Math.min(CHUNK_SIZE, file.size - index * CHUNK_SIZE);
+    let confirmed = [...received].reduce((acc, i) => acc + chunkBytes(i), 0);
+    const resumedFrom = confirmed > 0 ? confirmed : undefined;
+    onProgress?.({ loaded: confirmed, total: file.size, phase: 'uploading', resumedFrom });
+
+    for (let index = 0; index < totalChunks; index++) {
+        if (received.has(index)) continue;
+        const chunk = file.slice(index * CHUNK_SIZE, index * CHUNK_SIZE + chunkBytes(index));
+        for (let attempt = 0; ; attempt++) {
+            try {
+                await datasetsApi.uploadChunk(uploadId, index, chunk, {
+                    signal,
+                    onUploadProgress: (e) => onProgress?.({ loaded: confirmed + e.loaded, total: file.size, phase: 'uploading', resumedFrom }),
+                });
+                break;
+            } catch (err) {
+                if (!isRetryable(err) || attempt >= MAX_CHUNK_RETRIES) throw err;
+                onProgress?.({ loaded: confirmed, total: file.size, phase: 'retrying', resumedFrom });
+                await wait(1000 * 2 ** attempt, signal);
+            }
+        }
+        confirmed += chunkBytes(index);
+        onProgress?.({ loaded: confirmed, total: file.size, phase: 'uploading', resumedFrom });
+    }
+
+    onProgress?.({ loaded: file.size, total: file.size, phase: 'processing', resumedFrom });
+    const response = await datasetsApi.completeUpload(uploadId, { signal });
+    forgetUpload(file);
+    return response.data;
+};
+
+/** Annulation volontaire : la session serveur est abandonnée (pas de reprise). */
+export const discardUpload = async (file: File) => {
+    const uploadId = readPending()[fingerprint(file)];
+    forgetUpload(file);
+    if (!uploadId) return;
+    try {
+        await datasetsApi.abortUpload(uploadId);
+    } catch (err) {
+        console.warn("[UPLOAD] Abandon de session échoué:", describeApiError(err).message);
+    }
+};
@@ -0,0 +1,645 @@
+import { STOP_WORDS, TREE_ALGORITHMS, type ColumnEncoding, type DataColumn, type EncodingConfig, type EngineeringAction, type ImbalanceStrategy, type ImputationStrategy, type OutlierTreatment, type PipelineConfig, type ScalingMethod, type SplitConfig, type TextColumnConfig } from '../utils/dataProcessor';
+import type { RecipeOperation } from './recipes';
+
+// Cellule du script généré : le .py concatène les cellules, le .ipynb les reprend telles quelles
+export type PythonCell = { markdown?: string; code: string };
+
+export type PythonExportInput = {
+    filename: string;
+    rows: number;
+    schema: DataColumn[];
+    config: PipelineConfig | null;
+    operations: RecipeOperation[];
+};
+
+const ENGINEERING_TYPES: string[] = ['drop_columns', 'datetime_features', 'cyclic_encoding', 'high_cardinality', 'derived_column'];
+
+type ImputationConfig = { strategy: ImputationStrategy; fill_value?: string; add_indicator?: boolean };
+
+
+// Littéral Python (chaînes, nombres, booléens, listes)
+const py = (value: unknown): string => {
+    if (value === null || value === undefined) return 'None';
+    if (typeof value === 'boolean') return value ? 'True' : 'False';
+    if (Array.isArray(value)) return `[${value.map(py).join(', ')}]`;
+    return JSON.stringify(value);
+};
+
+// Opérations de l'atelier d'ingénierie (C) traduites en pandas
+const DERIVED_EXPRESSIONS: Record<string, (a: string, b: string) => string> = {
+    add: (a, b) => `${a} + ${b}`,
+    subtract: (a, b) => `${a} - ${b}`,
+    multiply: (a, b) => `${a} * ${b}`,
+    divide: (a, b) => `${a} / ${b}`,
+    log1p: a => `np.log1p(${a})`,
+    sqrt: a => `np.sqrt(${a})`,
+    square: a => `${a} ** 2`,
+};
+
+const PANDAS_DATETIME_PARTS: Record<string, string> = {
+    year: 'year', month: 'month', day: 'day', weekday: 'dayofweek', hour: 'hour',
+};
+
+const engineeringCode = (action: EngineeringAction): string[] => {
+    const col = (name: string) => `df[${py(name)}]`;
+    switch (action.type) {
+        case 'drop_columns':
+            return [`df = df.drop(columns=${py(action.columns)})`];
+        case 'datetime_features':
+            return [
+                `${col(action.column)} = pd.to_datetime(${col(action.column)}, errors="coerce")`,
+                ...action.parts.map(p => `${col(`${action.column}_${p}`)} = ${col(action.column)}.dt.${PANDAS_DATETIME_PARTS[p]}`),
+                ...(action.drop_original ? [`df = df.drop(columns=[${py(action.column)}])`] : []),
+            ];
+        case 'cyclic_encoding':
+            return [
+                `${col(`${action.column}_sin`)} = np.sin(2 * np.pi * ${col(action.column)} / ${action.period})`,
+                `${col(`${action.column}_cos`)} = np.cos(2 * np.pi * ${col(action.column)} / ${action.period})`,
+                ...(action.drop_original ? [`df = df.drop(columns=[${py(action.column)}])`] : []),
+            ];
+        case 'high_cardinality':
+            if (action.strategy === 'other') {
+                return [
+                    `top = ${col(action.column)}.value_counts().nlargest(${action.top_n}).index`,
+                    `${col(action.column)} = ${col(action.column)}.where(${col(action.column)}.isin(top) | ${col(action.column)}.isna(), "other")`,
+                ];
+            }
+            // Target encoding : dans le ColumnTransformer (TargetEncoder, cross-fitting sur le train)
+            return action.strategy === 'frequency'
+                ? [`${col(`${action.column}_freq`)} = ${col(action.column)}.map(${col(action.column)}.value_counts())`]
+                : [];
+        case 'derived_column': {
+            const right = action.right
+                ? col(action.right) + (action.operator === 'divide' ? '.replace(0, np.nan)' : '')
+                : String(action.constant ?? 0);
+            return [`${col(action.name)} = ${DERIVED_EXPRESSIONS[action.operator](col(action.left), right)}`];
+        }
+    }
+};
+
+// Section D : ensembles train / (validation) / test selon la configuration de l'étape Split
+const splitCode = (split: SplitConfig, target: string | null, stratify: boolean): string[] => {
+    const data = target ? ['X', 'y'] : ['X'];
+    const lines = [
+        ...(target ? [`y = df[${py(target)}]`] : ['# Clustering : pas de variable cible']),
+        `X = df.drop(columns=${py([target, split.mode === 'group' ? split.group_column : null].filter(Boolean))})`,
+    ];
+    const hasValidation = split.validation_size > 0;
+    // Validation prélevée dans le train restant : proportion relative
+    const validationShare = Number((split.validation_size / (1 - split.test_size)).toFixed(4));
+
+    if (split.mode === 'time') {
+        return [
+            ...lines,
+            '# Données triées par date au chargement : le test correspond à la période la plus récente',
+            `n_test = int(len(X) * ${split.test_size})`,
+            `n_val = int(len(X) * ${split.validation_size})`,
+            'n_train = len(X) - n_test - n_val',
+            ...data.flatMap(d => [
+                `${d}_train = ${d}.iloc[:n_train]`,
+                ...(hasValidation ? [`${d}_val = ${d}.iloc[n_train:n_train + n_val]`] : []),
+                `${d}_test = ${d}.iloc[n_train + n_val:]`,
+            ]),
+        ];
+    }
+    if (split.mode === 'group') {
+        const pick = (suffix: string, source: string, idx: string) => data.map(d => `${d}_${suffix} = ${d}${source}.iloc[${idx}]`);
+        return [
+            'from sklearn.model_selection import GroupShuffleSplit',
+            '',
+            ...lines,
+            `groups = df[${py(split.group_column)}]`,
+            `train_idx, test_idx = next(GroupShuffleSplit(n_splits=1, test_size=${split.test_size}, random_state=RANDOM_STATE).split(X, groups=groups))`,
+            ...pick('test', '', 'test_idx'),
+            ...(hasValidation
+                ? [
+                    ...pick('rest', '', 'train_idx'),
+                    `fit_idx, val_idx = next(GroupShuffleSplit(n_splits=1, test_size=${validationShare}, random_state=RANDOM_STATE).split(X_rest, groups=groups.iloc[train_idx]))`,
+                    ...pick('train', '_rest', 'fit_idx'),
+                    ...pick('val', '_rest', 'val_idx'),
+                ]
+                : pick('train', '', 'train_idx')),
+        ];
+    }
+    const call = (source: string[], size: number, out: string[]) => [
+        `${out.join(', ')} = train_test_split(`,
+        `    ${source.join(', ')}, test_size=${size}, random_state=RANDOM_STATE${stratify && target ? `, stratify=${source[1]}` : ''}`,
+        ')',
+    ];
+    const outputs = (first: string, second: string) => data.flatMap(d => [`${d}_${first}`, `${d}_${second}`]);
+    return [
+        ...lines,
+        ...call(data, split.test_size, outputs('train', 'test')),
+        ...(hasValidation ? call(data.map(d => `${d}_train`), validationShare, outputs('train', 'val')) : []),
+    ];
+};
+
+// Section G.2 : classes imbalanced-learn des stratégies de l'étape Balançage
+const SAMPLERS: Partial<Record<ImbalanceStrategy, { module: string; name: string }>> = {
+    smote: { module: 'imblearn.over_sampling', name: 'SMOTE' },
+    borderline_smote: { module: 'imblearn.over_sampling', name: 'BorderlineSMOTE' },
+    adasyn: { module: 'imblearn.over_sampling', name: 'ADASYN' },
+    undersample: { module: 'imblearn.under_sampling', name: 'RandomUnderSampler' },
+};
+
+type ResamplingParams = { strategy: ImbalanceStrategy; sampling_strategy?: number; k_neighbors?: number };
+
+const resamplingCell = (params: ResamplingParams): PythonCell | null => {
+    if (params.strategy === 'none') return null;
+    if (params.strategy === 'class_weight') {
+        return {
+            markdown: '## Déséquilibre des classes (Section G)\nAucune ligne modifiée : poids « balanced » à passer au modèle (`class_weight=class_weight`).',
+            code: [
+                'import numpy as np',
+                'from sklearn.utils.class_weight import compute_class_weight',
+                '',
+                'classes = np.unique(y_train)',
+                'class_weight = dict(zip(classes, compute_class_weight("balanced", classes=classes, y=y_train)))',
+                'print(class_weight)',
+            ].join('\n'),
+        };
+    }
+    const sampler = SAMPLERS[params.strategy];
+    if (!sampler) return null;
+    const ratio = params.sampling_strategy ?? 1;
+    const neighbors = params.strategy === 'adasyn' ? 'n_neighbors' : 'k_neighbors';
+    const args = [
+        'sampling_strategy=sampling',
+        ...(params.strategy !== 'undersample' && params.k_neighbors !== undefined ? [`${neighbors}=${params.k_neighbors}`] : []),
+        'random_state=RANDOM_STATE',
+    ].join(', ');
+    return {
+        markdown: `## Déséquilibre des classes (Section G)\n${sampler.name} sur le train UNIQUEMENT : validation et test gardent la distribution réelle.`,
+        code: [
+            `from ${sampler.module} import ${sampler.name}`,
+            '',
+            '# Ratio minorité / majorité en binaire ; "auto" (toutes les classes) en multiclasse',
+            `sampling = ${ratio} if y_train.nunique() == 2 else "auto"`,
+            `X_train_prep, y_train = ${sampler.name}(${args}).fit_resample(X_train_prep, y_train)`,
+            'print("Train rééquilibré :", y_train.value_counts().to_dict())',
+        ].join('\n'),
+    };
+};
+
+// Section 0.1 : conversions de type de l'audit initial
+const CASTS: Partial<Record<DataColumn['type'], (col: string) => string>> = {
+    numeric: col => `pd.to_numeric(${col}.astype(str).str.replace(",", "."), errors="coerce")`,
+    datetime: col => `pd.to_datetime(${col}, errors="coerce", dayfirst=True)`,
+    boolean: col => `${col}.astype(str).str.strip().str.lower().isin(["1", "1.0", "true", "yes", "oui", "vrai"])`,
+    categorical: col => `${col}.astype(str).where(${col}.notna())`,
+};
+
+// Sections E et F : encodeurs et scalers choisis dans le panneau Encodage & scaling
+const SCALERS: Record<ScalingMethod, string> = {
+    standard: 'StandardScaler()',
+    minmax: 'MinMaxScaler()',
+    robust: 'RobustScaler()',
+    none: '',
+};
+
+const encoderCode = (enc: ColumnEncoding): string => {
+    switch (enc.method) {
+        case 'onehot':
+            return 'OneHotEncoder(handle_unknown="ignore")';
+        case 'ordinal':
+            return `OrdinalEncoder(${enc.order?.length ? `categories=[${py(enc.order)}], ` : ''}handle_unknown="use_encoded_value", unknown_value=-1)`;
+        case 'target':
+            return 'TargetEncoder(random_state=RANDOM_STATE)';
+        case 'frequency':
+            return 'ce.CountEncoder(normalize=True)';
+        case 'hashing':
+            return `ce.HashingEncoder(n_components=${enc.n_components ?? 8})`;
+    }
+};
+
+// Vectorisation des colonnes texte (C.5) : une branche du ColumnTransformer par colonne
+const STOP_WORDS_CODE = { french: 'FRENCH_STOP_WORDS', english: '"english"', none: 'None' };
+
+const textPipelineCode = (cfg: TextColumnConfig): string => {
+    const steps = cfg.method === 'tfidf'
+        ? [`("tfidf", TfidfVectorizer(max_features=${cfg.max_features}, ngram_range=(${cfg.ngram_range.join(', ')}), stop_words=${STOP_WORDS_CODE[cfg.stop_words]}))`]
+        : cfg.method === 'word2vec'
+            ? [`("word2vec", Word2VecEmbedder(${py(cfg.model)}, stop_words=${cfg.stop_words === 'english' ? 'list(ENGLISH_STOP_WORDS)' : STOP_WORDS_CODE[cfg.stop_words]}))`]
+            : [`("bert", SentenceEmbedder(${py(cfg.model)}))`];
+    if (cfg.reduction === 'svd') steps.push(`("svd", TruncatedSVD(n_components=${cfg.n_components}, random_state=RANDOM_STATE))`);
+    if (cfg.reduction === 'pca') steps.push(`("pca", PCA(n_components=${cfg.n_components}, random_state=RANDOM_STATE))`);
+    return `Pipeline([${steps.join(', ')}])`;
+};
+
+const textCell = (configs: TextColumnConfig[]): string[] => {
+    const methods = new Set(configs.map(c => c.method));
+    const reductions = new Set(configs.map(c => c.reduction));
+    const usesFrench = configs.some(c => c.method !== 'bert' && c.stop_words === 'french');
+    return [
+        ...(methods.has('word2vec') ? ['import re', 'import numpy as np'] : []),
+        ...(methods.has('tfidf') ? ['from sklearn.feature_extraction.text import TfidfVectorizer'] : []),
+        ...(configs.some(c => c.method === 'word2vec' && c.stop_words === 'english') ? ['from sklearn.feature_extraction.text import ENGLISH_STOP_WORDS'] : []),
+        ...(reductions.has('svd') || reductions.has('pca')
+            ? [`from sklearn.decomposition import ${[...(reductions.has('pca') ? ['PCA'] : []), ...(reductions.has('svd') ? ['TruncatedSVD'] : [])].join(', ')}`]
+            : []),
+        ...(methods.has('word2vec') || methods.has('bert') ? ['from sklearn.base import BaseEstimator, TransformerMixin'] : []),
+        ...(usesFrench ? ['', `FRENCH_STOP_WORDS = ${py(STOP_WORDS.french)}`] : []),
+        ...(methods.has('word2vec') ? [
+            '',
+            '',
+            'class Word2VecEmbedder(BaseEstimator, TransformerMixin):',
+            '    """Moyenne des vecteurs de mots (modèle gensim pré-entraîné)."""',
+            '    def __init__(self, model_name, stop_words=None):',
+            '        self.model_name = model_name',
+            '        self.stop_words = stop_words',
+            '',
+            '    def fit(self, X, y=None):',
+            '        return self',
+            '',
+            '    def transform(self, X):',
+            '        import gensim.downloader',
+            '        vectors = gensim.downloader.load(self.model_name)',
+            '        stop = set(self.stop_words or [])',
+            '',
+            '        def embed(text):',
+            '            words = [w for w in re.findall(r"\\w{2,}", str(text).lower()) if w not in stop and w in vectors]',
+            '            return np.mean([vectors[w] for w in words], axis=0) if words else np.zeros(vectors.vector_size)',
+            '        return np.vstack([embed(t) for t in X])',
+        ] : []),
+        ...(methods.has('bert') ? [
+            '',
+            '',
+            'class SentenceEmbedder(BaseEstimator, TransformerMixin):',
+            '    """Embeddings de phrases (sentence-transformers)."""',
+            '    def __init__(self, model_name):',
+            '        self.model_name = model_name',
+            '',
+            '    def fit(self, X, y=None):',
+            '        return self',
+            '',
+            '    def transform(self, X):',
+            '        from sentence_transformers import SentenceTransformer',
+            '        return SentenceTransformer(self.model_name).encode([str(t) for t in X], show_progress_bar=False)',
+        ] : []),
+    ];
+};
+
+const SKLEARN_IMPUTERS: Record<ImputationStrategy, (cfg: ImputationConfig) => string> = {
+    mean: cfg => `SimpleImputer(strategy="mean", add_indicator=${py(!!cfg.add_indicator)})`,
+    median: cfg => `SimpleImputer(strategy="median", add_indicator=${py(!!cfg.add_indicator)})`,
+    mode: cfg => `SimpleImputer(strategy="most_frequent", add_indicator=${py(!!cfg.add_indicator)})`,
+    constant: cfg => `SimpleImputer(strategy="constant", fill_value=${py(cfg.fill_value ?? '')}, add_indicator=${py(!!cfg.add_indicator)})`,
+    knn: cfg => `KNNImputer(n_neighbors=5, add_indicator=${py(!!cfg.add_indicator)})`,
+    iterative: cfg => `IterativeImputer(random_state=RANDOM_STATE, add_indicator=${py(!!cfg.add_indicator)})`,
+    // ffill dépend de l'ordre des lignes : appliqué avec pandas avant le split
+    ffill: () => '"passthrough"',
+};
+
+/**
+ * Traduit le pipeline de la session (configuration Auto-Pilot + opérations du mode manuel)
+ * en code pandas / scikit-learn structuré comme la section H : split, puis ColumnTransformer
+ * ajusté sur le train uniquement, SMOTE sur le train, sauvegarde joblib.
+ */
+export const buildPythonCells = ({ filename, rows, schema, config, operations }: PythonExportInput): PythonCell[] => {
+    const target = config?.target && schema.some(c => c.name === config.target) ? config.target : null;
+    const objective = config?.objective ?? 'classification';
+    // Types corrigés à l'audit (0.1) : ils déterminent la branche du ColumnTransformer
+    const casts: Record<string, DataColumn['type']> = Object.assign({}, ...operations
+        .filter(op => op.kind === 'process' && op.type === 'cast_types')
+        .map(op => op.kind === 'process' ? op.params.columns : {}));
+    const features = schema.filter(c => c.name !== target).map(c => casts[c.name] ? { ...c, type: casts[c.name] } : c);
+
+    // Les opérations suivantes écrasent les précédentes pour une même colonne
+    const imputation: Record<string, ImputationConfig> = {};
+    const auditCalls: string[] = [];
+    // Suppressions de lignes avant le split ; plafonnement et indicateurs ajustés sur le train
+    const outlierRemovals: string[] = [];
+    const univariateTreatments: { column: string; method: string; threshold?: number; treatment: 'cap' | 'flag' }[] = [];
+    const multivariateFlags: { columns: string[]; method: string; contamination?: number }[] = [];
+    const actions: EngineeringAction[] = [];
+    let split: SplitConfig | null = null;
+    let resampling: ResamplingParams | null = null;
+    let encoding: EncodingConfig | null = null;
+    for (const op of operations) {
+        if (op.kind !== 'process') continue;
+        if (ENGINEERING_TYPES.includes(op.type)) {
+            actions.push({ type: op.type, ...op.params } as EngineeringAction);
+        } else if (op.type === 'cast_types') {
+            for (const [col, type] of Object.entries(op.params.columns as Record<string, DataColumn['type']>)) {
+                if (CASTS[type]) auditCalls.push(`df[${py(col)}] = ${CASTS[type](`df[${py(col)}]`)}`);
+            }
+        } else if (op.type === 'drop_duplicates') {
+            const { subset, keep } = op.params as { subset: string[] | null; keep: 'first' | 'last' | false };
+            auditCalls.push(`df = df.drop_duplicates(subset=${py(subset)}, keep=${py(keep === false ? false : keep)}).reset_index(drop=True)`);
+        } else if (op.type === 'encoding_scaling') {
+            encoding = op.params as EncodingConfig;
+        } else if (op.type === 'resampling') {
+            resampling = op.params as ResamplingParams;
+        } else if (op.type === 'split') {
+            split = op.params as SplitConfig;
+        } else if (op.type === 'imputation') {
+            Object.assign(imputation, (op.params.columns || {}) as Record<string, ImputationConfig>);
+        } else if (op.type === 'outliers') {
+            const { method, threshold, contamination, treatment } = op.params as { method: string; threshold?: number; contamination?: number; treatment?: OutlierTreatment };
+            if (method === 'iqr' || method === 'zscore') {
+                for (const [col, t] of Object.entries((op.params.columns || {}) as Record<string, OutlierTreatment>)) {
+                    if (t === 'remove') outlierRemovals.push(`df = remove_outliers(df, ${py(col)}, method=${py(method)}, threshold=${threshold})`);
+                    else if (t === 'cap' || t === 'flag') univariateTreatments.push({ column: col, method, threshold, treatment: t });
+                }
+            } else if (treatment === 'remove') {
+                outlierRemovals.push(`df = remove_multivariate_outliers(df, ${py(op.params.columns || [])}, method=${py(method)}, contamination=${contamination})`);
+            } else if (treatment === 'flag') {
+                multivariateFlags.push({ columns: (op.params.columns || []) as string[], method, contamination });
+            }
+        }
+    }
+
+    // Identifiants et dates non traités dans l'atelier : règles par défaut (C.1, C.2)
+    const handled = new Set(actions.flatMap(a => a.type === 'drop_columns' ? a.columns : a.type === 'datetime_features' ? [a.column] : []));
+    const idColumns = features.filter(c => c.type === 'categorical' && rows > 0 && c.uniqueCount >= rows && !handled.has(c.name)).map(c => c.name);
+    const dateColumns = features.filter(c => c.type === 'datetime' && !handled.has(c.name)).map(c => c.name);
+
+    // Schéma des variables après ingénierie : numériques, catégorielles, target encoding
+    const kinds = new Map<string, 'num' | 'cat' | 'skip'>(features
+        .filter(c => !idColumns.includes(c.name) && !dateColumns.includes(c.name))
+        .map(c => [c.name, c.type === 'numeric' ? 'num' : c.type === 'datetime' ? 'skip' : 'cat']));
+    dateColumns.forEach(c => ['year', 'month', 'dayofweek'].forEach(p => kinds.set(`${c}_${p}`, 'num')));
+    // La colonne de groupe est retirée de X avant le split : ni variable, ni target encoding
+    if (split?.mode === 'group' && split.group_column) kinds.delete(split.group_column);
+    const targetEncoded: { column: string; smoothing: number }[] = [];
+    for (const a of actions) {
+        if (a.type === 'drop_columns') a.columns.forEach(c => kinds.delete(c));
+        if (a.type === 'datetime_features') a.parts.forEach(p => kinds.set(`${a.column}_${p}`, 'num'));
+        if (a.type === 'cyclic_encoding') ['sin', 'cos'].forEach(p => kinds.set(`${a.column}_${p}`, 'num'));
+        if ((a.type === 'datetime_features' || a.type === 'cyclic_encoding') && a.drop_original) kinds.delete(a.column);
+        if (a.type === 'high_cardinality' && a.strategy === 'frequency') kinds.set(`${a.column}_freq`, 'num');
+        if (a.type === 'high_cardinality' && a.strategy === 'target' && kinds.has(a.column)) {
+            kinds.delete(a.column);
+            targetEncoded.push({ column: a.column, smoothing: a.smoothing });
+        }
+        if (a.type === 'derived_column') kinds.set(a.name, 'num');
+    }
+    // Traitements post-split : seulement sur les colonnes encore présentes dans X
+    const outlierTreatments = univariateTreatments.filter(t => kinds.get(t.column) === 'num');
+    outlierTreatments.filter(t => t.treatment === 'flag').forEach(t => kinds.set(`${t.column}_is_outlier`, 'num'));
+    const outlierFlags = multivariateFlags
+        .map(f => ({ ...f, columns: f.columns.filter(c => kinds.get(c) === 'num') }))
+        .filter(f => f.columns.length > 0);
+    if (outlierFlags.length) kinds.set('is_outlier', 'num');
+    // Colonnes texte : vectorisées à part (C.5), ou ignorées si la méthode est « none »
+    const textColumns = Object.entries(config?.nlp_columns || {}).filter(([name]) => kinds.has(name));
+    textColumns.forEach(([name]) => kinds.delete(name));
+    const vectorized = textColumns.filter(([, cfg]) => cfg.method !== 'none');
+    const usesNumpy = actions.some(a => a.type === 'cyclic_encoding' || a.type === 'derived_column');
+
+    const ffillColumns = Object.entries(imputation).filter(([, cfg]) => cfg.strategy === 'ffill').map(([col]) => col);
+    const usesKnn = Object.values(imputation).some(c => c.strategy === 'knn');
+    const usesIterative = Object.values(imputation).some(c => c.strategy === 'iterative');
+    const algos = config?.algorithm || ['auto'];
+    const scale = !algos.every(a => TREE_ALGORITHMS.includes(a));
+    const isLarge = rows > 100000;
+
+    // Groupes du ColumnTransformer : une branche par stratégie d'imputation (H.1)
+    const defaultScaler = scale ? SCALERS.standard : '';
+    const groups = new Map<string, { kind: 'num' | 'cat' | 'te'; steps: string[]; columns: string[] }>();
+    const addToGroup = (key: string, kind: 'num' | 'cat' | 'te', steps: string[], column: string) => {
+        if (!groups.has(key)) groups.set(key, { kind, steps, columns: [] });
+        groups.get(key)?.columns.push(column);
+    };
+    for (const [name, kind] of kinds) {
+        if (kind === 'skip') continue;
+        const cfg = imputation[name] ?? { strategy: kind === 'num' ? 'median' : 'mode' };
+        const imputer = `("imputer", ${SKLEARN_IMPUTERS[cfg.strategy](cfg)})`;
+        if (kind === 'num') {
+            const scaler = encoding?.scalers[name] ? SCALERS[encoding.scalers[name]] : defaultScaler;
+            addToGroup(`num|${imputer}|${scaler}`, 'num', [imputer, ...(scaler ? [`("scaler", ${scaler})`] : [])], name);
+        } else {
+            const enc = encoding?.encoders[name] ?? { method: 'onehot' };
+            const encoder = `("encoder", ${encoderCode(enc)})`;
+            // Un ordre ordinal explicite ne vaut que pour sa colonne
+            const key = `cat|${imputer}|${encoder}${enc.method === 'ordinal' && enc.order?.length ? `|${name}` : ''}`;
+            addToGroup(key, enc.method === 'target' ? 'te' : 'cat', [imputer, encoder], name);
+        }
+    }
+    for (const { column, smoothing } of targetEncoded) {
+        const steps = ['("imputer", SimpleImputer(strategy="most_frequent"))', `("encoder", TargetEncoder(smooth=${smoothing}, random_state=RANDOM_STATE))`, ...(defaultScaler ? [`("scaler", ${defaultScaler})`] : [])];
+        addToGroup(`te|${smoothing}`, 'te', steps, column);
+    }
+
+    const transformers = [
+        ...[...groups.values()].map((g, i) => `    ("${g.kind}_${i + 1}", Pipeline([${g.steps.join(', ')}]), ${py(g.columns)}),`),
+        // Colonne passée en scalaire : les vectoriseurs attendent une série 1D
+        ...vectorized.map(([name, cfg], i) => `    ("text_${i + 1}", ${textPipelineCode(cfg)}, ${py(name)}),`),
+    ];
+    const transformerCode = transformers.join('\n');
+    const preprocessingImports = ['OneHotEncoder', 'OrdinalEncoder', 'StandardScaler', 'MinMaxScaler', 'RobustScaler', 'TargetEncoder']
+        .filter(cls => cls === 'OneHotEncoder' || transformerCode.includes(`${cls}(`));
+    const fitTarget = [...groups.values()].some(g => g.kind === 'te') && target ? ', y_train' : '';
+
+    const cells: PythonCell[] = [];
+
+    cells.push({
+        markdown: `# Pipeline de prétraitement — ${filename}\nGénéré par DataPrep Pro. Structure : split → ColumnTransformer ajusté sur le train → transform sur le test${objective === 'classification' ? ' → SMOTE sur le train' : ''} → sauvegarde joblib.`,
+        code: [
+            ...(usesNumpy ? ['import numpy as np'] : []),
+            'import pandas as pd',
+            'import joblib',
+            'from sklearn.compose import ColumnTransformer',
+            'from sklearn.pipeline import Pipeline',
+            'from sklearn.impute import SimpleImputer' + (usesKnn ? ', KNNImputer' : ''),
+            ...(usesIterative ? ['from sklearn.experimental import enable_iterative_imputer  # noqa: F401', 'from sklearn.impute import IterativeImputer'] : []),
+            `from sklearn.preprocessing import ${preprocessingImports.join(', ')}`,
+            ...(transformerCode.includes('ce.') ? ['import category_encoders as ce'] : []),
+            'from sklearn.model_selection import train_test_split',
+            '',
+            `RANDOM_STATE = ${split?.mode === 'time' ? 42 : split?.random_state ?? 42}`,
+        ].join('\n'),
+    });
+
+    cells.push({
+        markdown: '## Chargement des données',
+        code: [
+            /\.xlsx?$/i.test(filename) ? `df = pd.read_excel(${py(filename)})` : `df = pd.read_csv(${py(filename)})`,
+            ...(split?.mode === 'time' && split.time_column ? [
+                `df[${py(split.time_column)}] = pd.to_datetime(df[${py(split.time_column)}], errors="coerce")`,
+                `df = df.sort_values(${py(split.time_column)}).reset_index(drop=True)  # split chronologique (D.3)`,
+            ] : []),
+            'print(df.shape)',
+        ].join('\n'),
+    });
+
+    if (auditCalls.length) {
+        cells.push({ markdown: '## Audit initial (Section 0)\nCorrections de types et doublons décidées à l\'audit.', code: auditCalls.join('\n') });
+    }
+
+    const usesOutliers = outlierRemovals.length > 0 || outlierTreatments.length > 0 || outlierFlags.length > 0;
+    const usesDetectors = outlierRemovals.some(c => c.includes('remove_multivariate_outliers')) || outlierFlags.length > 0;
+    if (usesOutliers) {
+        cells.push({
+            markdown: '## Valeurs aberrantes (Section B)\nLes suppressions de lignes sont un nettoyage préalable au split (bornes calculées sur tout le fichier). Le plafonnement et les indicateurs sont ajustés sur le train après le split.',
+            code: [
+                'def outlier_bounds(s, method, threshold):',
+                '    if method == "iqr":',
+                '        q1, q3 = s.quantile(0.25), s.quantile(0.75)',
+                '        return q1 - threshold * (q3 - q1), q3 + threshold * (q3 - q1)',
+                '    return s.mean() - threshold * s.std(), s.mean() + threshold * s.std()',
+                '',
+                '',
+                'def remove_outliers(df, col, method, threshold):',
+                '    lower, upper = outlier_bounds(df[col], method, threshold)',
+                '    return df[~((df[col] < lower) | (df[col] > upper))]',
+                '',
+                '',
+                'def treat_outliers(X, col, lower, upper, treatment):',
+                '    X = X.copy()',
+                '    if treatment == "cap":',
+                '        X[col] = X[col].clip(lower, upper)',
+                '    else:',
+                '        X[f"{col}_is_outlier"] = ((X[col] < lower) | (X[col] > upper)).astype(int)',
+                '    return X',
+                ...(usesDetectors ? [
+                    '',
+                    '',
+                    'def outlier_detector(method, contamination, novelty=False):',
+                    '    from sklearn.ensemble import IsolationForest',
+                    '    from sklearn.neighbors import LocalOutlierFactor',
+                    '    from sklearn.covariance import EllipticEnvelope',
+                    '    if method == "lof":',
+                    '        return LocalOutlierFactor(contamination=contamination, novelty=novelty)',
+                    '    if method == "isolation_forest":',
+                    '        return IsolationForest(contamination=contamination, random_state=RANDOM_STATE)',
+                    '    return EllipticEnvelope(contamination=contamination, random_state=RANDOM_STATE)',
+                    '',
+                    '',
+                    'def remove_multivariate_outliers(df, cols, method, contamination):',
+                    '    values = df[cols].fillna(df[cols].median())',
+                    '    return df[outlier_detector(method, contamination).fit_predict(values) != -1]',
+                    '',
+                    '',
+                    'def flag_multivariate_outliers(X, cols, detector, medians):',
+                    '    X = X.copy()',
+                    '    X["is_outlier"] = (detector.predict(X[cols].fillna(medians)) == -1).astype(int)',
+                    '    return X',
+                ] : []),
+                ...(outlierRemovals.length ? ['', '', ...outlierRemovals] : []),
+            ].join('\n'),
+        });
+    }
+
+    const engineering = [
+        ...(idColumns.length ? [`df = df.drop(columns=${py(idColumns)})  # identifiants`] : []),
+        ...dateColumns.flatMap(c => [
+            `df[${py(c)}] = pd.to_datetime(df[${py(c)}], errors="coerce")`,
+            `df[${py(`${c}_year`)}] = df[${py(c)}].dt.year`,
+            `df[${py(`${c}_month`)}] = df[${py(c)}].dt.month`,
+            `df[${py(`${c}_dayofweek`)}] = df[${py(c)}].dt.dayofweek`,
+            `df = df.drop(columns=[${py(c)}])`,
+        ]),
+        ...ffillColumns.map(c => `df[${py(c)}] = df[${py(c)}].ffill()`),
+        ...actions.flatMap(engineeringCode),
+    ];
+    if (engineering.length) {
+        cells.push({ markdown: '## Ingénierie des variables (Section C)', code: engineering.join('\n') });
+    }
+
+    if (vectorized.length) {
+        cells.push({
+            markdown: `## Vectorisation du texte (Section C.5)\n${vectorized.map(([name, cfg]) => `« ${name} » : ${cfg.method}${cfg.model ? ` (${cfg.model})` : ''}`).join(', ')}.`,
+            code: [
+                ...textCell(vectorized.map(([, cfg]) => cfg)),
+                '',
+                ...vectorized.map(([name]) => `df[${py(name)}] = df[${py(name)}].fillna("").astype(str)`),
+            ].join('\n'),
+        });
+    }
+
+    const testSize = split?.test_size ?? (isLarge ? 0.1 : 0.2);
+    const splitSummary = split?.mode === 'time'
+        ? `Split chronologique sur « ${split.time_column} » : passé en train, futur en test.`
+        : split?.mode === 'group'
+            ? `Split par groupe « ${split.group_column} » : un groupe n'apparaît que dans un seul ensemble.`
+            : split ? `Test : ${Math.round(testSize * 100)} %.` : isLarge ? '> 100k lignes : 90/10.' : '< 100k lignes : 80/20.';
+    cells.push({
+        markdown: `## Séparation train / test (Section D)\n${splitSummary} Le split a lieu AVANT tout fit pour éviter le leakage.`,
+        code: splitCode(
+            split ?? { mode: 'random', test_size: testSize, validation_size: 0, random_state: 42, stratify: objective === 'classification' },
+            target,
+            split ? split.stratify : objective === 'classification',
+        ).join('\n'),
+    });
+
+    if (outlierTreatments.length || outlierFlags.length) {
+        const parts = ['X_train', ...(split && split.validation_size > 0 ? ['X_val'] : []), 'X_test'];
+        const each = (call: string) => `${parts.join(', ')} = (${call} for X_part in (${parts.join(', ')}))`;
+        cells.push({
+            markdown: '## Valeurs aberrantes ajustées sur le train (Section B)\nBornes et détecteurs appris sur le train uniquement, puis appliqués à chaque ensemble.',
+            code: [
+                ...outlierTreatments.flatMap(t => [
+                    `lower, upper = outlier_bounds(X_train[${py(t.column)}], method=${py(t.method)}, threshold=${t.threshold})`,
+                    each(`treat_outliers(X_part, ${py(t.column)}, lower, upper, treatment=${py(t.treatment)})`),
+                ]),
+                ...outlierFlags.flatMap(f => [
+                    `medians = X_train[${py(f.columns)}].median()`,
+                    `detector = outlier_detector(${py(f.method)}, contamination=${f.contamination}, novelty=True).fit(X_train[${py(f.columns)}].fillna(medians))`,
+                    each(`flag_multivariate_outliers(X_part, ${py(f.columns)}, detector, medians)`),
+                ]),
+            ].join('\n'),
+        });
+    }
+
+    cells.push({
+        markdown: `## ColumnTransformer (Section H)\n${encoding ? 'Encodeurs et scalers choisis colonne par colonne (sections E et F).' : `Imputation${scale ? ' → StandardScaler' : ''} pour les numériques, imputation → OneHotEncoder(handle_unknown="ignore") pour les catégorielles.`}${config?.nlp && config.nlp !== 'none' && !config.nlp_columns ? `\n\nMode NLP « ${config.nlp} » non reproduit ici : ajouter la vectorisation des colonnes texte.` : ''}`,
+        code: [
+            'preprocessor = ColumnTransformer([',
+            ...transformers,
+            '], remainder="drop")',
+            '',
+            '# fit UNIQUEMENT sur le train, transform sur le test (jamais de re-fit)',
+            `X_train_prep = preprocessor.fit_transform(X_train${fitTarget})`,
+            'X_test_prep = preprocessor.transform(X_test)',
+            ...(split && split.validation_size > 0 ? ['X_val_prep = preprocessor.transform(X_val)'] : []),
+            'print(X_train_prep.shape, X_test_prep.shape)',
+        ].join('\n'),
+    });
+
+    if (resampling && target) {
+        const cell = resamplingCell(resampling);
+        if (cell) cells.push(cell);
+    } else if (objective === 'classification' && target) {
+        cells.push({
+            markdown: '## Déséquilibre des classes (Section G)\nSMOTE uniquement sur le train, au-delà du niveau d\'alerte modéré (80/20).',
+            code: [
+                'from imblearn.over_sampling import SMOTE',
+                '',
+                'minority_share = y_train.value_counts(normalize=True).min()',
+                'if minority_share < 0.2:',
+                '    X_train_prep, y_train = SMOTE(random_state=RANDOM_STATE).fit_resample(X_train_prep, y_train)',
+                '    print("SMOTE appliqué :", y_train.value_counts().to_dict())',
+            ].join('\n'),
+        });
+    }
+
+    cells.push({
+        markdown: '## Sauvegarde (Section I)',
+        code: 'joblib.dump(preprocessor, "preprocessor.pkl")',
+    });
+
+    return cells;
+};
+
+export const toPythonScript = (cells: PythonCell[]): string =>
+    cells.map(cell => {
+        const comment = cell.markdown ? cell.markdown.split('\n').map(l => `# ${l.replace(/^#+\s*/, '')}`.trimEnd()).join('\n') + '\n' : '';
+        return comment + cell.code;
+    }).join('\n\n\n') + '\n';
+
+// nbformat 4 : chaque ligne d'une cellule garde son retour à la ligne final
+const toSource = (text: string) => text.split('\n').map((line, i, all) => i < all.length - 1 ? `${line}\n` : line);
+
+export const toNotebook = (cells: PythonCell[]): string => JSON.stringify({
+    nbformat: 4,
+    nbformat_minor: 4,
+    metadata: {
+        kernelspec: { display_name: 'Python 3', language: 'python', name: 'python3' },
+        language_info: { name: 'python' },
+    },
+    cells: cells.flatMap(cell => [
+        ...(cell.markdown ? [{ cell_type: 'markdown', metadata: {}, source: toSource(cell.markdown) }] : []),
+        { cell_type: 'code', metadata: {}, execution_count: null, outputs: [], source: toSource(cell.code) },
+    ]),
+}, null, 1);
@@ -0,0 +1,58 @@
+import type { DataColumn, PipelineConfig } from '../utils/dataProcessor';
+
+// Opération rejouable : un Auto-Pilot complet ou une transformation du mode manuel
+export type RecipeOperation =
+    | { kind: 'autopilot'; config: PipelineConfig }
+    | { kind: 'process'; type: string; params: Record<string, unknown>; journal: string[] };
+
+export type RecipeColumn = Pick<DataColumn, 'name' | 'type'>;
+
+export type PipelineRecipe = {
+    id?: string;
+    name: string;
+    created_at?: string;
+    // Schéma du fichier source au moment de l'enregistrement
+    schema: RecipeColumn[];
+    config: PipelineConfig | null;
+    operations: RecipeOperation[];
+};
+
+export type SchemaCheck = {
+    missing: string[];
+    retyped: { name: string; expected: RecipeColumn['type']; actual: RecipeColumn['type'] }[];
+    extra: string[];
+    compatible: boolean;
+};
+
+export const buildRecipe = (
+    name: string,
+    columns: DataColumn[],
+    config: PipelineConfig | null,
+    operations: RecipeOperation[]
+): PipelineRecipe => ({
+    name: name.trim(),
+    schema: columns.map(c => ({ name: c.name, type: c.type })),
+    config,
+    operations,
+});
+
+/**
+ * Compare le schéma enregistré avec celui du fichier courant.
+ * Une colonne manquante bloque le rejeu ; un type différent est signalé à l'utilisateur.
+ */
+export const checkRecipeSchema = (recipe: PipelineRecipe, columns: DataColumn[]): SchemaCheck => {
+    const current = new Map(columns.map(c => [c.name, c.type]));
+    const expected = new Set(recipe.schema.map(c => c.name));
+    const missing = recipe.schema.filter(c => !current.has(c.name)).map(c => c.name);
+    const retyped = recipe.schema
+        .filter(c => current.has(c.name) && current.get(c.name) !== c.type)
+        .map(c => ({ name: c.name, expected: c.type, actual: current.get(c.name) as RecipeColumn['type'] }));
+    const extra = columns.filter(c => !expected.has(c.name)).map(c => c.name);
+    return { missing, retyped, extra, compatible: missing.length === 0 };
+};
+
+// Les recettes viennent du serveur : on écarte les entrées incomplètes
+export const isPipelineRecipe = (value: unknown): value is PipelineRecipe => {
+    const recipe = value as Partial<PipelineRecipe> | null;
+    return !!recipe && typeof recipe.name === 'string' && Array.isArray(recipe.schema) && Array.isArray(recipe.operations);
+};
@@ -0,0 +1,289 @@
+import { CORRELATION_METHODS, type ColumnStats, type CorrelationMatrix, type CorrelationMethod, type DataColumn } from '../utils/dataProcessor';
+
+export type ReportInput = {
+    fileName: string;
+    generatedAt: Date;
+    rowsBefore: number;
+    rowsAfter: number;
+    columnInfo: DataColumn[];
+    initialColumnInfo: DataColumn[];
+    // Indicateur qualité du serveur (0-100), null s'il n'a pas été chargé
+    quality: number | null;
+    journal: string[];
+    missing: { name: string; avant: number; apres: number }[];
+    distributions: { name: string; bins: { range: string; count: number }[]; stats?: ColumnStats }[];
+    correlation: CorrelationMatrix | null;
+    correlationMethod: CorrelationMethod;
+    waterfall: { name: string; value: number; type?: string }[];
+    // Part des sections lisibles selon l'offre (`report_visible_percent`), le reste est masqué
+    visiblePercent: number;
+};
+
+type ReportSection = { title: string; body: string };
+
+const NAVY = '#1e3a8a';
+const PRIMARY = '#3c5fa0';
+const MUTED = '#cbd5e1';
+const DANGER = '#ef4444';
+
+// Au-delà, la matrice complète ne tient plus sur une page A4
+const MAX_HEATMAP_COLUMNS = 15;
+
+const escapeHtml = (value: unknown): string => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatNumber = (n: number | null | undefined, digits = 2): string =>
+    typeof n === 'number' && Number.isFinite(n) ? n.toLocaleString('fr-FR', { maximumFractionDigits: digits }) : '—';
+
+const LOGO_SVG = `<svg width="40" height="40" viewBox="0 0 32 32" aria-hidden="true"><rect width="32" height="32" rx="6" fill="${PRIMARY}"/><text x="16" y="22" font-size="18" font-weight="bold" fill="white" text-anchor="middle" font-family="Inter, sans-serif">D</text></svg>`;
+
+// ─── Graphiques SVG statiques (aucune dépendance : le fichier reste autonome) ───
+
+export const gaugeSvg = (value: number): string => {
+    const clamped = Math.max(0, Math.min(100, value));
+    const angle = Math.PI * (1 - clamped / 100);
+    const x = 100 + 80 * Math.cos(angle);
+    const y = 100 - 80 * Math.sin(angle);
+    const color = clamped >= 80 ? PRIMARY : clamped >= 50 ? '#f59e0b' : DANGER;
+    return `<svg viewBox="0 0 200 120" width="240">
+<path d="M20 100 A80 80 0 0 1 180 100" fill="none" stroke="#e2e8f0" stroke-width="16" stroke-linecap="round"/>
+<path d="M20 100 A80 80 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)}" fill="none" stroke="${color}" stroke-width="16" stroke-linecap="round"/>
+<text x="100" y="96" text-anchor="middle" font-size="28" font-weight="800" fill="${NAVY}">${formatNumber(clamped, 0)} %</text>
+</svg>`;
+};
+
+const histogramSvg = (bins: { range: string; count: number }[]): string => {
+    const max = Math.max(...bins.map(b => b.count), 1);
+    const width = 280 / (bins.length || 1);
+    const bars = bins.map((b, i) => {
+        const height = (b.count / max) * 100;
+        return `<rect x="${(i * width).toFixed(2)}" y="${(110 - height).toFixed(2)}" width="${Math.max(width - 2, 1).toFixed(2)}" height="${height.toFixed(2)}" fill="${PRIMARY}" opacity="0.85"><title>${escapeHtml(b.range)} : ${b.count}</title></rect>`;
+    }).join('');
+    const first = escapeHtml(bins[0]?.range ?? '');
+    const last = escapeHtml(bins[bins.length - 1]?.range ?? '');
+    return `<svg viewBox="0 0 280 128" width="100%"><line x1="0" y1="110" x2="280" y2="110" stroke="${MUTED}"/>${bars}<text x="0" y="124" font-size="8" fill="#64748b">${first}</text><text x="280" y="124" font-size="8" fill="#64748b" text-anchor="end">${last}</text></svg>`;
+};
+
+// Barres horizontales étiquetées ; plusieurs séries par ligne (avant / après)
+const horizontalBarsSvg = (rows: { label: string; values: number[] }[], colors: string[], signed = false): string => {
+    const rowHeight = 12 * colors.length + 8;
+    const max = Math.max(...rows.flatMap(r => r.values.map(Math.abs)), 1e-9);
+    const labelWidth = 170;
+    const span = signed ? 180 : 360;
+    const origin = labelWidth + (signed ? span : 0);
+    const body = rows.map((row, i) => {
+        const top = i * rowHeight;
+        const bars = row.values.map((v, k) => {
+            const length = (Math.abs(v) / max) * span;
+            const x = signed && v < 0 ? origin - length : origin;
+            const textX = signed && v < 0 ? x - 4 : origin + length + 4;
+            return `<rect x="${x.toFixed(2)}" y="${top + 4 + k * 12}" width="${length.toFixed(2)}" height="10" rx="2" fill="${signed && v < 0 ? DANGER : colors[k]}"/>`
+                + `<text x="${textX.toFixed(2)}" y="${top + 12 + k * 12}" font-size="9" fill="#334155" text-anchor="${signed && v < 0 ? 'end' : 'start'}">${formatNumber(v)}</text>`;
+        }).join('');
+        return `<text x="${labelWidth - 8}" y="${top + rowHeight / 2 + 3}" font-size="10" fill="${NAVY}" text-anchor="end" font-weight="600">${escapeHtml(row.label.length > 28 ? `${row.label.slice(0, 27)}…` : row.label)}</text>${bars}`;
+    }).join('');
+    const axis = signed ? `<line x1="${origin}" y1="0" x2="${origin}" y2="${rows.length * rowHeight}" stroke="${MUTED}"/>` : '';
+    return `<svg viewBox="0 0 ${labelWidth + 2 * (signed ? span : span / 2) + 60} ${rows.length * rowHeight + 4}" width="100%">${axis}${body}</svg>`;
+};
+
+const waterfallSvg = (steps: { name: string; value: number; type?: string }[]): string => {
+    const max = Math.max(...steps.map(s => Math.abs(s.value)), 1e-9);
+    const width = 560 / (steps.length || 1);
+    const bars = steps.map((s, i) => {
+        const height = (Math.abs(s.value) / max) * 150;
+        const color = s.type === 'total' ? NAVY : s.value < 0 ? DANGER : PRIMARY;
+        const x = i * width + width * 0.15;
+        return `<rect x="${x.toFixed(2)}" y="${(170 - height).toFixed(2)}" width="${(width * 0.7).toFixed(2)}" height="${height.toFixed(2)}" rx="3" fill="${color}"/>`
+            + `<text x="${(x + width * 0.35).toFixed(2)}" y="${(164 - height).toFixed(2)}" font-size="9" text-anchor="middle" fill="${NAVY}" font-weight="700">${formatNumber(s.value, 0)}</text>`
+            + `<text x="${(x + width * 0.35).toFixed(2)}" y="186" font-size="8" text-anchor="middle" fill="#64748b">${escapeHtml(s.name.length > 16 ? `${s.name.slice(0, 15)}…` : s.name)}</text>`;
+    }).join('');
+    return `<svg viewBox="0 0 560 194" width="100%"><line x1="0" y1="170" x2="560" y2="170" stroke="${MUTED}"/>${bars}</svg>`;
+};
+
+const heatmapTable = (correlation: CorrelationMatrix): string => {
+    const cell = (value: number | null | undefined) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return '<td class="heat" style="background:#f1f5f9">—</td>';
+        const background = value >= 0 ? `rgba(60,95,160,${Math.abs(value).toFixed(2)})` : `rgba(239,68,68,${Math.abs(value).toFixed(2)})`;
+        return `<td class="heat" style="background:${background};color:${Math.abs(value) > 0.5 ? '#fff' : NAVY}">${value.toFixed(2)}</td>`;
+    };
+    const header = correlation.columns.map(c => `<th class="vertical"><span>${escapeHtml(c)}</span></th>`).join('');
+    const rows = correlation.columns.map((row, i) =>
+        `<tr><th>${escapeHtml(row)}</th>${correlation.columns.map((_, j) => cell(correlation.matrix[i]?.[j])).join('')}</tr>`
+    ).join('');
+    return `<table class="heatmap"><thead><tr><th></th>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+// ─── Sections ───
+
+const overviewSection = (input: ReportInput): ReportSection => {
+    const initial = new Map(input.initialColumnInfo.map(c => [c.name, c]));
+    const rows = input.columnInfo.map(c => {
+        const before = initial.get(c.name);
+        return `<tr><td><strong>${escapeHtml(c.name)}</strong></td><td>${escapeHtml(c.type)}</td>`
+            + `<td class="num">${before ? formatNumber(before.nullPercentage, 1) + ' %' : '<em>créée</em>'}</td>`
+            + `<td class="num">${formatNumber(c.nullPercentage, 1)} %</td><td class="num">${formatNumber(c.uniqueCount, 0)}</td></tr>`;
+    }).join('');
+    const removed = input.initialColumnInfo.filter(c => !input.columnInfo.some(f => f.name === c.name)).map(c => escapeHtml(c.name));
+    return {
+        title: 'Aperçu du dataset',
+        body: `<div class="kpis">
+<div class="kpi"><span>${formatNumber(input.rowsBefore, 0)}</span>lignes importées</div>
+<div class="kpi"><span>${formatNumber(input.rowsAfter, 0)}</span>lignes finales</div>
+<div class="kpi"><span>${input.columnInfo.length}</span>variables finales</div>
+<div class="kpi"><span>${input.journal.length}</span>opérations appliquées</div>
+</div>
+<table><thead><tr><th>Colonne</th><th>Type</th><th class="num">Manquants avant</th><th class="num">Manquants après</th><th class="num">Valeurs uniques</th></tr></thead><tbody>${rows}</tbody></table>
+${removed.length ? `<p class="note">Colonnes supprimées : ${removed.join(', ')}.</p>` : ''}`,
+    };
+};
+
+const qualitySection = (input: ReportInput): ReportSection => ({
+    title: 'Indicateur qualité',
+    body: input.quality === null
+        ? '<p class="note">Indicateur indisponible au moment de la génération.</p>'
+        : `<div class="gauge">${gaugeSvg(input.quality)}<p>Score global calculé sur la complétude, la cohérence des types et les valeurs aberrantes du dataset final.</p></div>`,
+});
+
+const journalSection = (input: ReportInput): ReportSection => ({
+    title: 'Journal des transformations',
+    body: input.journal.length
+        ? `<ol class="journal">${input.journal.map(entry => `<li>${escapeHtml(entry)}</li>`).join('')}</ol>`
+        : '<p class="note">Aucune transformation appliquée.</p>',
+});
+
+const missingSection = (input: ReportInput): ReportSection => ({
+    title: 'Valeurs manquantes avant / après',
+    body: input.missing.length
+        ? `<div class="legend"><i style="background:${MUTED}"></i>Avant (initial) <i style="background:${PRIMARY}"></i>Après (nettoyage)</div>${horizontalBarsSvg(input.missing.map(m => ({ label: m.name, values: [m.avant, m.apres] })), [MUTED, PRIMARY])}`
+        : '<p class="note">Aucune valeur manquante, avant comme après le traitement.</p>',
+});
+
+const distributionsSection = (input: ReportInput): ReportSection => ({
+    title: 'Distributions',
+    body: input.distributions.length
+        ? `<div class="grid">${input.distributions.map(d => `<div class="card"><h3>${escapeHtml(d.name)}</h3>${histogramSvg(d.bins)}
+<p class="stats">Moyenne <strong>${formatNumber(d.stats?.mean)}</strong> · Médiane <strong>${formatNumber(d.stats?.median)}</strong> · Écart-type <strong>${formatNumber(d.stats?.std)}</strong></p></div>`).join('')}</div>`
+        : '<p class="note">Aucune variable numérique à représenter.</p>',
+});
+
+const correlationSection = (input: ReportInput): ReportSection => {
+    const matrix = input.correlation;
+    if (!matrix || matrix.columns.length < 2) {
+        return { title: 'Corrélations', body: '<p class="note">Pas assez de variables numériques pour calculer des corrélations.</p>' };
+    }
+    const pairs: { label: string; values: number[] }[] = [];
+    matrix.columns.forEach((x, i) => matrix.columns.slice(i + 1).forEach((y, k) => {
+        const value = matrix.matrix[i]?.[i + 1 + k];
+        if (typeof value === 'number' && Number.isFinite(value)) pairs.push({ label: `${x} × ${y}`, values: [value] });
+    }));
+    pairs.sort((a, b) => Math.abs(b.values[0]) - Math.abs(a.values[0]));
+    return {
+        title: `Corrélations (${CORRELATION_METHODS[input.correlationMethod]})`,
+        body: `<h3>Couples les plus corrélés</h3>${horizontalBarsSvg(pairs.slice(0, 10), [PRIMARY], true)}
+${matrix.columns.length <= MAX_HEATMAP_COLUMNS
+        ? `<h3>Matrice complète</h3>${heatmapTable(matrix)}`
+        : `<p class="note">Matrice complète omise (${matrix.columns.length} variables) : consultez-la dans le tableau de bord.</p>`}`,
+    };
+};
+
+const waterfallSection = (input: ReportInput): ReportSection => ({
+    title: 'Impact du nettoyage (cascade)',
+    body: input.waterfall.length
+        ? waterfallSvg(input.waterfall)
+        : '<p class="note">Aucune étape de nettoyage à représenter.</p>',
+});
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif; color: #334155; margin: 0; background: #f8fafc; }
+main { max-width: 960px; margin: 0 auto; padding: 32px; }
+header { display: flex; align-items: center; gap: 16px; border-bottom: 3px solid ${PRIMARY}; padding-bottom: 16px; margin-bottom: 24px; }
+header .brand { font-size: 20px; font-weight: 800; color: ${NAVY}; }
+header .meta { margin-left: auto; text-align: right; font-size: 12px; color: #64748b; }
+h1 { font-size: 26px; color: ${NAVY}; margin: 0 0 4px; }
+h2 { font-size: 18px; color: ${NAVY}; margin: 0 0 16px; }
+h3 { font-size: 13px; color: ${NAVY}; margin: 16px 0 8px; }
+section { background: #fff; border-radius: 16px; padding: 24px; margin-bottom: 20px; border: 1px solid #e2e8f0; page-break-inside: avoid; }
+table { width: 100%; border-collapse: collapse; font-size: 12px; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #f1f5f9; text-align: left; }
+th { color: ${NAVY}; font-weight: 700; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-bottom: 16px; }
+.kpi { background: #f1f5f9; border-radius: 12px; padding: 12px; font-size: 11px; text-transform: uppercase; color: #64748b; font-weight: 700; }
+.kpi span { display: block; font-size: 22px; color: ${NAVY}; font-weight: 800; text-transform: none; }
+.gauge { display: flex; align-items: center; gap: 24px; font-size: 13px; }
+.journal li { padding: 4px 0; font-size: 13px; }
+.grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+.card { border: 1px solid #f1f5f9; border-radius: 12px; padding: 12px; page-break-inside: avoid; }
+.card h3 { margin-top: 0; }
+.stats { font-size: 11px; margin: 4px 0 0; }
+.legend { font-size: 11px; margin-bottom: 8px; }
+.legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin: 0 4px 0 12px; vertical-align: middle; }
+.heatmap { width: auto; font-size: 9px; }
+.heatmap td.heat { width: 34px; height: 24px; text-align: center; border: 1px solid #fff; }
+.heatmap th.vertical { height: 90px; vertical-align: bottom; }
+.heatmap th.vertical span { writing-mode: vertical-rl; transform: rotate(180deg); white-space: nowrap; }
+.note { font-size: 12px; color: #64748b; font-style: italic; }
+.locked { text-align: center; color: #64748b; background: repeating-linear-gradient(45deg, #f8fafc, #f8fafc 10px, #f1f5f9 10px, #f1f5f9 20px); }
+.print { position: fixed; top: 16px; right: 16px; background: ${PRIMARY}; color: #fff; border: 0; border-radius: 10px; padding: 10px 16px; font-weight: 700; cursor: pointer; }
+footer { text-align: center; font-size: 11px; color: #94a3b8; margin-top: 24px; }
+@page { size: A4; margin: 14mm; }
+@media print {
+    body { background: #fff; }
+    main { padding: 0; }
+    section { border: 0; padding: 0 0 16px; }
+    .print { display: none; }
+}`;
+
+/**
+ * Rapport de prétraitement autonome (HTML + SVG, sans ressource externe),
+ * imprimable en PDF depuis le navigateur. Les sections au-delà de la part
+ * autorisée par l'offre sont remplacées par un encart verrouillé.
+ */
+export const buildReportHtml = (input: ReportInput): string => {
+    const sections = [
+        overviewSection(input),
+        qualitySection(input),
+        journalSection(input),
+        missingSection(input),
+        distributionsSection(input),
+        correlationSection(input),
+        waterfallSection(input),
+    ];
+    const visible = Math.max(1, Math.ceil(sections.length * Math.max(0, Math.min(100, input.visiblePercent)) / 100));
+    const date = input.generatedAt.toLocaleString('fr-FR', { dateStyle: 'long', timeStyle: 'short' });
+
+    const body = sections.map((section, i) => i < visible
+        ? `<section><h2>${escapeHtml(section.title)}</h2>${section.body}</section>`
+        : `<section class="locked"><h2>${escapeHtml(section.title)}</h2><p>🔒 Section non incluse dans votre offre : passez à une offre supérieure pour obtenir le rapport complet.</p></section>`
+    ).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Rapport de prétraitement — ${escapeHtml(input.fileName)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Imprimer / PDF</button>
+<main>
+<header>
+${LOGO_SVG}
+<div class="brand">DataPrep Pro</div>
+<div class="meta">Généré le ${escapeHtml(date)}</div>
+</header>
+<h1>Rapport de prétraitement</h1>
+<p class="note">Fichier : <strong>${escapeHtml(input.fileName)}</strong></p>
+${body}
+<footer>DataPrep Pro · ${escapeHtml(date)}${visible < sections.length ? ` · ${visible} section(s) sur ${sections.length} visibles avec votre offre` : ''}</footer>
+</main>
+</body>
+</html>
+`;
+};
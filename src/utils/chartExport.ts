@@ -0,0 +1,67 @@
+import Papa from 'papaparse';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * SVG autonome du graphique Recharts le plus grand du conteneur : dimensions
+ * figées, police héritée de la page et fond blanc (sinon transparent en PNG).
+ */
+export const serializeChartSvg = (container: HTMLElement): string | null => {
+    const surfaces = Array.from(container.querySelectorAll<SVGSVGElement>('svg.recharts-surface'));
+    const area = (svg: SVGSVGElement) => svg.getBoundingClientRect().width * svg.getBoundingClientRect().height;
+    const svg = surfaces.sort((a, b) => area(b) - area(a))[0];
+    if (!svg) return null;
+
+    const { width, height } = svg.getBoundingClientRect();
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', SVG_NS);
+    clone.setAttribute('width', String(Math.round(width)));
+    clone.setAttribute('height', String(Math.round(height)));
+    if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${Math.round(width)} ${Math.round(height)}`);
+    clone.setAttribute('font-family', getComputedStyle(svg).fontFamily);
+
+    const background = document.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('width', '100%');
+    background.setAttribute('height', '100%');
+    background.setAttribute('fill', '#ffffff');
+    clone.insertBefore(background, clone.firstChild);
+
+    return new XMLSerializer().serializeToString(clone);
+};
+
+/** Rastérise un SVG sérialisé en PNG (résolution doublée pour les diapositives). */
+export const svgToPngBlob = (svg: string, scale = 2): Promise<Blob> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = (image.naturalWidth || 800) * scale;
+        canvas.height = (image.naturalHeight || 400) * scale;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            reject(new Error('Canvas indisponible'));
+            return;
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Conversion PNG impossible')), 'image/png');
+    };
+    image.onerror = () => reject(new Error('SVG illisible'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+/** CSV des données d'un graphique (BOM UTF-8 pour l'ouverture dans Excel). */
+export const rowsToCsv = (rows: Record<string, unknown>[]): string => '\ufeff' + Papa.unparse(
+    rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) =>
+        [key, value !== null && typeof value === 'object' ? JSON.stringify(value) : value]
+    )))
+);
+
+/** Nom de fichier sûr à partir d'un libellé libre (nom de colonne, titre...). */
+export const chartFileName = (...parts: string[]): string => parts
+    .filter(Boolean)
+    .join('_')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
@@ -17,6 +17,8 @@ export type DatasetInfo = {
     headers: string[];
     id?: string;
     transformations?: string[];
+    // Renseigné par le backend après l'étape Split
+    split?: SplitSummary;
 };
 
 export type ColumnStats = {
@@ -33,3 +35,1515 @@ export type ColumnStats = {
     isNormal: boolean;
     isSymmetric: boolean;
 };
+
+export type ImputationStrategy = 'mean' | 'median' | 'mode' | 'constant' | 'ffill' | 'knn' | 'iterative';
+
+export type MissingMechanism = 'MCAR' | 'MAR' | 'MNAR';
+
+export type MissingColumnAnalysis = {
+    name: string;
+    nullCount: number;
+    nullPercentage: number;
+    mechanism?: MissingMechanism;
+    recommendation?: string;
+};
+
+// ─── Helpers statistiques (calculés sur l'échantillon chargé côté client) ───
+
+export const isMissingValue = (value: unknown): boolean =>
+    value === null || value === undefined || value === '' || (typeof value === 'number' && Number.isNaN(value));
+
+export const toNumber = (value: unknown): number | null => {
+    if (isMissingValue(value) || typeof value === 'boolean') return null;
+    const n = typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+    return Number.isFinite(n) ? n : null;
+};
+
+export const numericValues = (rows: DataRow[], column: string): number[] =>
+    rows.map(r => toNumber(r[column])).filter((n): n is number => n !== null);
+
+export const mean = (values: number[]): number =>
+    values.length ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+
+export const median = (values: number[]): number => {
+    if (!values.length) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Minimum et maximum en une passe : `Math.min(...values)` dépasse la pile au-delà de ~100k valeurs
+export const extent = (values: number[]): [number, number] => {
+    if (!values.length) return [NaN, NaN];
+    let min = values[0];
+    let max = values[0];
+    for (const v of values) {
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
+    return [min, max];
+};
+
+export const std = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+export const mode = (values: unknown[]): unknown => {
+    const counts = new Map<string, { value: unknown; count: number }>();
+    for (const v of values) {
+        if (isMissingValue(v)) continue;
+        const key = String(v);
+        const entry = counts.get(key);
+        if (entry) entry.count++;
+        else counts.set(key, { value: v, count: 1 });
+    }
+    let best: { value: unknown; count: number } | null = null;
+    for (const entry of counts.values()) {
+        if (!best || entry.count > best.count) best = entry;
+    }
+    return best?.value ?? null;
+};
+
+const pearson = (pairs: [number, number][]): number => {
+    if (pairs.length < 3) return 0;
+    const mx = mean(pairs.map(p => p[0]));
+    const my = mean(pairs.map(p => p[1]));
+    let num = 0, dx = 0, dy = 0;
+    for (const [x, y] of pairs) {
+        num += (x - mx) * (y - my);
+        dx += (x - mx) ** 2;
+        dy += (y - my) ** 2;
+    }
+    return dx && dy ? num / Math.sqrt(dx * dy) : 0;
+};
+
+/**
+ * Simule une stratégie d'imputation sur un échantillon de lignes et renvoie
+ * les nouvelles valeurs de la colonne. KNN et Iterative sont des
+ * approximations locales : le calcul exact est fait par le backend.
+ */
+export const previewImputation = (
+    rows: DataRow[],
+    column: string,
+    strategy: ImputationStrategy,
+    options: { fillValue?: string; neighbors?: number; numericColumns?: string[] } = {}
+): unknown[] => {
+    const values = rows.map(r => r[column]);
+    const nums = numericValues(rows, column);
+    const isNumeric = nums.length > 0 && nums.length === values.filter(v => !isMissingValue(v)).length;
+    const others = (options.numericColumns || []).filter(c => c !== column);
+
+    switch (strategy) {
+        case 'mean':
+        case 'median': {
+            const fill = strategy === 'mean' ? mean(nums) : median(nums);
+            return values.map(v => isMissingValue(v) && Number.isFinite(fill) ? Number(fill.toFixed(4)) : v);
+        }
+        case 'mode': {
+            const fill = mode(values);
+            return values.map(v => isMissingValue(v) ? fill : v);
+        }
+        case 'constant': {
+            const raw = options.fillValue ?? '';
+            const fill = isNumeric && toNumber(raw) !== null ? toNumber(raw) : raw;
+            return values.map(v => isMissingValue(v) ? fill : v);
+        }
+        case 'ffill': {
+            let last: unknown = null;
+            return values.map(v => {
+                if (isMissingValue(v)) return last;
+                last = v;
+                return v;
+            });
+        }
+        case 'knn': {
+            const k = options.neighbors || 5;
+            const donors = rows.filter(r => !isMissingValue(r[column]));
+            return rows.map((row, i) => {
+                if (!isMissingValue(values[i])) return values[i];
+                const ranked = donors
+                    .map(d => {
+                        let dist = 0, shared = 0;
+                        for (const c of others) {
+                            const a = toNumber(row[c]);
+                            const b = toNumber(d[c]);
+                            if (a === null || b === null) continue;
+                            dist += (a - b) ** 2;
+                            shared++;
+                        }
+                        return { d, dist: shared ? Math.sqrt(dist / shared) : Infinity };
+                    })
+                    .sort((a, b) => a.dist - b.dist)
+                    .slice(0, k)
+                    .map(n => n.d[column]);
+                if (!ranked.length) return null;
+                return isNumeric ? Number(mean(ranked.map(toNumber).filter((n): n is number => n !== null)).toFixed(4)) : mode(ranked);
+            });
+        }
+        case 'iterative': {
+            if (!isNumeric) return previewImputation(rows, column, 'mode');
+            // Une seule itération : régression linéaire sur le prédicteur le plus corrélé
+            let best: { col: string; r: number; pairs: [number, number][] } | null = null;
+            for (const c of others) {
+                const pairs = rows
+                    .map(r => [toNumber(r[c]), toNumber(r[column])])
+                    .filter((p): p is [number, number] => p[0] !== null && p[1] !== null);
+                const r = pearson(pairs);
+                if (!best || Math.abs(r) > Math.abs(best.r)) best = { col: c, r, pairs };
+            }
+            if (!best || Math.abs(best.r) < 0.1) return previewImputation(rows, column, 'mean');
+            const xs = best.pairs.map(p => p[0]);
+            const ys = best.pairs.map(p => p[1]);
+            const slope = best.r * (std(ys) / (std(xs) || 1));
+            const intercept = mean(ys) - slope * mean(xs);
+            const fallback = mean(ys);
+            const predictor = best.col;
+            return rows.map((row, i) => {
+                if (!isMissingValue(values[i])) return values[i];
+                const x = toNumber(row[predictor]);
+                return Number((x === null ? fallback : intercept + slope * x).toFixed(4));
+            });
+        }
+    }
+};
+
+/** Normalise la réponse de `datasetsApi.analyzeMissing` (liste ou `{ columns }`). */
+export const normalizeMissingAnalysis = (raw: unknown): MissingColumnAnalysis[] => {
+    const payload = raw as { columns?: unknown } | unknown[] | null;
+    const list = Array.isArray(payload) ? payload : Array.isArray(payload?.columns) ? payload.columns : [];
+    return (list as Record<string, unknown>[])
+        .map(item => {
+            const mechanism = String(item.mechanism ?? item.type ?? item.missing_type ?? '').toUpperCase();
+            return {
+                name: String(item.name ?? item.column ?? ''),
+                nullCount: Number(item.nullCount ?? item.null_count ?? item.missing ?? 0),
+                nullPercentage: Number(item.nullPercentage ?? item.null_percentage ?? item.percentage ?? 0),
+                mechanism: ['MCAR', 'MAR', 'MNAR'].includes(mechanism) ? mechanism as MissingMechanism : undefined,
+                recommendation: (item.recommendation ?? item.recommended_strategy ?? item.strategy) as string | undefined,
+            };
+        })
+        .filter(c => c.name);
+};
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'isolation_forest' | 'lof' | 'elliptic_envelope';
+
+export type OutlierTreatment = 'cap' | 'remove' | 'flag' | 'none';
+
+export const quantile = (values: number[], q: number): number => {
+    if (!values.length) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * q;
+    const base = Math.floor(pos);
+    const rest = pos - base;
+    return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+/**
+ * Détection univariée (B.1) : bornes IQR (Q1 - k·IQR, Q3 + k·IQR) ou z-score (|z| > k).
+ * Renvoie les bornes et les index des lignes hors bornes.
+ */
+export const detectUnivariateOutliers = (
+    rows: DataRow[],
+    column: string,
+    method: 'iqr' | 'zscore',
+    threshold: number
+): { lower: number; upper: number; indices: number[] } => {
+    const values = numericValues(rows, column);
+    let lower: number, upper: number;
+    if (method === 'iqr') {
+        const q1 = quantile(values, 0.25);
+        const q3 = quantile(values, 0.75);
+        lower = q1 - threshold * (q3 - q1);
+        upper = q3 + threshold * (q3 - q1);
+    } else {
+        const m = mean(values);
+        const s = std(values);
+        lower = m - threshold * s;
+        upper = m + threshold * s;
+    }
+    const indices: number[] = [];
+    rows.forEach((row, i) => {
+        const n = toNumber(row[column]);
+        if (n !== null && (n < lower || n > upper)) indices.push(i);
+    });
+    return { lower, upper, indices };
+};
+
+export type ModelObjective = 'classification' | 'regression' | 'clustering';
+
+// Configuration choisie à l'étape Objectifs (enregistrée dans la session)
+export type PipelineConfig = {
+    objective: ModelObjective;
+    algorithm: string[];
+    nlp: string;
+    // Vectorisation des colonnes texte, colonne par colonne (C.5)
+    nlp_columns?: Record<string, TextColumnConfig>;
+    target?: string;
+};
+
+export const MAX_CLASSIFICATION_CLASSES = 20;
+
+/** Vérifie qu'une colonne cible est cohérente avec l'objectif choisi. */
+export const validateTarget = (
+    column: DataColumn | undefined,
+    objective: ModelObjective
+): { valid: boolean; message: string } => {
+    if (objective === 'clustering') {
+        return column
+            ? { valid: false, message: "Le clustering est non supervisé : aucune cible ne doit être définie." }
+            : { valid: true, message: 'Aucune cible requise pour le clustering.' };
+    }
+    if (!column) return { valid: false, message: 'Sélectionnez la colonne à prédire.' };
+    if (column.uniqueCount < 2) return { valid: false, message: 'La cible est constante : rien à prédire.' };
+
+    if (objective === 'classification') {
+        if (column.type === 'categorical' || column.type === 'boolean') {
+            return column.uniqueCount <= MAX_CLASSIFICATION_CLASSES
+                ? { valid: true, message: `${column.uniqueCount} classes détectées.` }
+                : { valid: false, message: `${column.uniqueCount} modalités : trop de classes pour une classification (max ${MAX_CLASSIFICATION_CLASSES}).` };
+        }
+        if (column.type === 'numeric' && column.uniqueCount <= MAX_CLASSIFICATION_CLASSES) {
+            return { valid: true, message: `Numérique à faible cardinalité (${column.uniqueCount} valeurs) : traitée comme classes.` };
+        }
+        return { valid: false, message: 'Une cible de classification doit être catégorielle ou à faible cardinalité.' };
+    }
+
+    if (column.type !== 'numeric') return { valid: false, message: 'Une cible de régression doit être numérique.' };
+    return column.uniqueCount <= 10
+        ? { valid: true, message: `Seulement ${column.uniqueCount} valeurs distinctes : une classification serait peut-être plus adaptée.` }
+        : { valid: true, message: 'Cible numérique continue.' };
+};
+
+// Noms de colonnes fréquemment utilisés pour la variable cible
+const TARGET_NAME_HINTS = ['target', 'label', 'class', 'classe', 'y', 'outcome', 'churn', 'cible'];
+
+export const guessTargetColumn = (columns: DataColumn[], objective: ModelObjective): string => {
+    if (objective === 'clustering') return '';
+    const candidates = columns.filter(c => validateTarget(c, objective).valid);
+    return candidates.find(c => TARGET_NAME_HINTS.includes(c.name.toLowerCase()))?.name || '';
+};
+
+// ─── Inférence de types (aperçu client avant upload) ───
+
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no', 'oui', 'non', 'vrai', 'faux']);
+const DATE_PATTERN = /^(\d{4}[-/]\d{1,2}[-/]\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?|\d{1,2}[-/.]\d{1,2}[-/.]\d{4}( \d{1,2}:\d{2}(:\d{2})?)?)$/;
+
+export const inferColumnType = (values: unknown[]): DataColumn['type'] => {
+    const present = values.filter(v => !isMissingValue(v));
+    if (!present.length) return 'unknown';
+    if (present.every(v => typeof v === 'boolean' || BOOLEAN_VALUES.has(String(v).trim().toLowerCase()))) return 'boolean';
+    if (present.every(v => toNumber(typeof v === 'string' ? v.trim() : v) !== null)) return 'numeric';
+    if (present.every(v => v instanceof Date || DATE_PATTERN.test(String(v).trim()))) return 'datetime';
+    return 'categorical';
+};
+
+/** Construit les `DataColumn` d'un échantillon de lignes (mêmes champs que ceux renvoyés par le serveur). */
+export const describeColumns = (headers: string[], rows: DataRow[]): DataColumn[] =>
+    headers.map(name => {
+        const values = rows.map(r => r[name]);
+        const nullCount = values.filter(isMissingValue).length;
+        return {
+            name,
+            type: inferColumnType(values),
+            nullCount,
+            nullPercentage: rows.length ? (nullCount / rows.length) * 100 : 0,
+            uniqueCount: new Set(values.filter(v => !isMissingValue(v)).map(v => String(v))).size,
+            sampleValues: values.filter(v => !isMissingValue(v)).slice(0, 5),
+        };
+    });
+
+// ─── Feature engineering (Section C) ───
+
+export type DatetimePart = 'year' | 'month' | 'day' | 'weekday' | 'hour';
+
+export type CardinalityStrategy = 'other' | 'frequency' | 'target';
+
+export type DerivedOperator = 'add' | 'subtract' | 'multiply' | 'divide' | 'log1p' | 'sqrt' | 'square';
+
+export const UNARY_OPERATORS: DerivedOperator[] = ['log1p', 'sqrt', 'square'];
+
+// Paramètres envoyés tels quels à `datasetsApi.process(type, params)`
+export type EngineeringAction =
+    | { type: 'drop_columns'; columns: string[] }
+    | { type: 'datetime_features'; column: string; parts: DatetimePart[]; drop_original: boolean }
+    | { type: 'cyclic_encoding'; column: string; period: number; drop_original: boolean }
+    | { type: 'high_cardinality'; column: string; strategy: CardinalityStrategy; top_n: number; target?: string; smoothing: number }
+    | { type: 'derived_column'; name: string; operator: DerivedOperator; left: string; right?: string; constant?: number };
+
+const ID_NAME_PATTERN = /(^id$|_id$|^id_|uuid|guid|identifiant|email|e-mail|telephone|phone)/i;
+
+/** Identifiant probable (C.1) : quasi unique sur l'échantillon, ou nom explicite. */
+export const isIdentifierColumn = (column: DataColumn, rowCount: number): boolean => {
+    if (column.type === 'datetime' || column.type === 'boolean') return false;
+    const nearlyUnique = rowCount > 0 && column.uniqueCount >= rowCount * 0.95;
+    return ID_NAME_PATTERN.test(column.name) ? column.uniqueCount > 1 : nearlyUnique && column.type === 'categorical';
+};
+
+export const parseDate = (value: unknown): Date | null => {
+    if (isMissingValue(value)) return null;
+    if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+    const text = String(value).trim();
+    // Format français jj/mm/aaaa [hh:mm[:ss]]
+    const fr = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (fr) {
+        const [, d, m, y, hh = '0', mm = '0', ss = '0'] = fr;
+        return new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+    }
+    const parsed = new Date(text);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const DATETIME_PART_GETTERS: Record<DatetimePart, (d: Date) => number> = {
+    year: d => d.getFullYear(),
+    month: d => d.getMonth() + 1,
+    day: d => d.getDate(),
+    weekday: d => (d.getDay() + 6) % 7, // lundi = 0, comme pandas
+    hour: d => d.getHours(),
+};
+
+// Période naturelle d'une composante cyclique (C.3)
+export const guessCyclePeriod = (column: string): number => {
+    if (/hour|heure/i.test(column)) return 24;
+    if (/weekday|dayofweek|jour_sem/i.test(column)) return 7;
+    if (/month|mois/i.test(column)) return 12;
+    if (/day|jour/i.test(column)) return 31;
+    return 12;
+};
+
+const round = (n: number) => Number(n.toFixed(4));
+
+/**
+ * Applique une action d'ingénierie sur un échantillon de lignes (aperçu client).
+ * Les statistiques (fréquences, moyennes de la cible) sont celles de l'échantillon :
+ * les valeurs définitives sont calculées par le backend sur le dataset complet.
+ */
+export const applyEngineeringAction = (rows: DataRow[], action: EngineeringAction): DataRow[] => {
+    switch (action.type) {
+        case 'drop_columns':
+            return rows.map(r => Object.fromEntries(Object.entries(r).filter(([k]) => !action.columns.includes(k))));
+        case 'datetime_features':
+            return rows.map(r => {
+                const date = parseDate(r[action.column]);
+                const next: DataRow = { ...r };
+                for (const part of action.parts) next[`${action.column}_${part}`] = date ? DATETIME_PART_GETTERS[part](date) : null;
+                if (action.drop_original) delete next[action.column];
+                return next;
+            });
+        case 'cyclic_encoding':
+            return rows.map(r => {
+                const v = toNumber(r[action.column]);
+                const next: DataRow = { ...r };
+                next[`${action.column}_sin`] = v === null ? null : round(Math.sin((2 * Math.PI * v) / action.period));
+                next[`${action.column}_cos`] = v === null ? null : round(Math.cos((2 * Math.PI * v) / action.period));
+                if (action.drop_original) delete next[action.column];
+                return next;
+            });
+        case 'high_cardinality': {
+            const counts = new Map<string, number>();
+            for (const r of rows) {
+                if (isMissingValue(r[action.column])) continue;
+                const key = String(r[action.column]);
+                counts.set(key, (counts.get(key) || 0) + 1);
+            }
+            if (action.strategy === 'other') {
+                const kept = new Set([...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, action.top_n).map(([k]) => k));
+                return rows.map(r => isMissingValue(r[action.column]) ? r : { ...r, [action.column]: kept.has(String(r[action.column])) ? r[action.column] : 'other' });
+            }
+            if (action.strategy === 'frequency') {
+                return rows.map(r => ({ ...r, [`${action.column}_freq`]: isMissingValue(r[action.column]) ? null : counts.get(String(r[action.column])) || 0 }));
+            }
+            // Target encoding lissé : (n·moyenne + m·moyenne globale) / (n + m)
+            const target = action.target || '';
+            const targetValues = rows.map(r => r[target]);
+            const numericTarget = targetValues.every(v => isMissingValue(v) || toNumber(v) !== null);
+            // Cible catégorielle : taux de la classe minoritaire
+            const classCounts = new Map<string, number>();
+            targetValues.filter(v => !isMissingValue(v)).forEach(v => classCounts.set(String(v), (classCounts.get(String(v)) || 0) + 1));
+            const positive = numericTarget ? null : [...classCounts.entries()].sort((a, b) => a[1] - b[1])[0]?.[0] ?? null;
+            const encode = (v: unknown) => numericTarget ? toNumber(v) : isMissingValue(v) ? null : String(v) === positive ? 1 : 0;
+            const encoded = targetValues.map(encode).filter((n): n is number => n !== null);
+            const global = mean(encoded);
+            const sums = new Map<string, { sum: number; n: number }>();
+            rows.forEach((r, i) => {
+                const y = encode(targetValues[i]);
+                if (y === null || isMissingValue(r[action.column])) return;
+                const key = String(r[action.column]);
+                const entry = sums.get(key) || { sum: 0, n: 0 };
+                sums.set(key, { sum: entry.sum + y, n: entry.n + 1 });
+            });
+            return rows.map(r => {
+                const entry = sums.get(String(r[action.column]));
+                const value = entry ? (entry.sum + action.smoothing * global) / (entry.n + action.smoothing) : global;
+                return { ...r, [`${action.column}_te`]: Number.isFinite(value) ? round(value) : null };
+            });
+        }
+        case 'derived_column':
+            return rows.map(r => {
+                const a = toNumber(r[action.left]);
+                const b = action.right ? toNumber(r[action.right]) : action.constant ?? null;
+                let value: number | null = null;
+                if (a !== null) {
+                    switch (action.operator) {
+                        case 'log1p': value = a > -1 ? Math.log1p(a) : null; break;
+                        case 'sqrt': value = a >= 0 ? Math.sqrt(a) : null; break;
+                        case 'square': value = a * a; break;
+                        case 'add': value = b === null ? null : a + b; break;
+                        case 'subtract': value = b === null ? null : a - b; break;
+                        case 'multiply': value = b === null ? null : a * b; break;
+                        case 'divide': value = b === null || b === 0 ? null : a / b; break;
+                    }
+                }
+                return { ...r, [action.name]: value === null || !Number.isFinite(value) ? null : round(value) };
+            });
+    }
+};
+
+// ─── Split train / validation / test (Section D) ───
+
+export type SplitMode = 'random' | 'group' | 'time';
+
+export type SplitName = 'train' | 'validation' | 'test';
+
+export const SPLIT_LABELS: Record<SplitName, string> = { train: 'Train', validation: 'Validation', test: 'Test' };
+
+export type SplitConfig = {
+    mode: SplitMode;
+    test_size: number;
+    validation_size: number;
+    random_state: number;
+    stratify: boolean;
+    target?: string;
+    group_column?: string;
+    time_column?: string;
+};
+
+export type SplitPart = {
+    name: SplitName;
+    rows: number;
+    // Effectifs par classe de la cible (classification) ; vide sinon
+    distribution: Record<string, number>;
+    // Bornes de la période couverte (split temporel)
+    from?: string;
+    to?: string;
+};
+
+export type SplitSummary = { config: SplitConfig; parts: SplitPart[] };
+
+/** D.2 : 80/20 sous 100k lignes, 90/10 au-delà. */
+export const defaultTestSize = (rows: number): number => rows > 100000 ? 0.1 : 0.2;
+
+// Générateur pseudo-aléatoire déterministe (mulberry32) : même graine, même aperçu
+const seededRandom = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+};
+
+/**
+ * Simule le split sur l'échantillon chargé pour estimer la taille et la distribution
+ * de la cible de chaque ensemble. Le découpage réel est fait par le backend.
+ */
+export const simulateSplit = (rows: DataRow[], config: SplitConfig): SplitPart[] => {
+    const random = seededRandom(config.random_state);
+    const indices = rows.map((_, i) => i);
+    const assignment = new Array<SplitName>(rows.length).fill('train');
+    const cut = (n: number) => {
+        const test = Math.round(n * config.test_size);
+        return { test, validation: Math.round(n * config.validation_size) };
+    };
+    // Les premiers indices vont au test, les suivants à la validation
+    const assign = (ordered: number[]) => {
+        const { test, validation } = cut(ordered.length);
+        ordered.forEach((idx, pos) => { assignment[idx] = pos < test ? 'test' : pos < test + validation ? 'validation' : 'train'; });
+    };
+
+    if (config.mode === 'time' && config.time_column) {
+        // Le futur en test : tri chronologique décroissant, dates manquantes en fin de train
+        const time = config.time_column;
+        const stamps = rows.map(r => parseDate(r[time])?.getTime() ?? null);
+        assign([...indices].sort((a, b) => {
+            const sa = stamps[a];
+            const sb = stamps[b];
+            if (sa === null || sb === null) return (sa === null ? 1 : 0) - (sb === null ? 1 : 0);
+            return sb - sa;
+        }));
+    } else if (config.mode === 'group' && config.group_column) {
+        // Un groupe entier dans un seul ensemble
+        const group = config.group_column;
+        const groups = new Map<string, number[]>();
+        indices.forEach(i => {
+            const key = String(rows[i][group] ?? '');
+            const members = groups.get(key);
+            if (members) members.push(i);
+            else groups.set(key, [i]);
+        });
+        const { test, validation } = cut(rows.length);
+        let filled = 0;
+        for (const members of shuffle([...groups.values()], random)) {
+            const name: SplitName = filled < test ? 'test' : filled < test + validation ? 'validation' : 'train';
+            members.forEach(i => { assignment[i] = name; });
+            filled += members.length;
+        }
+    } else if (config.stratify && config.target) {
+        const target = config.target;
+        const strata = new Map<string, number[]>();
+        indices.forEach(i => {
+            const key = String(rows[i][target] ?? '');
+            const members = strata.get(key);
+            if (members) members.push(i);
+            else strata.set(key, [i]);
+        });
+        strata.forEach(members => assign(shuffle(members, random)));
+    } else {
+        assign(shuffle(indices, random));
+    }
+
+    const names: SplitName[] = config.validation_size > 0 ? ['train', 'validation', 'test'] : ['train', 'test'];
+    return names.map(name => {
+        const members = indices.filter(i => assignment[i] === name);
+        const distribution: Record<string, number> = {};
+        if (config.target) {
+            members.forEach(i => {
+                const key = String(rows[i][config.target as string] ?? '');
+                distribution[key] = (distribution[key] || 0) + 1;
+            });
+        }
+        const part: SplitPart = { name, rows: members.length, distribution };
+        if (config.mode === 'time' && config.time_column) {
+            const dates = members.map(i => parseDate(rows[i][config.time_column as string])).filter((d): d is Date => d !== null);
+            if (dates.length) {
+                const [from, to] = extent(dates.map(d => d.getTime()));
+                part.from = new Date(from).toISOString().slice(0, 10);
+                part.to = new Date(to).toISOString().slice(0, 10);
+            }
+        }
+        return part;
+    });
+};
+
+// ─── Déséquilibre des classes (Section G) ───
+
+export type ImbalanceStrategy = 'smote' | 'borderline_smote' | 'adasyn' | 'undersample' | 'class_weight' | 'none';
+
+export type ImbalanceLevel = 'balanced' | 'light' | 'moderate' | 'severe';
+
+export type ClassCount = { label: string; count: number };
+
+export const classDistribution = (rows: DataRow[], target: string): ClassCount[] => {
+    const counts = new Map<string, number>();
+    rows.forEach(r => {
+        if (isMissingValue(r[target])) return;
+        const key = String(r[target]);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return [...counts.entries()].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+};
+
+/** Niveaux d'alerte G.1 d'après la part de la classe majoritaire. */
+export const imbalanceLevel = (distribution: ClassCount[]): ImbalanceLevel => {
+    const total = distribution.reduce((acc, c) => acc + c.count, 0);
+    if (!total || distribution.length < 2) return 'balanced';
+    const majority = Math.max(...distribution.map(c => c.count)) / total;
+    if (majority >= 0.95) return 'severe';
+    if (majority >= 0.8) return 'moderate';
+    if (majority > 0.6) return 'light';
+    return 'balanced';
+};
+
+/**
+ * Distribution attendue après rééquilibrage du train. `ratio` suit le `sampling_strategy`
+ * d'imbalanced-learn : effectif minoritaire / effectif majoritaire visé.
+ * class_weight ne modifie pas les effectifs mais pondère chaque classe (n / (k · n_classe)).
+ */
+export const previewResampling = (
+    distribution: ClassCount[],
+    strategy: ImbalanceStrategy,
+    ratio: number
+): (ClassCount & { weight?: number })[] => {
+    const total = distribution.reduce((acc, c) => acc + c.count, 0);
+    const majority = Math.max(0, ...distribution.map(c => c.count));
+    const minority = Math.min(...distribution.map(c => c.count));
+    switch (strategy) {
+        case 'smote':
+        case 'borderline_smote':
+        case 'adasyn':
+            return distribution.map(c => ({ ...c, count: Math.max(c.count, Math.round(majority * ratio)) }));
+        case 'undersample':
+            return distribution.map(c => ({ ...c, count: Math.min(c.count, Math.round(minority / ratio)) }));
+        case 'class_weight':
+            return distribution.map(c => ({ ...c, weight: Number((total / (distribution.length * c.count)).toFixed(3)) }));
+        case 'none':
+            return distribution;
+    }
+};
+
+// ─── Audit initial (Section 0) ───
+
+export type ColumnType = DataColumn['type'];
+
+export type TypeFix = { column: string; from: ColumnType; to: ColumnType; reason: string };
+
+/** 0.1 : colonnes dont le type détecté ne correspond pas aux valeurs observées. */
+export const suggestTypeFixes = (columns: DataColumn[], rows: DataRow[]): TypeFix[] =>
+    columns.flatMap<TypeFix>(col => {
+        const values = rows.map(r => r[col.name]).filter(v => !isMissingValue(v));
+        if (!values.length) return [];
+        const distinct = new Set(values.map(v => String(v).trim()));
+        if (col.type === 'numeric' && distinct.size === 2 && [...distinct].every(v => v === '0' || v === '1')) {
+            return [{ column: col.name, from: col.type, to: 'boolean', reason: 'Uniquement 0 / 1 : indicateur binaire' }];
+        }
+        const inferred = inferColumnType(values);
+        if (inferred === col.type || inferred === 'unknown') return [];
+        const reasons: Partial<Record<ColumnType, string>> = {
+            numeric: 'Nombres stockés en texte',
+            datetime: 'Dates stockées en texte ou en nombre',
+            boolean: 'Valeurs oui/non, vrai/faux',
+        };
+        return [{ column: col.name, from: col.type, to: inferred, reason: reasons[inferred] || 'Valeurs hétérogènes' }];
+    });
+
+export type DuplicateKeep = 'first' | 'last' | 'none';
+
+/** 0.2 : lignes en double (exactes, ou sur un sous-ensemble de colonnes pour les partiels). */
+export const findDuplicates = (rows: DataRow[], subset: string[] = []) => {
+    const keyOf = (r: DataRow) => JSON.stringify(subset.length ? subset.map(c => r[c]) : Object.values(r));
+    const groups = new Map<string, number[]>();
+    rows.forEach((r, i) => {
+        const key = keyOf(r);
+        const members = groups.get(key);
+        if (members) members.push(i);
+        else groups.set(key, [i]);
+    });
+    const duplicated = [...groups.values()].filter(g => g.length > 1);
+    return {
+        // Lignes retirées avec keep='first' / 'last'
+        extra: duplicated.reduce((acc, g) => acc + g.length - 1, 0),
+        // Lignes concernées (keep=False)
+        involved: duplicated.reduce((acc, g) => acc + g.length, 0),
+        groups: duplicated,
+    };
+};
+
+export type IrrelevantReason = 'constant' | 'near_constant' | 'identifier' | 'free_text';
+
+export type IrrelevantColumn = { column: string; reason: IrrelevantReason; detail: string };
+
+const NEAR_CONSTANT_SHARE = 0.95;
+
+/** 0.4 : colonnes constantes, quasi constantes, identifiants et texte libre. */
+export const findIrrelevantColumns = (columns: DataColumn[], rows: DataRow[], target?: string): IrrelevantColumn[] =>
+    columns.filter(c => c.name !== target).flatMap<IrrelevantColumn>(col => {
+        const values = rows.map(r => r[col.name]).filter(v => !isMissingValue(v)).map(v => String(v));
+        if (col.uniqueCount <= 1) return [{ column: col.name, reason: 'constant', detail: 'Même valeur partout' }];
+        const counts = new Map<string, number>();
+        values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+        const top = Math.max(0, ...counts.values());
+        if (values.length && top / values.length > NEAR_CONSTANT_SHARE) {
+            return [{ column: col.name, reason: 'near_constant', detail: `${Math.round((top / values.length) * 100)} % de valeurs identiques` }];
+        }
+        if (isIdentifierColumn(col, rows.length)) return [{ column: col.name, reason: 'identifier', detail: `${col.uniqueCount} valeurs distinctes` }];
+        const avgLength = values.length ? values.reduce((acc, v) => acc + v.length, 0) / values.length : 0;
+        if (col.type === 'categorical' && avgLength > 40 && col.uniqueCount > rows.length * 0.5) {
+            return [{ column: col.name, reason: 'free_text', detail: `Texte libre (${Math.round(avgLength)} caractères en moyenne)` }];
+        }
+        return [];
+    });
+
+// ─── Encodage et scaling (Sections E et F) ───
+
+export type EncodingMethod = 'onehot' | 'ordinal' | 'target' | 'frequency' | 'hashing';
+
+export type ScalingMethod = 'standard' | 'minmax' | 'robust' | 'none';
+
+export type ColumnEncoding = { method: EncodingMethod; order?: string[]; n_components?: number };
+
+export type EncodingConfig = {
+    encoders: Record<string, ColumnEncoding>;
+    scalers: Record<string, ScalingMethod>;
+};
+
+export type AlgorithmFamily = 'tree' | 'distance' | 'none';
+
+// Familles d'algorithmes de l'étape Objectifs (F.2)
+export const TREE_ALGORITHMS = ['rf', 'xgboost'];
+export const DISTANCE_ALGORITHMS = ['knn', 'nn', 'linear'];
+
+export const algorithmFamily = (algorithms: string[] = []): AlgorithmFamily => {
+    if (algorithms.includes('auto') || algorithms.length === 0) return 'none';
+    if (algorithms.some(a => TREE_ALGORITHMS.includes(a))) return 'tree';
+    if (algorithms.some(a => DISTANCE_ALGORITHMS.includes(a))) return 'distance';
+    return 'none';
+};
+
+const HIGH_CARDINALITY_LIMIT = 50;
+
+/** E.1 : binaire → ordinal (pas d'OHE redondant), < 50 modalités → OHE, au-delà → target / fréquence. */
+export const suggestEncoding = (column: DataColumn, supervised: boolean): ColumnEncoding => {
+    if (column.type === 'boolean' || column.uniqueCount <= 2) return { method: 'ordinal' };
+    if (column.uniqueCount <= HIGH_CARDINALITY_LIMIT) return { method: 'onehot' };
+    return { method: supervised ? 'target' : 'frequency' };
+};
+
+/** F.1 / F.2 : pas de scaling pour les arbres, Robust si outliers, Standard si gaussienne, MinMax sinon. */
+export const suggestScaling = (values: number[], family: AlgorithmFamily): ScalingMethod => {
+    if (family === 'tree' || values.length < 3) return family === 'tree' ? 'none' : 'standard';
+    const q1 = quantile(values, 0.25);
+    const q3 = quantile(values, 0.75);
+    const iqr = q3 - q1;
+    const outliers = values.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr).length;
+    if (outliers / values.length > 0.05) return 'robust';
+    const m = mean(values);
+    const s = std(values);
+    const skewness = s ? values.reduce((acc, v) => acc + ((v - m) / s) ** 3, 0) / values.length : 0;
+    return Math.abs(skewness) < 0.5 ? 'standard' : 'minmax';
+};
+
+/** Choix incompatibles avec la famille d'algorithmes ou l'objectif. */
+export const encodingWarnings = (
+    config: EncodingConfig,
+    columns: DataColumn[],
+    family: AlgorithmFamily,
+    objective?: ModelObjective
+): Record<string, string> => {
+    const warnings: Record<string, string> = {};
+    for (const [name, enc] of Object.entries(config.encoders)) {
+        const col = columns.find(c => c.name === name);
+        if (enc.method === 'target' && objective === 'clustering') {
+            warnings[name] = 'Target encoding impossible sans variable cible (clustering).';
+        } else if (enc.method === 'onehot' && col && col.uniqueCount > HIGH_CARDINALITY_LIMIT) {
+            warnings[name] = `${col.uniqueCount} modalités : le OneHot va exploser le nombre de colonnes.`;
+        } else if (enc.method === 'ordinal' && family === 'distance' && !enc.order?.length && col && col.uniqueCount > 2) {
+            warnings[name] = 'Ordinal sans ordre défini : un modèle à distance interprétera un ordre arbitraire.';
+        } else if (enc.method === 'hashing' && family === 'distance') {
+            warnings[name] = 'Le hashing crée des collisions peu adaptées aux modèles à distance.';
+        }
+    }
+    for (const [name, scaler] of Object.entries(config.scalers)) {
+        if (family === 'distance' && scaler === 'none') warnings[name] = 'Modèles à distance (KNN, SVM, NN) : scaling OBLIGATOIRE.';
+        if (family === 'tree' && scaler !== 'none') warnings[name] = 'Arbres : scaling inutile, il nuit à l\'interprétabilité sans gain.';
+    }
+    return warnings;
+};
+
+// ─── Texte libre (Section C.5) ───
+
+export type NlpMethod = 'none' | 'tfidf' | 'word2vec' | 'bert';
+
+export type StopWordsLanguage = 'none' | 'french' | 'english';
+
+export type TextReduction = 'none' | 'svd' | 'pca';
+
+export type TextColumnConfig = {
+    method: NlpMethod;
+    max_features: number;
+    ngram_range: [number, number];
+    model: string;
+    stop_words: StopWordsLanguage;
+    reduction: TextReduction;
+    n_components: number;
+};
+
+// Feature du tier requise par méthode (cf. AuthContext)
+export const NLP_FEATURES: Record<Exclude<NlpMethod, 'none'>, string> = {
+    tfidf: 'nlp_tfidf',
+    word2vec: 'nlp_word2vec',
+    bert: 'nlp_bert',
+};
+
+export const NLP_MODELS: Record<'word2vec' | 'bert', { id: string; label: string }[]> = {
+    word2vec: [
+        { id: 'word2vec-google-news-300', label: 'Google News (300 dim.)' },
+        { id: 'fasttext-wiki-news-subwords-300', label: 'FastText Wiki News (300 dim.)' },
+        { id: 'glove-wiki-gigaword-100', label: 'GloVe Wikipedia (100 dim.)' },
+    ],
+    bert: [
+        { id: 'paraphrase-multilingual-MiniLM-L12-v2', label: 'MiniLM multilingue (384 dim.)' },
+        { id: 'all-MiniLM-L6-v2', label: 'MiniLM anglais (384 dim.)' },
+        { id: 'dangvantuan/sentence-camembert-base', label: 'CamemBERT (768 dim.)' },
+    ],
+};
+
+export const defaultTextConfig = (method: NlpMethod): TextColumnConfig => ({
+    method,
+    max_features: 1000,
+    ngram_range: [1, 1],
+    model: method === 'word2vec' || method === 'bert' ? NLP_MODELS[method][0].id : '',
+    stop_words: 'french',
+    reduction: method === 'tfidf' ? 'svd' : 'none',
+    n_components: 50,
+});
+
+/** Colonne catégorielle contenant des phrases plutôt que des modalités. */
+export const isTextColumn = (col: DataColumn, rows: DataRow[]): boolean => {
+    if (col.type !== 'categorical') return false;
+    const values = rows.map(r => r[col.name]).filter(v => !isMissingValue(v)).map(v => String(v));
+    if (!values.length) return false;
+    const avgLength = values.reduce((acc, v) => acc + v.length, 0) / values.length;
+    const avgWords = values.reduce((acc, v) => acc + v.trim().split(/\s+/).length, 0) / values.length;
+    return avgLength > 20 && avgWords >= 3;
+};
+
+// Listes réduites, suffisantes pour l'aperçu (le backend utilise les listes complètes)
+export const STOP_WORDS: Record<Exclude<StopWordsLanguage, 'none'>, string[]> = {
+    french: [
+        'au', 'aux', 'avec', 'ce', 'ces', 'cette', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'eux', 'il', 'ils', 'je',
+        'la', 'le', 'les', 'leur', 'lui', 'ma', 'mais', 'me', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ou', 'par',
+        'pas', 'pour', 'qu', 'que', 'qui', 'sa', 'se', 'ses', 'son', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un', 'une',
+        'vos', 'votre', 'vous', 'très', 'été', 'être', 'avoir', 'sont', 'était', 'fait', 'plus', 'tout', 'tous', 'ça', 'bien',
+    ],
+    english: [
+        'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could',
+        'did', 'do', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+        'just', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'out', 'she', 'so', 'than', 'that', 'the', 'their', 'them',
+        'then', 'there', 'they', 'this', 'to', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with',
+        'would', 'you', 'your',
+    ],
+};
+
+const tokenize = (text: string, stopWords: StopWordsLanguage): string[] => {
+    const stop = stopWords === 'none' ? null : new Set(STOP_WORDS[stopWords]);
+    return (text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) || []).filter(t => !stop?.has(t));
+};
+
+/** Aperçu TF-IDF : termes au score cumulé le plus élevé sur l'échantillon. */
+export const topTfidfTerms = (
+    values: string[],
+    config: Pick<TextColumnConfig, 'max_features' | 'ngram_range' | 'stop_words'>,
+    limit = 8
+): { term: string; score: number }[] => {
+    const [minN, maxN] = config.ngram_range;
+    const documents = values.map(v => {
+        const tokens = tokenize(v, config.stop_words);
+        const grams: string[] = [];
+        for (let n = minN; n <= maxN; n++) {
+            for (let i = 0; i + n <= tokens.length; i++) grams.push(tokens.slice(i, i + n).join(' '));
+        }
+        return grams;
+    }).filter(d => d.length);
+    if (!documents.length) return [];
+
+    const docFrequency = new Map<string, number>();
+    documents.forEach(d => new Set(d).forEach(t => docFrequency.set(t, (docFrequency.get(t) || 0) + 1)));
+    // Vocabulaire restreint aux max_features termes les plus fréquents, comme TfidfVectorizer
+    const vocabulary = new Set([...docFrequency.entries()].sort((a, b) => b[1] - a[1]).slice(0, config.max_features).map(([t]) => t));
+
+    const scores = new Map<string, number>();
+    for (const doc of documents) {
+        const counts = new Map<string, number>();
+        doc.filter(t => vocabulary.has(t)).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+        // idf lissé et normalisation L2, mêmes choix que scikit-learn
+        const weights = [...counts.entries()].map(([t, c]) => [t, c * (Math.log((1 + documents.length) / (1 + (docFrequency.get(t) || 0))) + 1)] as const);
+        const norm = Math.sqrt(weights.reduce((acc, [, w]) => acc + w * w, 0)) || 1;
+        weights.forEach(([t, w]) => scores.set(t, (scores.get(t) || 0) + w / norm));
+    }
+    return [...scores.entries()]
+        .map(([term, score]) => ({ term, score: score / documents.length }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+// ─── Grille paginée (aperçu des données) ───
+
+export type SortOrder = 'asc' | 'desc';
+
+export type RowQuery = {
+    sort?: string;
+    order?: SortOrder;
+    // Filtre par colonne, même syntaxe côté serveur : « >10 », « <=3 », « =Paris », « !=0 », « null », « !null » ou texte contenu
+    filters: Record<string, string>;
+};
+
+export type RowPage = { rows: DataRow[]; total: number };
+
+/** Filtre d'une cellule de la grille, équivalent client du filtre serveur. */
+export const matchesRowFilter = (value: unknown, filter: string): boolean => {
+    const f = filter.trim();
+    if (!f) return true;
+    if (f === 'null') return isMissingValue(value);
+    if (f === '!null') return !isMissingValue(value);
+    const match = f.match(/^(>=|<=|!=|>|<|=)\s*(.*)$/);
+    if (!match) return !isMissingValue(value) && String(value).toLowerCase().includes(f.toLowerCase());
+    const [, op, operand] = match;
+    const n = toNumber(value);
+    const m = toNumber(operand);
+    if (op === '=' || op === '!=') {
+        const equal = n !== null && m !== null ? n === m : String(value ?? '').toLowerCase() === operand.toLowerCase();
+        return op === '=' ? equal : !equal;
+    }
+    if (n === null || m === null) return false;
+    return op === '>' ? n > m : op === '<' ? n < m : op === '>=' ? n >= m : n <= m;
+};
+
+/** Tri des lignes : valeurs manquantes en fin, numériques avant texte. */
+export const compareCells = (a: unknown, b: unknown): number => {
+    const missingA = isMissingValue(a);
+    const missingB = isMissingValue(b);
+    if (missingA || missingB) return missingA === missingB ? 0 : missingA ? 1 : -1;
+    const na = toNumber(a);
+    const nb = toNumber(b);
+    if (na !== null && nb !== null) return na - nb;
+    return String(a).localeCompare(String(b), 'fr', { numeric: true });
+};
+
+/** Page de lignes calculée localement (dataset sans identifiant serveur). */
+export const queryRows = (rows: DataRow[], offset: number, limit: number, query: RowQuery): RowPage => {
+    const filters = Object.entries(query.filters).filter(([, f]) => f.trim());
+    let result = filters.length ? rows.filter(r => filters.every(([col, f]) => matchesRowFilter(r[col], f))) : rows;
+    if (query.sort) {
+        const col = query.sort;
+        const sign = query.order === 'desc' ? -1 : 1;
+        // Tri : les manquants restent en fin quel que soit le sens
+        result = [...result].sort((a, b) => isMissingValue(a[col]) || isMissingValue(b[col]) ? compareCells(a[col], b[col]) : sign * compareCells(a[col], b[col]));
+    }
+    return { rows: result.slice(offset, offset + limit), total: result.length };
+};
+
+// ─── Comparaison avant / après ───
+
+export type DiffSource = { columnInfo: DataColumn[]; data: DataRow[] };
+
+export type ColumnSnapshot = {
+    type: ColumnType;
+    nullCount: number;
+    uniqueCount: number;
+    mean: number | null;
+    std: number | null;
+};
+
+export type ColumnDiff = {
+    column: string;
+    status: 'added' | 'removed' | 'changed' | 'unchanged';
+    before?: ColumnSnapshot;
+    after?: ColumnSnapshot;
+};
+
+const snapshotColumn = (col: DataColumn, rows: DataRow[]): ColumnSnapshot => {
+    const values = col.type === 'numeric' ? numericValues(rows, col.name) : [];
+    return {
+        type: col.type,
+        nullCount: col.nullCount,
+        uniqueCount: col.uniqueCount,
+        mean: values.length ? mean(values) : null,
+        std: values.length ? std(values) : null,
+    };
+};
+
+const sameStat = (a: number | null, b: number | null) =>
+    a === null || b === null ? a === b : Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+/** Évolution de chaque colonne (type, nuls, cardinalité, moyenne / écart-type sur l'échantillon). */
+export const diffColumns = (before: DiffSource, after: DiffSource): ColumnDiff[] => {
+    const names = [...new Set([...before.columnInfo.map(c => c.name), ...after.columnInfo.map(c => c.name)])];
+    return names.map(column => {
+        const b = before.columnInfo.find(c => c.name === column);
+        const a = after.columnInfo.find(c => c.name === column);
+        const bs = b && snapshotColumn(b, before.data);
+        const as = a && snapshotColumn(a, after.data);
+        if (!bs) return { column, status: 'added', after: as };
+        if (!as) return { column, status: 'removed', before: bs };
+        const changed = bs.type !== as.type || bs.nullCount !== as.nullCount || bs.uniqueCount !== as.uniqueCount
+            || !sameStat(bs.mean, as.mean) || !sameStat(bs.std, as.std);
+        return { column, status: changed ? 'changed' : 'unchanged', before: bs, after: as };
+    });
+};
+
+export type DistributionBin = { label: string; before: number; after: number };
+
+/** Distributions superposées en pourcentage : intervalles communs (numérique) ou modalités principales. */
+export const distributionOverlay = (before: DataRow[], after: DataRow[], column: string, bins = 12): DistributionBin[] => {
+    const bn = numericValues(before, column);
+    const an = numericValues(after, column);
+    const share = (count: number, total: number) => total ? Number(((count / total) * 100).toFixed(1)) : 0;
+    if (bn.length && an.length) {
+        const [bMin, bMax] = extent(bn);
+        const [aMin, aMax] = extent(an);
+        const min = Math.min(bMin, aMin);
+        const max = Math.max(bMax, aMax);
+        const width = (max - min) / bins || 1;
+        const count = (values: number[], i: number) => values.filter(v => Math.min(bins - 1, Math.floor((v - min) / width)) === i).length;
+        return Array.from({ length: max === min ? 1 : bins }, (_, i) => ({
+            label: Number((min + i * width).toPrecision(3)).toString(),
+            before: share(count(bn, i), bn.length),
+            after: share(count(an, i), an.length),
+        }));
+    }
+    const counts = (rows: DataRow[]) => {
+        const map = new Map<string, number>();
+        rows.forEach(r => { if (!isMissingValue(r[column])) map.set(String(r[column]), (map.get(String(r[column])) || 0) + 1); });
+        return map;
+    };
+    const bc = counts(before);
+    const ac = counts(after);
+    const bTotal = [...bc.values()].reduce((x, y) => x + y, 0);
+    const aTotal = [...ac.values()].reduce((x, y) => x + y, 0);
+    return [...new Set([...bc.keys(), ...ac.keys()])]
+        .map(label => ({ label, before: share(bc.get(label) || 0, bTotal), after: share(ac.get(label) || 0, aTotal) }))
+        .sort((x, y) => (y.before + y.after) - (x.before + x.after))
+        .slice(0, bins);
+};
+
+export type CellChangeReason = 'imputed' | 'nulled' | 'cast' | 'capped' | 'rescaled' | 'encoded' | 'cleaned' | 'modified';
+
+export const CELL_CHANGE_LABELS: Record<CellChangeReason, string> = {
+    imputed: 'Imputation',
+    nulled: 'Valeur invalidée',
+    cast: 'Conversion de type',
+    capped: 'Écrêtage (outlier)',
+    rescaled: 'Scaling / transformation',
+    encoded: 'Encodage',
+    cleaned: 'Nettoyage du texte',
+    modified: 'Valeur modifiée',
+};
+
+export type RowDiff = {
+    label: string;
+    status: 'changed' | 'removed';
+    before: DataRow;
+    after?: DataRow;
+    changes: Record<string, CellChangeReason>;
+};
+
+export type RowDiffResult = {
+    // Colonne servant à apparier les lignes, null si appariement par position
+    key: string | null;
+    // Lignes ajoutées ou supprimées sans clé : l'appariement par position est approximatif
+    approximate: boolean;
+    rows: RowDiff[];
+    reasons: Partial<Record<CellChangeReason, number>>;
+};
+
+// Colonne présente des deux côtés, complète et unique : identifie une ligne malgré les suppressions
+const findRowKey = (before: DiffSource, after: DiffSource): string | null => {
+    const unique = (rows: DataRow[], col: string) => {
+        const values = rows.map(r => r[col]);
+        return values.every(v => !isMissingValue(v)) && new Set(values.map(String)).size === values.length;
+    };
+    const common = before.columnInfo.map(c => c.name).filter(n => after.columnInfo.some(c => c.name === n));
+    return common.find(col => {
+        if (!unique(before.data, col) || !unique(after.data, col)) return false;
+        const keys = new Set(after.data.map(r => String(r[col])));
+        return before.data.filter(r => keys.has(String(r[col]))).length >= Math.min(before.data.length, after.data.length) * 0.5;
+    }) ?? null;
+};
+
+/** Cellules modifiées sur l'échantillon, avec la cause la plus probable de chaque changement. */
+export const diffRows = (before: DiffSource, after: DiffSource, limit = 50): RowDiffResult => {
+    const key = findRowKey(before, after);
+    const afterByKey = key ? new Map(after.data.map(r => [String(r[key]), r])) : null;
+    const pairs = before.data.map((b, i) => ({
+        label: key ? String(b[key]) : `#${i + 1}`,
+        before: b,
+        after: key && afterByKey ? afterByKey.get(String(b[key])) : after.data[i],
+    }));
+    const common = before.columnInfo.map(c => c.name).filter(n => after.columnInfo.some(c => c.name === n));
+
+    // Contexte par colonne : transformation appliquée à (presque) toutes les valeurs, bornes après écrêtage
+    const context = new Map(common.map(col => {
+        const numericPairs = pairs.flatMap(p => {
+            const nb = toNumber(p.before[col]);
+            const na = p.after ? toNumber(p.after[col]) : null;
+            return nb !== null && na !== null ? [[nb, na]] : [];
+        });
+        const moved = numericPairs.filter(([nb, na]) => nb !== na).length;
+        const values = numericValues(after.data, col);
+        const [min, max] = extent(values);
+        return [col, {
+            rescaled: numericPairs.length > 0 && moved / numericPairs.length > 0.9,
+            min: values.length ? min : null,
+            max: values.length ? max : null,
+        }];
+    }));
+
+    const reasonFor = (col: string, b: unknown, a: unknown): CellChangeReason | null => {
+        const missingB = isMissingValue(b);
+        const missingA = isMissingValue(a);
+        if (missingB && missingA) return null;
+        if (missingB) return 'imputed';
+        if (missingA) return 'nulled';
+        if (String(b) === String(a)) return typeof b === typeof a ? null : 'cast';
+        const nb = toNumber(b);
+        const na = toNumber(a);
+        if (nb !== null && na !== null) {
+            if (nb === na) return 'cast';
+            const ctx = context.get(col);
+            if (ctx?.rescaled) return 'rescaled';
+            if (na === ctx?.min || na === ctx?.max) return 'capped';
+            return 'modified';
+        }
+        if (nb === null && na !== null) return 'encoded';
+        if (String(b).trim().toLowerCase() === String(a).trim().toLowerCase()) return 'cleaned';
+        return 'modified';
+    };
+
+    const reasons: Partial<Record<CellChangeReason, number>> = {};
+    const rows: RowDiff[] = [];
+    for (const pair of pairs) {
+        if (!pair.after) {
+            if (key && rows.length < limit) rows.push({ label: pair.label, status: 'removed', before: pair.before, changes: {} });
+            continue;
+        }
+        const changes: Record<string, CellChangeReason> = {};
+        for (const col of common) {
+            const reason = reasonFor(col, pair.before[col], pair.after[col]);
+            if (!reason) continue;
+            changes[col] = reason;
+            reasons[reason] = (reasons[reason] || 0) + 1;
+        }
+        if (Object.keys(changes).length && rows.length < limit) rows.push({ label: pair.label, status: 'changed', before: pair.before, after: pair.after, changes });
+    }
+    return { key, approximate: !key && before.data.length !== after.data.length, rows, reasons };
+};
+
+// ─── Profil de colonne ───
+
+/** Statistiques calculées sur l'échantillon, à défaut de réponse du serveur. */
+export const localColumnStats = (rows: DataRow[], column: string): ColumnStats | null => {
+    const values = numericValues(rows, column);
+    if (!values.length) return null;
+    const m = mean(values);
+    const s = std(values);
+    const q1 = quantile(values, 0.25);
+    const q3 = quantile(values, 0.75);
+    const skewness = s ? values.reduce((acc, v) => acc + ((v - m) / s) ** 3, 0) / values.length : 0;
+    const kurtosis = s ? values.reduce((acc, v) => acc + ((v - m) / s) ** 4, 0) / values.length - 3 : 0;
+    const [min, max] = extent(values);
+    return {
+        mean: m,
+        median: median(values),
+        mode: mode(values),
+        std: s,
+        min,
+        max,
+        q1,
+        q3,
+        iqr: q3 - q1,
+        skewness,
+        isNormal: Math.abs(skewness) < 0.5 && Math.abs(kurtosis) < 1,
+        isSymmetric: Math.abs(skewness) < 0.5,
+    };
+};
+
+export type MissingPattern = {
+    // Présence (false) ou absence (true) de valeur sur les premières lignes de l'échantillon
+    mask: boolean[];
+    longestRun: number;
+    // Colonnes manquantes en même temps : part des lignes où celle-ci est manquante
+    coMissing: { column: string; share: number }[];
+};
+
+export const missingPattern = (rows: DataRow[], headers: string[], column: string, sample = 240): MissingPattern => {
+    const missing = rows.map(r => isMissingValue(r[column]));
+    let longestRun = 0;
+    let run = 0;
+    for (const m of missing) {
+        run = m ? run + 1 : 0;
+        longestRun = Math.max(longestRun, run);
+    }
+    const missingRows = rows.filter((_, i) => missing[i]);
+    const coMissing = missingRows.length
+        ? headers.filter(h => h !== column)
+            .map(h => ({ column: h, share: missingRows.filter(r => isMissingValue(r[h])).length / missingRows.length }))
+            .filter(c => c.share >= 0.5)
+            .sort((a, b) => b.share - a.share)
+            .slice(0, 3)
+        : [];
+    return { mask: missing.slice(0, sample), longestRun, coMissing };
+};
+
+/** Problèmes détectés sur une colonne : audit (Section 0), manquants, outliers, asymétrie, cardinalité. */
+export const columnIssues = (col: DataColumn, rows: DataRow[], target?: string): string[] => {
+    const issues: string[] = [
+        ...suggestTypeFixes([col], rows).map(f => `Type ${f.from} → ${f.to} : ${f.reason}`),
+        ...findIrrelevantColumns([col], rows, target).map(c => c.detail),
+    ];
+    if (col.nullPercentage > 30) issues.push(`${col.nullPercentage.toFixed(1)} % de valeurs manquantes`);
+    if (col.type === 'numeric') {
+        const outliers = detectUnivariateOutliers(rows, col.name, 'iqr', 1.5).indices.length;
+        if (outliers) issues.push(`${outliers} valeur(s) hors bornes IQR sur l'échantillon`);
+        const stats = localColumnStats(rows, col.name);
+        if (stats && Math.abs(stats.skewness) > 1) issues.push(`Distribution asymétrique (skewness ${stats.skewness.toFixed(2)})`);
+    }
+    if (col.type === 'categorical' && col.uniqueCount > HIGH_CARDINALITY_LIMIT && !isIdentifierColumn(col, rows.length)) {
+        issues.push(`Haute cardinalité (${col.uniqueCount} modalités)`);
+    }
+    return issues;
+};
+
+/** Entrées du journal qui mentionnent la colonne. */
+export const columnTransformations = (journal: string[], column: string): string[] => {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])${column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\p{L}\\p{N}_])`, 'u');
+    return journal.filter(entry => pattern.test(entry));
+};
+
+// ─── Graphiques du tableau de bord ───
+
+export type CorrelationMatrix = { matrix: (number | null)[][]; columns: string[] };
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+export const CORRELATION_METHODS: Record<CorrelationMethod, string> = { pearson: 'Pearson', spearman: 'Spearman', kendall: 'Kendall' };
+
+// Au-delà, la matrice de nuages de points devient illisible (n² graphiques)
+export const MAX_MATRIX_COLUMNS = 8;
+
+export type ScatterPair = { x: string; y: string };
+
+// Colonnes choisies pour chaque carte, sauvegardées avec la session.
+// Un champ absent garde le choix automatique (premières colonnes, couple le plus corrélé).
+export type ChartSelection = {
+    distributions?: string[];
+    treemap?: string;
+    funnel?: string;
+    scatters?: ScatterPair[];
+    matrix?: string[];
+    correlation?: CorrelationMethod;
+    time?: TimeSeriesSelection;
+};
+
+const samePair = (a: ScatterPair, b: ScatterPair) => (a.x === b.x && a.y === b.y) || (a.x === b.y && a.y === b.x);
+
+/** Coefficient entre deux colonnes de la matrice (null si absent ou non calculable). */
+export const correlationBetween = (correlation: CorrelationMatrix | null, pair: ScatterPair): number | null => {
+    const i = correlation?.columns.indexOf(pair.x) ?? -1;
+    const j = correlation?.columns.indexOf(pair.y) ?? -1;
+    const value = i >= 0 && j >= 0 ? correlation?.matrix[i]?.[j] : null;
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+/** Couple de colonnes le plus corrélé (en valeur absolue), hors couples déjà affichés. */
+export const strongestPair = (correlation: CorrelationMatrix | null, exclude: ScatterPair[] = []): ScatterPair | null => {
+    if (!correlation?.matrix || !correlation.columns) return null;
+    let best: { pair: ScatterPair; corr: number } | null = null;
+    for (let i = 0; i < correlation.columns.length; i++) {
+        for (let j = i + 1; j < correlation.columns.length; j++) {
+            const pair = { x: correlation.columns[i], y: correlation.columns[j] };
+            const corr = Math.abs(correlation.matrix[i]?.[j] ?? 0);
+            if (Number.isFinite(corr) && !exclude.some(p => samePair(p, pair)) && (!best || corr > best.corr)) best = { pair, corr };
+        }
+    }
+    return best?.pair ?? null;
+};
+
+// ─── Séries temporelles ───
+
+export type TimeFrequency = 'day' | 'week' | 'month';
+
+export type TimeAggregation = 'mean' | 'sum' | 'min' | 'max';
+
+// `value` : métrique agrégée sur la période (null sans métrique ou sans valeur)
+export type TimePoint = { period: string; count: number; value: number | null };
+
+export type TimeGap = { from: string; to: string; periods: number };
+
+export type DecompositionPoint = { period: string; observed: number; trend: number | null; seasonal: number; residual: number | null };
+
+export type TimeSeriesSelection = { column: string; frequency: TimeFrequency; metric?: string; aggregation: TimeAggregation };
+
+// Cycle saisonnier naturel de chaque fréquence
+export const SEASONAL_PERIODS: Record<TimeFrequency, number> = { day: 7, week: 52, month: 12 };
+
+// Au-delà, la fréquence est trop fine pour l'étendue des dates (graphique illisible)
+export const MAX_TIME_PERIODS = 3000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Début de la période contenant la date (semaines commençant le lundi, comme pandas 'W-MON'). */
+const periodStart = (date: Date, frequency: TimeFrequency): Date => {
+    if (frequency === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    return frequency === 'week' ? new Date(day.getFullYear(), day.getMonth(), day.getDate() - (day.getDay() + 6) % 7) : day;
+};
+
+const nextPeriod = (start: Date, frequency: TimeFrequency): Date =>
+    frequency === 'month'
+        ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+        : new Date(start.getFullYear(), start.getMonth(), start.getDate() + (frequency === 'week' ? 7 : 1));
+
+const periodKey = (start: Date, frequency: TimeFrequency): string =>
+    frequency === 'month'
+        ? `${start.getFullYear()}-${pad(start.getMonth() + 1)}`
+        : `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+
+const parsePeriodKey = (key: string): Date | null => {
+    const m = key.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?/);
+    return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3] ?? 1)) : null;
+};
+
+/** Nombre de périodes couvertes par les dates d'une colonne (choix des fréquences proposées). */
+export const countPeriods = (rows: DataRow[], column: string, frequency: TimeFrequency): number => {
+    const times = rows.map(r => parseDate(r[column])?.getTime()).filter((t): t is number => t !== undefined);
+    if (!times.length) return 0;
+    const [min, max] = extent(times);
+    const first = periodStart(new Date(min), frequency);
+    const last = periodStart(new Date(max), frequency);
+    if (frequency === 'month') return (last.getFullYear() - first.getFullYear()) * 12 + last.getMonth() - first.getMonth() + 1;
+    return Math.round((last.getTime() - first.getTime()) / (86400000 * (frequency === 'week' ? 7 : 1))) + 1;
+};
+
+/**
+ * Complète la série : chaque période entre la première et la dernière est
+ * présente, à zéro enregistrement si elle manquait. Les clés reçues
+ * (serveur ou échantillon) sont ramenées au début de leur période.
+ */
+export const fillPeriods = (points: TimePoint[], frequency: TimeFrequency): TimePoint[] => {
+    const byKey = new Map<string, TimePoint>();
+    points.forEach(p => {
+        const date = parsePeriodKey(p.period);
+        if (!date) return;
+        const key = periodKey(periodStart(date, frequency), frequency);
+        byKey.set(key, { ...p, period: key });
+    });
+    const keys = [...byKey.keys()].sort();
+    if (!keys.length) return [];
+    const filled: TimePoint[] = [];
+    const last = keys[keys.length - 1];
+    for (let d = parsePeriodKey(keys[0]); d && filled.length < MAX_TIME_PERIODS; d = nextPeriod(d, frequency)) {
+        const key = periodKey(d, frequency);
+        filled.push(byKey.get(key) ?? { period: key, count: 0, value: null });
+        if (key >= last) break;
+    }
+    return filled;
+};
+
+const aggregate = (values: number[], aggregation: TimeAggregation): number | null => {
+    if (!values.length) return null;
+    switch (aggregation) {
+        case 'sum': return values.reduce((a, b) => a + b, 0);
+        case 'min': return extent(values)[0];
+        case 'max': return extent(values)[1];
+        default: return mean(values);
+    }
+};
+
+/** Rééchantillonnage local (échantillon chargé) : effectif par période et métrique agrégée. */
+export const resampleTimeSeries = (
+    rows: DataRow[],
+    column: string,
+    frequency: TimeFrequency,
+    metric?: string,
+    aggregation: TimeAggregation = 'mean'
+): TimePoint[] => {
+    const groups = new Map<string, { count: number; values: number[] }>();
+    rows.forEach(row => {
+        const date = parseDate(row[column]);
+        if (!date) return;
+        const key = periodKey(periodStart(date, frequency), frequency);
+        const group = groups.get(key) ?? { count: 0, values: [] };
+        group.count++;
+        const value = metric ? toNumber(row[metric]) : null;
+        if (value !== null) group.values.push(value);
+        groups.set(key, group);
+    });
+    return fillPeriods(
+        [...groups].map(([period, g]) => ({ period, count: g.count, value: metric ? aggregate(g.values, aggregation) : null })),
+        frequency
+    );
+};
+
+/** Périodes consécutives sans aucun enregistrement, des plus longues aux plus courtes. */
+export const findTimeGaps = (series: TimePoint[]): TimeGap[] => {
+    const gaps: TimeGap[] = [];
+    let start = -1;
+    series.forEach((p, i) => {
+        if (p.count === 0 && start < 0) start = i;
+        if (p.count > 0 && start >= 0) {
+            gaps.push({ from: series[start].period, to: series[i - 1].period, periods: i - start });
+            start = -1;
+        }
+    });
+    return gaps.sort((a, b) => b.periods - a.periods);
+};
+
+/**
+ * Décomposition additive classique (statsmodels `seasonal_decompose`) :
+ * tendance = moyenne mobile centrée sur un cycle, saisonnalité = moyenne des
+ * écarts à la tendance par position dans le cycle, résidu = le reste.
+ * Les valeurs manquantes sont interpolées linéairement. Il faut au moins deux cycles complets.
+ */
+export const decomposeSeries = (series: { period: string; value: number | null }[], period: number): DecompositionPoint[] | null => {
+    const n = series.length;
+    if (period < 2 || n < 2 * period) return null;
+    const known = series.map((p, i) => ({ i, v: p.value })).filter((p): p is { i: number; v: number } => p.v !== null && Number.isFinite(p.v));
+    if (known.length < 2) return null;
+    const observed = series.map((_, i) => {
+        const after = known.findIndex(k => k.i >= i);
+        if (after === 0) return known[0].v;
+        if (after < 0) return known[known.length - 1].v;
+        const a = known[after - 1];
+        const b = known[after];
+        return b.i === i ? b.v : a.v + ((b.v - a.v) * (i - a.i)) / (b.i - a.i);
+    });
+
+    // Moyenne mobile centrée (2×p pour un cycle pair)
+    const half = Math.floor(period / 2);
+    const trend = observed.map((_, i) => {
+        if (i < half || i + half >= n) return null;
+        if (period % 2) return mean(observed.slice(i - half, i + half + 1));
+        let sum = (observed[i - half] + observed[i + half]) / 2;
+        for (let k = i - half + 1; k < i + half; k++) sum += observed[k];
+        return sum / period;
+    });
+
+    const byPosition = Array.from({ length: period }, () => [] as number[]);
+    trend.forEach((t, i) => { if (t !== null) byPosition[i % period].push(observed[i] - t); });
+    const indices = byPosition.map(values => values.length ? mean(values) : 0);
+    const offset = mean(indices);
+    const seasonal = indices.map(s => s - offset);
+
+    return series.map((p, i) => {
+        const t = trend[i];
+        return {
+            period: p.period,
+            observed: observed[i],
+            trend: t,
+            seasonal: seasonal[i % period],
+            residual: t === null ? null : observed[i] - t - seasonal[i % period],
+        };
+    });
+};
+
+// ─── Motifs de valeurs manquantes ───
+
+export type MissingnessMatrix = { columns: string[]; rows: number[]; mask: boolean[][] };
+
+/** Masque des manquants (lignes × colonnes) sur des lignes réparties uniformément dans l'échantillon. */
+export const missingnessMatrix = (rows: DataRow[], columns: string[], sample = 200): MissingnessMatrix => {
+    const step = Math.max(1, rows.length / sample);
+    const indices = Array.from({ length: Math.min(sample, rows.length) }, (_, i) => Math.floor(i * step));
+    return { columns, rows: indices, mask: indices.map(i => columns.map(c => isMissingValue(rows[i][c]))) };
+};
+
+/**
+ * Corrélation de nullité (comme missingno) : Pearson entre les indicateurs
+ * « valeur manquante » des colonnes. Proche de 1 : les colonnes manquent
+ * ensemble ; proche de -1 : l'une manque quand l'autre est renseignée.
+ * Les colonnes jamais ou toujours manquantes n'ont pas de variance et sont exclues.
+ */
+export const nullityCorrelation = (rows: DataRow[], columns: string[]): CorrelationMatrix => {
+    const indicators = columns
+        .map(column => ({ column, values: rows.map(r => isMissingValue(r[column]) ? 1 : 0) }))
+        .filter(({ values }) => {
+            const missing = values.reduce<number>((a, b) => a + b, 0);
+            return missing > 0 && missing < values.length;
+        });
+    return {
+        columns: indicators.map(i => i.column),
+        matrix: indicators.map(a => indicators.map(b => a === b ? 1 : pearson(a.values.map((v, k) => [v, b.values[k]])))),
+    };
+};
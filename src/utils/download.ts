@@ -0,0 +1,40 @@
+/** Déclenche le téléchargement d'un Blob dans le navigateur. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;   // ← doit être AVANT appendChild + click
+    anchor.style.display = 'none';
+    document.body.appendChild(anchor);    // ← requis pour Firefox
+    anchor.click();
+
+    // Nettoyage différé (laisser le temps au téléchargement de démarrer)
+    setTimeout(() => {
+        document.body.removeChild(anchor);
+        URL.revokeObjectURL(url);
+    }, 2000);
+};
+
+/** Nom de fichier proposé par le serveur (`X-Suggested-Filename` ou `Content-Disposition`). */
+export const resolveDownloadName = (headers: Record<string, unknown>, fallback: string): string => {
+    const customHeader = String(headers['x-suggested-filename'] || '');
+    if (customHeader) return customHeader;
+    const disposition = String(headers['content-disposition'] || '');
+    const rfcMatch = disposition.match(/filename\*=UTF-8''([^;\s]+)/i);
+    const simpleMatch = disposition.match(/filename="?([^";\n]+)"?/i);
+    if (rfcMatch?.[1]) return decodeURIComponent(rfcMatch[1]);
+    if (simpleMatch?.[1]) return simpleMatch[1].trim();
+    return fallback;
+};
+
+/** Message d'erreur d'une requête `responseType: 'blob'` (le corps JSON arrive sous forme de Blob). */
+export const readBlobError = async (data: unknown): Promise<string | null> => {
+    if (!(data instanceof Blob)) return null;
+    const text = await data.text();
+    try {
+        const json = JSON.parse(text);
+        return json.message || json.error || text;
+    } catch {
+        return text || null;
+    }
+};
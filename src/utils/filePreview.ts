@@ -0,0 +1,265 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { describeColumns, type DataColumn, type DataRow } from './dataProcessor';
+
+export type FileKind = 'csv' | 'excel' | 'json' | 'xml';
+
+export type PreviewOptions = {
+    delimiter?: string;
+    encoding?: string;
+    hasHeader?: boolean;
+    sheet?: string;
+};
+
+export type FilePreview = {
+    kind: FileKind;
+    headers: string[];
+    rows: DataRow[];
+    columns: DataColumn[];
+    delimiter?: string;
+    encoding?: string;
+    hasHeader: boolean;
+    sheets?: string[];
+    sheet?: string;
+    warnings: string[];
+    errors: string[];
+};
+
+export const PREVIEW_ROWS = 50;
+// Les fichiers texte ne sont lus que partiellement : assez pour l'aperçu, sans charger tout le fichier
+const TEXT_SAMPLE_BYTES = 256 * 1024;
+
+export const DELIMITERS = [
+    { id: ',', label: 'Virgule (,)' },
+    { id: ';', label: 'Point-virgule (;)' },
+    { id: '\t', label: 'Tabulation' },
+    { id: '|', label: 'Barre verticale (|)' },
+];
+
+export const ENCODINGS = ['utf-8', 'windows-1252', 'iso-8859-1', 'utf-16le'];
+
+export const fileKindOf = (fileName: string): FileKind | null => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'csv' || ext === 'tsv' || ext === 'txt') return 'csv';
+    if (ext === 'xlsx' || ext === 'xls') return 'excel';
+    if (ext === 'json') return 'json';
+    if (ext === 'xml') return 'xml';
+    return null;
+};
+
+// BOM, sinon UTF-8 strict, sinon repli sur Windows-1252 (exports Excel français).
+// Lecture partielle : un caractère multi-octets coupé en fin d'échantillon n'est pas une erreur
+const detectEncoding = (bytes: Uint8Array, truncated: boolean): string => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: truncated });
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+};
+
+// Ligne d'en-tête probable : aucune cellule numérique/vide et des valeurs distinctes
+const looksLikeHeader = (first: unknown[], second?: unknown[]): boolean => {
+    const cells = first.map(c => String(c ?? '').trim());
+    if (cells.some(c => c === '' || !Number.isNaN(Number(c)))) return false;
+    if (new Set(cells).size !== cells.length) return false;
+    if (!second) return true;
+    return second.some(c => String(c ?? '').trim() !== '' && !Number.isNaN(Number(c)))
+        || cells.some((c, i) => c !== String(second[i] ?? '').trim());
+};
+
+const uniqueHeaders = (raw: unknown[], warnings: string[]): string[] => {
+    const seen = new Map<string, number>();
+    return raw.map((cell, i) => {
+        const base = String(cell ?? '').trim() || `colonne_${i + 1}`;
+        const count = seen.get(base) || 0;
+        seen.set(base, count + 1);
+        if (count === 0) return base;
+        warnings.push(`En-tête dupliqué « ${base} » renommé en « ${base}_${count + 1} »`);
+        return `${base}_${count + 1}`;
+    });
+};
+
+// Tableau de lignes brutes → en-têtes, objets et contrôles de cohérence
+const fromMatrix = (matrix: unknown[][], hasHeaderOption: boolean | undefined, warnings: string[], errors: string[]) => {
+    const nonEmpty = matrix.filter(r => r.some(c => String(c ?? '').trim() !== ''));
+    if (!nonEmpty.length) {
+        errors.push('Le fichier ne contient aucune ligne exploitable.');
+        return { headers: [], rows: [], hasHeader: false };
+    }
+    const hasHeader = hasHeaderOption ?? looksLikeHeader(nonEmpty[0], nonEmpty[1]);
+    const width = Math.max(...nonEmpty.map(r => r.length));
+    const headerRow = hasHeader ? nonEmpty[0] : Array.from({ length: width }, (_, i) => `colonne_${i + 1}`);
+    const headers = uniqueHeaders(Array.from({ length: width }, (_, i) => headerRow[i]), warnings);
+    const body = (hasHeader ? nonEmpty.slice(1) : nonEmpty).slice(0, PREVIEW_ROWS);
+
+    const ragged = body.filter(r => r.length !== headerRow.length).length;
+    if (ragged) warnings.push(`${ragged} ligne(s) de l'aperçu n'ont pas le même nombre de colonnes que l'en-tête.`);
+    if (width === 1 && matrix.length > 1) warnings.push('Une seule colonne détectée : vérifiez le séparateur.');
+
+    const rows = body.map(r => Object.fromEntries(headers.map((h, i) => [h, r[i] ?? null])) as DataRow);
+    return { headers, rows, hasHeader };
+};
+
+const previewText = async (file: File, options: PreviewOptions): Promise<FilePreview> => {
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    const bytes = new Uint8Array(await file.slice(0, TEXT_SAMPLE_BYTES).arrayBuffer());
+    const truncated = file.size > TEXT_SAMPLE_BYTES;
+    const encoding = options.encoding || detectEncoding(bytes, truncated);
+    let text = new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+    // Dernière ligne potentiellement tronquée par la lecture partielle
+    if (truncated) text = text.slice(0, text.lastIndexOf('\n'));
+    if (text.includes('\uFFFD')) warnings.push(`Caractères illisibles avec l'encodage ${encoding} : essayez un autre encodage.`);
+
+    const parsed = Papa.parse<unknown[]>(text, {
+        delimiter: options.delimiter || '',
+        preview: PREVIEW_ROWS + 1,
+        skipEmptyLines: true,
+    });
+    if (parsed.errors.some(e => e.type === 'Quotes')) warnings.push('Guillemets non fermés détectés dans les premières lignes.');
+
+    const { headers, rows, hasHeader } = fromMatrix(parsed.data, options.hasHeader, warnings, errors);
+    return {
+        kind: 'csv', headers, rows, columns: describeColumns(headers, rows),
+        delimiter: parsed.meta.delimiter, encoding, hasHeader, warnings, errors,
+    };
+};
+
+const previewExcel = async (file: File, options: PreviewOptions): Promise<FilePreview> => {
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheetRows: PREVIEW_ROWS + 1 });
+    const sheets = workbook.SheetNames;
+    const sheet = options.sheet && sheets.includes(options.sheet) ? options.sheet : sheets[0];
+    if (!sheet) {
+        errors.push('Le classeur ne contient aucune feuille.');
+        return { kind: 'excel', headers: [], rows: [], columns: [], hasHeader: false, sheets, warnings, errors };
+    }
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], { header: 1, defval: null, raw: true });
+    const { headers, rows, hasHeader } = fromMatrix(matrix, options.hasHeader, warnings, errors);
+    return { kind: 'excel', headers, rows, columns: describeColumns(headers, rows), hasHeader, sheets, sheet, warnings, errors };
+};
+
+const SAMPLED_WARNING = 'Fichier volumineux : aperçu construit sur le début du fichier, le contrôle complet est fait par le serveur.';
+
+// JSON et XML en UTF-8 : seul le début du fichier est lu, comme pour le CSV
+const readTextSample = async (file: File): Promise<{ text: string; truncated: boolean }> => {
+    const truncated = file.size > TEXT_SAMPLE_BYTES;
+    const bytes = new Uint8Array(await file.slice(0, TEXT_SAMPLE_BYTES).arrayBuffer());
+    return { text: new TextDecoder().decode(bytes, { stream: truncated }).replace(/^\uFEFF/, ''), truncated };
+};
+
+// Éléments complets en tête du premier tableau (racine ou clé « data ») d'un JSON tronqué, analysés un à un
+const leadingJsonRecords = (text: string, limit: number): unknown[] => {
+    const records: unknown[] = [];
+    const open = text.indexOf('[');
+    if (open < 0) return records;
+    let depth = 0;
+    let start = -1;
+    let inString = false;
+    let escaped = false;
+    for (let i = open; i < text.length && records.length < limit; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (depth === 1 && start < 0 && !/[\s,\]]/.test(ch)) start = i;
+        if (ch === '"') inString = true;
+        else if (ch === '[' || ch === '{') depth++;
+        else if (ch === ']' || ch === '}') depth--;
+        if ((depth === 1 && ch === ',') || depth === 0) {
+            if (start >= 0) records.push(JSON.parse(text.slice(start, i)));
+            start = -1;
+            if (depth === 0) break;
+        }
+    }
+    return records;
+};
+
+// XML tronqué refermé après le dernier enregistrement complet (enfant de la racine)
+const closeXmlSample = (text: string): string | null => {
+    const body = text.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '');
+    const root = /<([A-Za-z_][\w:.-]*)[^>]*>/.exec(body);
+    if (!root) return null;
+    const record = /<([A-Za-z_][\w:.-]*)/.exec(body.slice(root.index + root[0].length));
+    if (!record) return null;
+    const closing = `</${record[1]}>`;
+    const closed = body.lastIndexOf(closing);
+    // Enregistrements auto-fermants (<ligne a="1"/>) à défaut de balise fermante
+    const end = closed >= 0 ? closed + closing.length : body.lastIndexOf('/>') + 2;
+    return end > root.index + root[0].length ? `${body.slice(0, end)}</${root[1]}>` : null;
+};
+
+const previewJson = async (file: File): Promise<FilePreview> => {
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    let records: unknown[] = [];
+    try {
+        const { text, truncated } = await readTextSample(file);
+        if (truncated) {
+            records = leadingJsonRecords(text, PREVIEW_ROWS);
+            warnings.push(SAMPLED_WARNING);
+        } else {
+            const parsed = JSON.parse(text);
+            records = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.data) ? parsed.data : [];
+        }
+        if (!records.length) errors.push('Le JSON doit contenir un tableau d\'objets (ou une clé « data »).');
+    } catch (err) {
+        errors.push('JSON invalide : ' + (err instanceof Error ? err.message : String(err)));
+    }
+    const rows = records.slice(0, PREVIEW_ROWS).filter((r): r is DataRow => !!r && typeof r === 'object' && !Array.isArray(r));
+    if (rows.length < Math.min(records.length, PREVIEW_ROWS)) warnings.push('Certaines entrées ne sont pas des objets et seront ignorées.');
+    const headers = [...new Set(rows.flatMap(r => Object.keys(r)))];
+    return { kind: 'json', headers, rows, columns: describeColumns(headers, rows), hasHeader: true, warnings, errors };
+};
+
+const previewXml = async (file: File): Promise<FilePreview> => {
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    const { text, truncated } = await readTextSample(file);
+    const source = truncated ? closeXmlSample(text) : text;
+    if (source === null) {
+        errors.push('Aucun enregistrement complet au début du fichier XML.');
+        return { kind: 'xml', headers: [], rows: [], columns: [], hasHeader: true, warnings, errors };
+    }
+    if (truncated) warnings.push(SAMPLED_WARNING);
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+        errors.push('XML invalide : ' + (parseError.textContent || '').split('\n')[0]);
+        return { kind: 'xml', headers: [], rows: [], columns: [], hasHeader: true, warnings, errors };
+    }
+    // Chaque enfant de la racine est une ligne, ses sous-éléments (ou attributs) sont les colonnes
+    const records = Array.from(doc.documentElement.children).slice(0, PREVIEW_ROWS);
+    const rows: DataRow[] = records.map(el => {
+        const row: DataRow = {};
+        Array.from(el.attributes).forEach(a => { row[a.name] = a.value; });
+        Array.from(el.children).forEach(c => { row[c.tagName] = c.textContent; });
+        return row;
+    });
+    if (!rows.length) errors.push('Aucun enregistrement trouvé sous l\'élément racine.');
+    const headers = [...new Set(rows.flatMap(r => Object.keys(r)))];
+    return { kind: 'xml', headers, rows, columns: describeColumns(headers, rows), hasHeader: true, warnings, errors };
+};
+
+/** Lit les premières lignes du fichier dans le navigateur pour validation avant l'upload. */
+export const previewFile = async (file: File, options: PreviewOptions = {}): Promise<FilePreview> => {
+    const kind = fileKindOf(file.name);
+    if (file.size === 0) {
+        return { kind: kind || 'csv', headers: [], rows: [], columns: [], hasHeader: false, warnings: [], errors: ['Le fichier est vide.'] };
+    }
+    if (kind === 'excel') return previewExcel(file, options);
+    if (kind === 'json') return previewJson(file);
+    if (kind === 'xml') return previewXml(file);
+    if (kind === 'csv') return previewText(file, options);
+    return {
+        kind: 'csv', headers: [], rows: [], columns: [], hasHeader: false, warnings: [],
+        errors: ['Format non supporté : CSV, TSV, XLS, XLSX, JSON ou XML attendu.'],
+    };
+};